@@ -143,6 +143,139 @@ async fn save_preferences(app: AppHandle, preferences: AppPreferences) -> Result
     Ok(())
 }
 
+// Question bank - questions kept across exams, stored as one JSON file
+fn get_question_bank_path(app: &AppHandle) -> Result<PathBuf, String> {
+    let app_data_dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| format!("Failed to get app data directory: {e}"))?;
+
+    // Ensure the directory exists
+    std::fs::create_dir_all(&app_data_dir)
+        .map_err(|e| format!("Failed to create app data directory: {e}"))?;
+
+    Ok(app_data_dir.join("question-bank.json"))
+}
+
+#[tauri::command]
+async fn load_question_bank(app: AppHandle) -> Result<Option<Value>, String> {
+    log::debug!("Loading question bank from disk");
+    let bank_path = get_question_bank_path(&app)?;
+
+    if !bank_path.exists() {
+        log::info!("Question bank file not found, starting empty");
+        return Ok(None);
+    }
+
+    let contents = std::fs::read_to_string(&bank_path).map_err(|e| {
+        log::error!("Failed to read question bank file: {e}");
+        format!("Failed to read question bank file: {e}")
+    })?;
+
+    let bank: Value = serde_json::from_str(&contents).map_err(|e| {
+        log::error!("Failed to parse question bank JSON: {e}");
+        format!("Failed to parse question bank: {e}")
+    })?;
+
+    log::info!("Successfully loaded question bank");
+    Ok(Some(bank))
+}
+
+#[tauri::command]
+async fn save_question_bank(app: AppHandle, bank: Value) -> Result<(), String> {
+    log::debug!("Saving question bank to disk");
+    let bank_path = get_question_bank_path(&app)?;
+
+    let json_content = serde_json::to_string_pretty(&bank).map_err(|e| {
+        log::error!("Failed to serialize question bank: {e}");
+        format!("Failed to serialize question bank: {e}")
+    })?;
+
+    // Images are stored inline, so allow more than recovery data (100MB limit)
+    if json_content.len() > 104_857_600 {
+        return Err("Question bank too large (max 100MB)".to_string());
+    }
+
+    // Write to a temporary file first, then rename (atomic operation)
+    let temp_path = bank_path.with_extension("tmp");
+
+    std::fs::write(&temp_path, json_content).map_err(|e| {
+        log::error!("Failed to write question bank file: {e}");
+        format!("Failed to write question bank file: {e}")
+    })?;
+
+    std::fs::rename(&temp_path, &bank_path).map_err(|e| {
+        log::error!("Failed to finalize question bank file: {e}");
+        format!("Failed to finalize question bank file: {e}")
+    })?;
+
+    log::info!("Successfully saved question bank to {bank_path:?}");
+    Ok(())
+}
+
+// Import attachments - images and tables of the last DOCX import
+fn get_import_attachments_path(app: &AppHandle) -> Result<PathBuf, String> {
+    let app_data_dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| format!("Failed to get app data directory: {e}"))?;
+
+    // Ensure the directory exists
+    std::fs::create_dir_all(&app_data_dir)
+        .map_err(|e| format!("Failed to create app data directory: {e}"))?;
+
+    Ok(app_data_dir.join("import-attachments.json"))
+}
+
+#[tauri::command]
+async fn load_import_attachments(app: AppHandle) -> Result<Option<Value>, String> {
+    log::debug!("Loading import attachments from disk");
+    let attachments_path = get_import_attachments_path(&app)?;
+
+    if !attachments_path.exists() {
+        return Ok(None);
+    }
+
+    let contents = std::fs::read_to_string(&attachments_path).map_err(|e| {
+        log::error!("Failed to read import attachments file: {e}");
+        format!("Failed to read import attachments file: {e}")
+    })?;
+
+    let attachments: Value = serde_json::from_str(&contents).map_err(|e| {
+        log::error!("Failed to parse import attachments JSON: {e}");
+        format!("Failed to parse import attachments: {e}")
+    })?;
+
+    Ok(Some(attachments))
+}
+
+#[tauri::command]
+async fn save_import_attachments(app: AppHandle, attachments: Value) -> Result<(), String> {
+    log::debug!("Saving import attachments to disk");
+    let attachments_path = get_import_attachments_path(&app)?;
+
+    let json_content = serde_json::to_string(&attachments).map_err(|e| {
+        log::error!("Failed to serialize import attachments: {e}");
+        format!("Failed to serialize import attachments: {e}")
+    })?;
+
+    // Write to a temporary file first, then rename (atomic operation)
+    let temp_path = attachments_path.with_extension("tmp");
+
+    std::fs::write(&temp_path, json_content).map_err(|e| {
+        log::error!("Failed to write import attachments file: {e}");
+        format!("Failed to write import attachments file: {e}")
+    })?;
+
+    std::fs::rename(&temp_path, &attachments_path).map_err(|e| {
+        log::error!("Failed to finalize import attachments file: {e}");
+        format!("Failed to finalize import attachments file: {e}")
+    })?;
+
+    log::info!("Saved import attachments to {attachments_path:?}");
+    Ok(())
+}
+
 #[tauri::command]
 async fn send_native_notification(
     app: AppHandle,
@@ -511,6 +644,10 @@ pub fn run() {
             greet,
             load_preferences,
             save_preferences,
+            load_question_bank,
+            save_question_bank,
+            load_import_attachments,
+            save_import_attachments,
             send_native_notification,
             save_emergency_data,
             load_emergency_data,
@@ -5,6 +5,7 @@ import { initializeCommandSystem } from './lib/commands'
 import { logger } from './lib/logger'
 import { cleanupOldFiles } from './lib/recovery'
 import { isTauri } from './lib/tauri'
+import { restoreImportAttachments } from './store/mcq-store'
 import './App.css'
 import MainWindow from './components/layout/MainWindow'
 import { ThemeProvider } from './components/ThemeProvider'
@@ -22,6 +23,9 @@ function App() {
       logger.warn('Failed to cleanup old recovery files', { error })
     })
 
+    // Images and tables of the last DOCX import are saved apart from the store
+    void restoreImportAttachments()
+
     // Example of logging with context
     logger.info('App environment', {
       isDev: import.meta.env.DEV,
@@ -127,6 +127,8 @@ function getGroupLabel(groupName: string): string {
       return 'Window'
     case 'notification':
       return 'Notifications'
+    case 'exam':
+      return 'Exam'
     case 'other':
       return 'Other'
     default:
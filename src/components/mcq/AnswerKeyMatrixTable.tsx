@@ -0,0 +1,46 @@
+/**
+ * Answer Key Matrix Table - Correct answers per question × exam version
+ */
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { AnswerKeyMatrix } from '@/types/mcq'
+
+interface AnswerKeyMatrixTableProps {
+  matrix: AnswerKeyMatrix
+}
+
+export function AnswerKeyMatrixTable({ matrix }: AnswerKeyMatrixTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-16">Q#</TableHead>
+          {matrix.codes.map(code => (
+            <TableHead key={code} className="text-center font-mono">
+              {code}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {matrix.rows.map(row => (
+          <TableRow key={row.questionNumber}>
+            <TableCell className="font-medium">{row.questionNumber}</TableCell>
+            {row.answers.map((answers, index) => (
+              <TableCell key={index} className="text-center font-mono">
+                {answers.join(', ') || '—'}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -1,15 +1,30 @@
 /**
  * Answer Sheet View - Generate bubble answer sheets
- * 4-column layout with filled circles for correct answers
+ * Answer key: 4-column layout with filled circles for correct answers
+ * Student sheet: blank OMR sheet with corner marks and student ID / exam code
+ * grids, printed at fixed geometry so filled sheets can be scanned
  */
 
-import React, { useRef, useCallback } from 'react'
+import React, { useRef, useCallback, useMemo, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { OmrSheet } from '@/components/mcq/OmrSheet'
 import { useMcqStore } from '@/store/mcq-store'
-import { Copy, Download } from 'lucide-react'
+import { getAnswerSheetQuestions } from '@/services/generator'
+import { getAnswerLetters } from '@/services/answer-letters'
+import { buildAnswerSheetPdf, buildOmrSheetPdf } from '@/services/pdf-export'
+import {
+  buildOmrLayout,
+  getExamOmrOptions,
+  type OmrLayout,
+} from '@/services/omr-layout'
+import { saveFile } from '@/lib/save-file'
+import { Copy, Download, FileType } from 'lucide-react'
 import { toast } from 'sonner'
 
+type SheetMode = 'key' | 'student'
+
 interface AnswerSheetProps {
   questions: { number: number; correctAnswers: string[] }[]
   maxAnswers?: number
@@ -20,7 +35,7 @@ interface AnswerSheetProps {
 
 const AnswerSheetBubbles = React.forwardRef<HTMLDivElement, AnswerSheetProps>(
   ({ questions, maxAnswers = 5, questionsPerColumn, showColumnHeaders, bubbleSize }, ref) => {
-    const letters = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'].slice(0, maxAnswers)
+    const letters = getAnswerLetters(maxAnswers)
     const numColumnPairs = 4 // Fixed: 4 pairs = 8 visual columns
 
     // Split questions into 4 groups
@@ -192,45 +207,24 @@ export function AnswerSheetView() {
   const examConfig = useMcqStore(state => state.examConfig)
   const setCurrentView = useMcqStore(state => state.setCurrentView)
   const sheetRef = useRef<HTMLDivElement>(null)
+  const [mode, setMode] = useState<SheetMode>('key')
 
   // Extract questions and their correct answers
-  const questions: { number: number; correctAnswers: string[] }[] = []
-  let currentQuestionNum = examConfig.startNumber
-  let currentAnswers: string[] = []
-  let maxAnswers = 0
-  let currentQuestionAnswerCount = 0
+  const { questions, maxAnswers } = useMemo(
+    () => getAnswerSheetQuestions(parsedRows, examConfig.startNumber),
+    [parsedRows, examConfig.startNumber]
+  )
 
-  for (const row of parsedRows) {
-    if (row.type === 'question') {
-      if (currentAnswers.length > 0 || currentQuestionAnswerCount > 0) {
-        questions.push({
-          number: currentQuestionNum - 1,
-          correctAnswers: currentAnswers,
-        })
-        maxAnswers = Math.max(maxAnswers, currentQuestionAnswerCount)
-        currentAnswers = []
-        currentQuestionAnswerCount = 0
-      }
-      currentQuestionNum++
-    } else if (row.type === 'answer') {
-      currentQuestionAnswerCount++
-      if (row.isKey) {
-        currentAnswers.push(row.label)
+  // Student sheet layout, or the reason it cannot be built
+  const omr = useMemo((): { layout?: OmrLayout; error?: string } => {
+    try {
+      return {
+        layout: buildOmrLayout(getExamOmrOptions(parsedRows, examConfig)),
       }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) }
     }
-  }
-
-  // Don't forget last question
-  if (currentAnswers.length > 0 || currentQuestionAnswerCount > 0) {
-    questions.push({
-      number: currentQuestionNum - 1,
-      correctAnswers: currentAnswers,
-    })
-    maxAnswers = Math.max(maxAnswers, currentQuestionAnswerCount)
-  }
-
-  // Default to 5 if no answers found (edge case) or cap at reasonable number
-  maxAnswers = maxAnswers > 0 ? maxAnswers : 5
+  }, [parsedRows, examConfig])
 
   const handleSaveAsImage = useCallback(async () => {
     if (!sheetRef.current) return
@@ -289,6 +283,31 @@ export function AnswerSheetView() {
     }
   }, [])
 
+  const handleSaveAsPdf = useCallback(async () => {
+    try {
+      let blob: Blob
+      if (mode === 'student') {
+        if (!omr.layout) {
+          toast.error(omr.error ?? 'Failed to lay out the student sheet')
+          return
+        }
+        blob = await buildOmrSheetPdf(omr.layout)
+      } else {
+        blob = await buildAnswerSheetPdf(questions, maxAnswers, examConfig)
+      }
+      const saved = await saveFile(blob, {
+        defaultPath:
+          mode === 'student' ? 'student-sheet.pdf' : 'answer-sheet.pdf',
+        filterName: 'PDF',
+        extensions: ['pdf'],
+      })
+      if (saved) toast.success('Answer sheet saved as PDF')
+    } catch (error) {
+      console.error('PDF generation error:', error)
+      toast.error('Failed to generate PDF')
+    }
+  }, [mode, omr, questions, maxAnswers, examConfig])
+
   const handleCopyAsImage = useCallback(async () => {
     if (!sheetRef.current) return
 
@@ -351,6 +370,16 @@ export function AnswerSheetView() {
           </p>
         </div>
         <div className="flex gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={mode}
+            onValueChange={value => value && setMode(value as SheetMode)}
+          >
+            <ToggleGroupItem value="key">Answer key</ToggleGroupItem>
+            <ToggleGroupItem value="student">Student sheet</ToggleGroupItem>
+          </ToggleGroup>
           <Button
             onClick={handleCopyAsImage}
             variant="outline"
@@ -360,29 +389,48 @@ export function AnswerSheetView() {
             <Copy className="h-4 w-4" />
             Copy as Image
           </Button>
-          <Button onClick={handleSaveAsImage} size="sm" className="gap-2">
+          <Button
+            onClick={handleSaveAsImage}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+          >
             <Download className="h-4 w-4" />
             Save as Image
           </Button>
+          <Button onClick={handleSaveAsPdf} size="sm" className="gap-2">
+            <FileType className="h-4 w-4" />
+            Save as PDF
+          </Button>
         </div>
       </div>
 
       <Card className="flex-1 overflow-auto">
         <CardContent className="p-6">
-          <AnswerSheetBubbles
-            questions={questions}
-            maxAnswers={maxAnswers}
-            questionsPerColumn={examConfig.questionsPerColumn}
-            showColumnHeaders={examConfig.showColumnHeaders}
-            bubbleSize={examConfig.bubbleSize}
-            ref={sheetRef}
-          />
+          {mode === 'key' ? (
+            <AnswerSheetBubbles
+              questions={questions}
+              maxAnswers={maxAnswers}
+              questionsPerColumn={examConfig.questionsPerColumn}
+              showColumnHeaders={examConfig.showColumnHeaders}
+              bubbleSize={examConfig.bubbleSize}
+              ref={sheetRef}
+            />
+          ) : omr.layout ? (
+            <div className="mx-auto max-w-3xl border shadow-sm">
+              <OmrSheet layout={omr.layout} ref={sheetRef} />
+            </div>
+          ) : (
+            <p className="text-center text-sm text-destructive">{omr.error}</p>
+          )}
         </CardContent>
       </Card>
 
       <div className="text-xs text-muted-foreground">
         <p>
-          {questions.length} questions with filled circles for correct answers
+          {mode === 'key'
+            ? `${questions.length} questions with filled circles for correct answers`
+            : `${questions.length} questions on a blank student sheet (print at 100% scale for scanning)`}
         </p>
       </div>
     </div>
@@ -0,0 +1,194 @@
+/**
+ * Exam Versions Card - Generate several exam codes in one run
+ */
+
+import { useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { saveFile } from '@/lib/save-file'
+import { useMcqStore } from '@/store/mcq-store'
+import { generateSeed, getConfiguredShuffleModes } from '@/services/shuffle'
+import { exportVersionsBundle, generateVersions } from '@/services/versions'
+import { Download, Layers, Pin } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface ExamVersionsCardProps {
+  /** Code of the version shown in the preview (undefined = working copy) */
+  selectedCode?: string
+  onSelect: (code: string | undefined) => void
+}
+
+export function ExamVersionsCard({
+  selectedCode,
+  onSelect,
+}: ExamVersionsCardProps) {
+  const examConfig = useMcqStore(state => state.examConfig)
+  const setExamConfig = useMcqStore(state => state.setExamConfig)
+  const examVersions = useMcqStore(state => state.examVersions)
+  const runSeed = useMcqStore(state => state.examVersionsSeed)
+
+  const handleGenerate = useCallback(() => {
+    const { parsedRows, examConfig, setExamVersions } = useMcqStore.getState()
+
+    if (getConfiguredShuffleModes(examConfig).length === 0) {
+      toast.warning('No shuffle steps enabled in Settings')
+      return
+    }
+
+    const seed = examConfig.seed.trim() || generateSeed()
+    const versions = generateVersions(parsedRows, examConfig, {
+      count: examConfig.versionCount,
+      firstCode: examConfig.firstVersionCode,
+      seed,
+    })
+    setExamVersions(versions, seed)
+    onSelect(versions[0]?.code)
+    toast.success(`Generated ${versions.length} versions`)
+  }, [onSelect])
+
+  const handleExportBundle = useCallback(async () => {
+    const { examVersions, examConfig } = useMcqStore.getState()
+
+    try {
+      const blob = await exportVersionsBundle(
+        examVersions,
+        examConfig.startNumber
+      )
+      const saved = await saveFile(blob, {
+        defaultPath: 'exam-versions.zip',
+        filterName: 'Zip archive',
+        extensions: ['zip'],
+      })
+      if (saved) toast.success('Exam versions exported')
+    } catch (error) {
+      console.error('Export error:', error)
+      toast.error('Failed to export exam versions')
+    }
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exam Versions</CardTitle>
+        <CardDescription>
+          Generate several shuffled exam codes at once
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Versions</Label>
+            <Input
+              type="number"
+              min={1}
+              max={50}
+              value={examConfig.versionCount}
+              onChange={e =>
+                setExamConfig({
+                  versionCount: Math.min(
+                    50,
+                    Math.max(1, parseInt(e.target.value) || 1)
+                  ),
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>First Code</Label>
+            <Input
+              type="number"
+              min={0}
+              value={examConfig.firstVersionCode}
+              onChange={e =>
+                setExamConfig({
+                  firstVersionCode: parseInt(e.target.value) || 0,
+                })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Seed</Label>
+          <Input
+            value={examConfig.seed}
+            onChange={e => setExamConfig({ seed: e.target.value })}
+            placeholder="Random each run"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            The same seed and questions always produce the same versions; a
+            version&apos;s own seed regenerates it
+          </p>
+        </div>
+
+        <Button onClick={handleGenerate} className="w-full gap-2">
+          <Layers className="h-4 w-4" />
+          Generate Versions
+        </Button>
+
+        {examVersions.length > 0 && (
+          <div className="space-y-2">
+            {runSeed && (
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                  Run seed: <span className="font-mono">{runSeed}</span>
+                </span>
+                {runSeed !== examConfig.seed && (
+                  <Button
+                    onClick={() => setExamConfig({ seed: runSeed })}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 gap-1 px-2 text-xs"
+                  >
+                    <Pin className="h-3 w-3" />
+                    Keep
+                  </Button>
+                )}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => onSelect(undefined)}
+                variant={selectedCode === undefined ? 'secondary' : 'ghost'}
+                size="sm"
+              >
+                Working copy
+              </Button>
+              {examVersions.map(version => (
+                <Button
+                  key={version.code}
+                  onClick={() => onSelect(version.code)}
+                  variant={
+                    selectedCode === version.code ? 'secondary' : 'ghost'
+                  }
+                  size="sm"
+                  className="font-mono"
+                  title={`Seed: ${version.seed} (reproduces this version as code ${version.code})`}
+                >
+                  {version.code}
+                </Button>
+              ))}
+            </div>
+            <Button
+              onClick={handleExportBundle}
+              variant="outline"
+              className="w-full gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Export Bundle
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
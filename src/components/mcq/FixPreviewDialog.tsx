@@ -0,0 +1,115 @@
+/**
+ * Fix Preview Dialog - Shows the import text changes of a quick fix as a
+ * line diff before they are applied
+ */
+
+import { useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { diffLines, type DiffLine } from '@/services/text-diff'
+import { cn } from '@/lib/utils'
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 2
+
+interface FixPreviewDialogProps {
+  /** Fix title (e.g., "Reletter answers of question 3"); closed when unset */
+  title?: string
+  before: string
+  after: string
+  onApply: () => void
+  onCancel: () => void
+}
+
+/**
+ * Keep changed lines and their context; longer unchanged runs become a gap (undefined)
+ */
+function collapseUnchanged(lines: DiffLine[]): (DiffLine | undefined)[] {
+  const changed = lines.map(line => line.type !== 'same')
+  const isNearChange = (index: number) =>
+    changed
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some(Boolean)
+
+  const result: (DiffLine | undefined)[] = []
+  lines.forEach((line, index) => {
+    if (isNearChange(index)) result.push(line)
+    else if (result.at(-1) !== undefined) result.push(undefined)
+  })
+  return result
+}
+
+export function FixPreviewDialog({
+  title,
+  before,
+  after,
+  onApply,
+  onCancel,
+}: FixPreviewDialogProps) {
+  const lines = useMemo(
+    () =>
+      title === undefined ? [] : collapseUnchanged(diffLines(before, after)),
+    [title, before, after]
+  )
+
+  return (
+    <Dialog
+      open={title !== undefined}
+      onOpenChange={open => !open && onCancel()}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Review the changes to the question text before applying them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-auto rounded-md border font-mono text-xs">
+          {lines.length === 0 && (
+            <p className="p-3 text-muted-foreground">No text changes</p>
+          )}
+          {lines.map((line, index) =>
+            line === undefined ? (
+              <div key={index} className="px-3 text-muted-foreground">
+                …
+              </div>
+            ) : (
+              <div
+                key={index}
+                className={cn(
+                  'px-3 whitespace-pre-wrap',
+                  line.type === 'added' &&
+                    'bg-green-500/15 text-green-700 dark:text-green-400',
+                  line.type === 'removed' &&
+                    'bg-destructive/10 text-destructive line-through'
+                )}
+              >
+                {line.type === 'added'
+                  ? '+ '
+                  : line.type === 'removed'
+                    ? '- '
+                    : '  '}
+                {line.text}
+              </div>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={onApply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
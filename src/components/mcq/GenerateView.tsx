@@ -2,7 +2,7 @@
  * Generate View - Exam generation screen with shuffle settings
  */
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -13,60 +13,135 @@ import {
 } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useMcqStore } from '@/store/mcq-store'
-import { shuffle } from '@/services/shuffle'
-import { generateExamOutput, generateAnswerKey } from '@/services/generator'
-import { Shuffle as ShuffleIcon, Copy, FileDown } from 'lucide-react'
+import { DEFAULT_QUESTION_POINTS, type ParsedRow } from '@/types/mcq'
+import {
+  getConfiguredShuffleModes,
+  shuffle,
+  type ShuffleMode,
+} from '@/services/shuffle'
+import {
+  generateExamOutput,
+  generateExamHtml,
+  generateAnswerKey,
+  formatPoints,
+  summarizePoints,
+} from '@/services/generator'
+import { buildAnswerKeyMatrix } from '@/services/versions'
+import { buildExamDocx } from '@/services/docx-export'
+import { buildExamPdf } from '@/services/pdf-export'
+import { saveFile } from '@/lib/save-file'
+import { ExamVersionsCard } from './ExamVersionsCard'
+import { AnswerKeyMatrixTable } from './AnswerKeyMatrixTable'
+import { QuestionMappingPanel } from './QuestionMappingPanel'
+import {
+  Shuffle as ShuffleIcon,
+  Copy,
+  FileDown,
+  FileText,
+  FileType,
+  Play,
+} from 'lucide-react'
 import { toast } from 'sonner'
 
+const SHUFFLE_MODE_LABELS: Record<ShuffleMode, string> = {
+  sections: 'Sections',
+  questions: 'Questions',
+  answers: 'Answers',
+}
+
 export function GenerateView() {
   const parsedRows = useMcqStore(state => state.parsedRows)
   const examConfig = useMcqStore(state => state.examConfig)
+  const examVersions = useMcqStore(state => state.examVersions)
+  const generatedRows = useMcqStore(state => state.generatedRows)
+  const generatedSeed = useMcqStore(state => state.generatedSeed)
+
+  // Version selection only applies to the working copy it was made for,
+  // so a new shuffle or generate run shows the working copy again
+  const [selection, setSelection] = useState<{
+    code: string
+    baseRows: ParsedRow[]
+  }>()
+  const selectedCode =
+    selection?.baseRows === generatedRows ? selection.code : undefined
+
+  // Preview either the selected version or the working copy
+  const selectedVersion = examVersions.find(
+    version => version.code === selectedCode
+  )
+  const activeRows = selectedVersion?.rows ?? generatedRows
+  const configuredModes = getConfiguredShuffleModes(examConfig)
+  const keyMatrix = useMemo(
+    () => buildAnswerKeyMatrix(examVersions),
+    [examVersions]
+  )
+
+  // Derive preview from rows and config
+  const previewOutput = useMemo(
+    () => generateExamOutput(activeRows, examConfig),
+    [activeRows, examConfig]
+  )
+  const previewHtml = useMemo(
+    () => generateExamHtml(activeRows, examConfig, { lockBadges: true }),
+    [activeRows, examConfig]
+  )
+  const pointsSummary = useMemo(() => summarizePoints(activeRows), [activeRows])
+  const previewKey = useMemo(
+    () => generateAnswerKey(activeRows, examConfig.startNumber),
+    [activeRows, examConfig.startNumber]
+  )
+
+  const handleSelectVersion = useCallback((code: string | undefined) => {
+    setSelection(
+      code === undefined
+        ? undefined
+        : { code, baseRows: useMcqStore.getState().generatedRows }
+    )
+  }, [])
 
-  const [shuffledRows, setShuffledRows] = useState(parsedRows)
-  const [previewOutput, setPreviewOutput] = useState('')
-  const [previewHtml, setPreviewHtml] = useState('')
-  const [previewKey, setPreviewKey] = useState<string[]>([])
-
-  // Update preview when rows or config changes
-  useEffect(() => {
-    if (shuffledRows.length > 0) {
-      const output = generateExamOutput(shuffledRows, examConfig)
-      const html = generateExamHtml(shuffledRows, examConfig)
-      const key = generateAnswerKey(shuffledRows, examConfig.startNumber)
-      setPreviewOutput(output)
-      setPreviewHtml(html)
-      setPreviewKey(key)
+  const handleGenerate = useCallback(() => {
+    const { examConfig, generateFromConfig } = useMcqStore.getState()
+
+    if (getConfiguredShuffleModes(examConfig).length === 0) {
+      toast.warning('No shuffle steps enabled in Settings')
+      return
     }
-  }, [shuffledRows, examConfig])
 
-  // Initialize with parsed rows
-  useEffect(() => {
-    setShuffledRows(parsedRows)
-  }, [parsedRows])
+    const seed = generateFromConfig()
+    toast.success(`Exam generated (seed ${seed})`)
+  }, [])
 
   const handleShuffleSections = useCallback(() => {
-    const result = shuffle(shuffledRows, 'sections')
-    setShuffledRows(result)
+    const { generatedRows, setGeneratedRows } = useMcqStore.getState()
+    setGeneratedRows(shuffle(generatedRows, 'sections'), 'Shuffled sections')
     toast.success('Sections shuffled')
-  }, [shuffledRows])
+  }, [])
 
   const handleShuffleQuestions = useCallback(() => {
-    const result = shuffle(shuffledRows, 'questions')
-    setShuffledRows(result)
+    const { generatedRows, setGeneratedRows, examConfig } =
+      useMcqStore.getState()
+    setGeneratedRows(
+      shuffle(generatedRows, 'questions', undefined, {
+        shuffleGroupQuestions: examConfig.shuffleGroupQuestions,
+      }),
+      'Shuffled questions'
+    )
     toast.success('Questions shuffled')
-  }, [shuffledRows])
+  }, [])
 
   const handleShuffleAnswers = useCallback(() => {
-    const result = shuffle(shuffledRows, 'answers')
-    setShuffledRows(result)
+    const { generatedRows, setGeneratedRows } = useMcqStore.getState()
+    setGeneratedRows(shuffle(generatedRows, 'answers'), 'Shuffled answers')
     toast.success('Answers shuffled')
-  }, [shuffledRows])
+  }, [])
 
   const handleCopyExam = useCallback(async () => {
     try {
-      const htmlOutput = generateExamHtml(shuffledRows, examConfig)
+      const htmlOutput = generateExamHtml(activeRows, examConfig)
       const textOutput = previewOutput
 
       const textBlob = new Blob([textOutput], { type: 'text/plain' })
@@ -83,7 +158,45 @@ export function GenerateView() {
       console.error(err)
       toast.error('Failed to copy to clipboard')
     }
-  }, [previewOutput, shuffledRows, examConfig])
+  }, [previewOutput, activeRows, examConfig])
+
+  const handleExportDocx = useCallback(async () => {
+    try {
+      const blob = await buildExamDocx(activeRows, examConfig, {
+        examCode: selectedVersion?.code,
+      })
+      const saved = await saveFile(blob, {
+        defaultPath: selectedVersion
+          ? `exam-${selectedVersion.code}.docx`
+          : 'exam.docx',
+        filterName: 'Word document',
+        extensions: ['docx'],
+      })
+      if (saved) toast.success('Exam exported as DOCX')
+    } catch (error) {
+      console.error('DOCX export error:', error)
+      toast.error('Failed to export DOCX')
+    }
+  }, [activeRows, examConfig, selectedVersion])
+
+  const handleExportPdf = useCallback(async () => {
+    try {
+      const blob = await buildExamPdf(activeRows, examConfig, {
+        examCode: selectedVersion?.code,
+      })
+      const saved = await saveFile(blob, {
+        defaultPath: selectedVersion
+          ? `exam-${selectedVersion.code}.pdf`
+          : 'exam.pdf',
+        filterName: 'PDF',
+        extensions: ['pdf'],
+      })
+      if (saved) toast.success('Exam exported as PDF')
+    } catch (error) {
+      console.error('PDF export error:', error)
+      toast.error('Failed to export PDF')
+    }
+  }, [activeRows, examConfig, selectedVersion])
 
   const handleCopyAnswerKey = useCallback(async () => {
     try {
@@ -99,12 +212,12 @@ export function GenerateView() {
       useMcqStore.getState()
 
     // Update parsedRows with shuffled data so AnswerSheetView reflects the correct order
-    setParsedRows(shuffledRows)
+    setParsedRows(activeRows, 'Prepared answer sheet')
     setExamOutput(previewOutput)
     setAnswerKey(previewKey)
     setCurrentView('answer-sheet')
     toast.success('Ready to generate answer sheet')
-  }, [previewOutput, previewKey, shuffledRows])
+  }, [previewOutput, previewKey, activeRows])
 
   if (parsedRows.length === 0) {
     return (
@@ -123,6 +236,37 @@ export function GenerateView() {
     )
   }
 
+  const previewContent = (
+    <>
+      <ScrollArea className="flex-1 rounded-md border p-4 overflow-y-auto">
+        <div
+          className="font-mono text-sm"
+          dangerouslySetInnerHTML={{ __html: previewHtml }}
+        />
+      </ScrollArea>
+
+      {previewKey.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Answer Key</Label>
+            <Button
+              onClick={handleCopyAnswerKey}
+              variant="ghost"
+              size="sm"
+              className="gap-2"
+            >
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="font-mono text-sm">{previewKey.join('   ')}</p>
+          </div>
+        </div>
+      )}
+    </>
+  )
+
   return (
     <div className="flex h-full flex-col gap-4 p-6">
       <div className="flex items-center justify-between">
@@ -136,70 +280,148 @@ export function GenerateView() {
 
       <div className="grid flex-1 grid-cols-1 lg:grid-cols-3 gap-4 overflow-hidden">
         {/* Left Panel: Shuffle Settings */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Shuffle Options</CardTitle>
-            <CardDescription>
-              Configure how to shuffle your exam
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <div className="space-y-2">
-              <div className="space-y-1">
-                <Label>Shuffle Sections</Label>
+        <div className="flex flex-col gap-4 overflow-y-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>Generate</CardTitle>
+              <CardDescription>
+                Apply the shuffle steps configured in Settings
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm">
+                {configuredModes.length > 0
+                  ? configuredModes
+                      .map(mode => SHUFFLE_MODE_LABELS[mode])
+                      .join(' → ')
+                  : 'No shuffle steps enabled'}
+              </p>
+              <Button onClick={handleGenerate} className="w-full gap-2">
+                <Play className="h-4 w-4" />
+                Generate
+              </Button>
+              {generatedSeed && (
                 <p className="text-xs text-muted-foreground">
-                  Randomize section order
+                  Seed: <span className="font-mono">{generatedSeed}</span>
                 </p>
-              </div>
-              <Button
-                onClick={handleShuffleSections}
-                variant="outline"
-                className="w-full gap-2"
-              >
-                <ShuffleIcon className="h-4 w-4" />
-                Shuffle Sections
-              </Button>
-            </div>
-
-            <Separator />
+              )}
+            </CardContent>
+          </Card>
 
-            <div className="space-y-2">
-              <div className="space-y-1">
-                <Label>Shuffle Questions</Label>
+          <Card>
+            <CardHeader>
+              <CardTitle>Points</CardTitle>
+              <CardDescription>
+                {formatPoints(pointsSummary.total)} points ·{' '}
+                {pointsSummary.questionCount} questions
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {pointsSummary.sections.length > 1 && (
+                <div className="space-y-1 text-sm">
+                  {pointsSummary.sections.map((section, index) => (
+                    <div key={index} className="flex justify-between gap-2">
+                      <span className="truncate">
+                        {section.title || 'Untitled'}
+                      </span>
+                      <span className="shrink-0 font-mono">
+                        {formatPoints(section.points)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {pointsSummary.defaultedCount > 0 && (
                 <p className="text-xs text-muted-foreground">
-                  Randomize question order within sections
+                  {pointsSummary.defaultedCount} question(s) without a point
+                  value count as {DEFAULT_QUESTION_POINTS}
                 </p>
+              )}
+              <div className="flex items-center justify-between">
+                <Label htmlFor="show-points">Print points</Label>
+                <Switch
+                  id="show-points"
+                  checked={examConfig.showPoints}
+                  onCheckedChange={checked =>
+                    useMcqStore
+                      .getState()
+                      .setExamConfig({ showPoints: checked })
+                  }
+                />
               </div>
-              <Button
-                onClick={handleShuffleQuestions}
-                variant="outline"
-                className="w-full gap-2"
-              >
-                <ShuffleIcon className="h-4 w-4" />
-                Shuffle Questions
-              </Button>
-            </div>
+            </CardContent>
+          </Card>
 
-            <Separator />
+          <Card>
+            <CardHeader>
+              <CardTitle>Shuffle Options</CardTitle>
+              <CardDescription>
+                Configure how to shuffle your exam
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label>Shuffle Sections</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Randomize section order
+                  </p>
+                </div>
+                <Button
+                  onClick={handleShuffleSections}
+                  variant="outline"
+                  className="w-full gap-2"
+                >
+                  <ShuffleIcon className="h-4 w-4" />
+                  Shuffle Sections
+                </Button>
+              </div>
 
-            <div className="space-y-2">
-              <div className="space-y-1">
-                <Label>Shuffle Answers</Label>
-                <p className="text-xs text-muted-foreground">
-                  Randomize answer order (auto-reletter)
-                </p>
+              <Separator />
+
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label>Shuffle Questions</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Randomize question order within sections
+                  </p>
+                </div>
+                <Button
+                  onClick={handleShuffleQuestions}
+                  variant="outline"
+                  className="w-full gap-2"
+                >
+                  <ShuffleIcon className="h-4 w-4" />
+                  Shuffle Questions
+                </Button>
               </div>
-              <Button
-                onClick={handleShuffleAnswers}
-                variant="outline"
-                className="w-full gap-2"
-              >
-                <ShuffleIcon className="h-4 w-4" />
-                Shuffle Answers
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label>Shuffle Answers</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Randomize answer order (auto-reletter)
+                  </p>
+                </div>
+                <Button
+                  onClick={handleShuffleAnswers}
+                  variant="outline"
+                  className="w-full gap-2"
+                >
+                  <ShuffleIcon className="h-4 w-4" />
+                  Shuffle Answers
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <ExamVersionsCard
+            selectedCode={selectedCode}
+            onSelect={handleSelectVersion}
+          />
+        </div>
 
         {/* Middle Panel: Exam Preview */}
         <Card className="col-span-2 flex flex-col h-full overflow-hidden">
@@ -207,7 +429,11 @@ export function GenerateView() {
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle>Exam Preview</CardTitle>
-                <CardDescription>Preview your generated exam</CardDescription>
+                <CardDescription>
+                  {selectedVersion
+                    ? `Exam code ${selectedVersion.code} · seed ${selectedVersion.seed}`
+                    : 'Preview your generated exam'}
+                </CardDescription>
               </div>
               <div className="flex gap-2">
                 <Button
@@ -219,6 +445,24 @@ export function GenerateView() {
                   <Copy className="h-4 w-4" />
                   Copy Exam
                 </Button>
+                <Button
+                  onClick={handleExportDocx}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                >
+                  <FileText className="h-4 w-4" />
+                  DOCX
+                </Button>
+                <Button
+                  onClick={handleExportPdf}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                >
+                  <FileType className="h-4 w-4" />
+                  PDF
+                </Button>
                 <Button
                   onClick={handleGenerateAnswerSheet}
                   size="sm"
@@ -231,63 +475,44 @@ export function GenerateView() {
             </div>
           </CardHeader>
           <CardContent className="flex flex-1 flex-col gap-4 overflow-hidden min-h-0">
-            <ScrollArea className="flex-1 rounded-md border p-4 overflow-y-auto">
-              <div
-                className="font-mono text-sm"
-                dangerouslySetInnerHTML={{ __html: previewHtml }}
-              />
-            </ScrollArea>
-
-            {previewKey.length > 0 && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label>Answer Key</Label>
-                  <Button
-                    onClick={handleCopyAnswerKey}
-                    variant="ghost"
-                    size="sm"
-                    className="gap-2"
-                  >
-                    <Copy className="h-4 w-4" />
-                    Copy
-                  </Button>
-                </div>
-                <div className="rounded-md border p-3">
-                  <p className="font-mono text-sm">{previewKey.join('   ')}</p>
-                </div>
-              </div>
-            )}
+            <Tabs
+              defaultValue="exam"
+              className="flex flex-1 flex-col gap-4 overflow-hidden min-h-0"
+            >
+              <TabsList className="w-fit">
+                <TabsTrigger value="exam">Exam</TabsTrigger>
+                <TabsTrigger value="mapping">Mapping</TabsTrigger>
+                {examVersions.length > 0 && (
+                  <TabsTrigger value="matrix">Key Matrix</TabsTrigger>
+                )}
+              </TabsList>
+              <TabsContent
+                value="exam"
+                className="mt-0 flex flex-1 flex-col gap-4 overflow-hidden min-h-0"
+              >
+                {previewContent}
+              </TabsContent>
+              <TabsContent
+                value="mapping"
+                className="mt-0 flex flex-1 flex-col overflow-hidden min-h-0"
+              >
+                <QuestionMappingPanel
+                  rows={activeRows}
+                  startNumber={examConfig.startNumber}
+                />
+              </TabsContent>
+              {examVersions.length > 0 && (
+                <TabsContent
+                  value="matrix"
+                  className="mt-0 flex-1 overflow-auto rounded-md border"
+                >
+                  <AnswerKeyMatrixTable matrix={keyMatrix} />
+                </TabsContent>
+              )}
+            </Tabs>
           </CardContent>
         </Card>
       </div>
     </div>
   )
 }
-
-function generateExamHtml(rows: any[], config: any): string {
-  let output = ''
-  let currentQuestionNum = config.startNumber
-
-  for (const row of rows) {
-    if (row.type === 'section') {
-      output += `<b>${row.text}</b><br><br>`
-    } else if (row.type === 'question') {
-      const prefix = config.format.questionPrefix[0] ?? ''
-      const postfix = config.format.questionPostfix[0] ?? ') '
-      output += `<b>${prefix}${currentQuestionNum}${postfix}${row.text}</b><br>`
-      currentQuestionNum++
-    } else if (row.type === 'answer') {
-      const letter = config.format.answerLowercase
-        ? row.label.toLowerCase()
-        : row.label
-      const prefix = config.format.answerPrefix[0] ?? ''
-      const postfix = config.format.answerPostfix[0] ?? ') '
-      // Use non-breaking spaces for indentation
-      output += `&nbsp;&nbsp;&nbsp;${prefix}${letter}${postfix}${row.text}<br>`
-    } else if (row.type === 'empty') {
-      output += '<br>'
-    }
-  }
-
-  return output
-}
@@ -0,0 +1,432 @@
+/**
+ * Grade View - Collect student responses and score them
+ * Responses come from scanned student sheets (PNG, JPEG or PDF, read offline)
+ * or from CSV exports of other scanners and online forms. Each response is
+ * scored with the key of its exam code and the rules in Settings → Scoring.
+ * Unclear marks are listed for manual review.
+ */
+
+import { useCallback, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useMcqStore } from '@/store/mcq-store'
+import { formatPoints } from '@/services/generator'
+import { buildOmrLayout, getExamOmrOptions } from '@/services/omr-layout'
+import { readOmrSheet } from '@/services/omr-reader'
+import { readScanPages } from '@/services/scan-images'
+import {
+  getExamAnswerKeys,
+  getKeylessQuestions,
+  gradedResponsesToCsv,
+  gradeResponse,
+  type GradedResponse,
+  type QuestionOutcome,
+} from '@/services/grading'
+import { parseResponsesCsv } from '@/services/response-import'
+import { openFile, openFiles } from '@/lib/open-file'
+import { saveFile } from '@/lib/save-file'
+import { cn } from '@/lib/utils'
+import type { StudentResponse } from '@/types/mcq'
+import { Download, FileSpreadsheet, ScanLine, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const OUTCOME_STYLES: Record<QuestionOutcome, string> = {
+  correct:
+    'border-green-600/40 bg-green-500/10 text-green-700 dark:text-green-400',
+  partial: 'border-blue-600/40 bg-blue-500/10 text-blue-700',
+  wrong: 'border-destructive/40 bg-destructive/10 text-destructive',
+  blank: 'text-muted-foreground',
+  review: 'border-yellow-600/40 bg-yellow-500/10 text-yellow-700',
+  'no-key': 'border-dashed text-muted-foreground',
+}
+
+/**
+ * Whether a graded response needs a human look
+ */
+function needsReview(result: GradedResponse): boolean {
+  return (
+    result.response.error !== undefined ||
+    result.code === undefined ||
+    result.response.flags.length > 0
+  )
+}
+
+function ResultStatus({ result }: { result: GradedResponse }) {
+  const { response } = result
+  if (response.error) {
+    return <span className="text-destructive">Unreadable</span>
+  }
+  if (result.code === undefined) {
+    return <span className="text-destructive">No key for exam code</span>
+  }
+  if (response.flags.length > 0) {
+    return (
+      <span className="text-yellow-700">Review ({response.flags.length})</span>
+    )
+  }
+  return <span className="text-muted-foreground">OK</span>
+}
+
+export function GradeView() {
+  const parsedRows = useMcqStore(state => state.parsedRows)
+  const generatedRows = useMcqStore(state => state.generatedRows)
+  const examVersions = useMcqStore(state => state.examVersions)
+  const examConfig = useMcqStore(state => state.examConfig)
+  const studentResponses = useMcqStore(state => state.studentResponses)
+  const setCurrentView = useMcqStore(state => state.setCurrentView)
+  const [selectedId, setSelectedId] = useState<number>()
+  const [progress, setProgress] = useState<string>()
+
+  // Regraded whenever the keys or scoring rules change
+  const results = useMemo(() => {
+    const keys = getExamAnswerKeys(
+      examVersions,
+      generatedRows.length > 0 ? generatedRows : parsedRows,
+      examConfig.startNumber
+    )
+    return studentResponses.map(response =>
+      gradeResponse(response, keys, examConfig.scoring)
+    )
+  }, [
+    studentResponses,
+    examVersions,
+    generatedRows,
+    parsedRows,
+    examConfig.startNumber,
+    examConfig.scoring,
+  ])
+
+  const selected = useMemo(
+    () => results.find(result => result.response.id === selectedId),
+    [results, selectedId]
+  )
+
+  const handleAddScans = useCallback(async () => {
+    try {
+      const files = await openFiles({
+        filterName: 'Scanned sheets',
+        extensions: ['png', 'jpg', 'jpeg', 'pdf'],
+      })
+      if (files.length === 0) return
+
+      const { parsedRows, examConfig, addStudentResponses } =
+        useMcqStore.getState()
+      const layout = buildOmrLayout(getExamOmrOptions(parsedRows, examConfig))
+      let read = 0
+
+      for (const file of files) {
+        setProgress(`Reading ${file.name}…`)
+        const pages = await readScanPages(file.name, file.data).catch(
+          (error: unknown) => {
+            console.error('Scan read error:', error)
+            addStudentResponses([
+              {
+                source: file.name,
+                studentId: '',
+                examCode: '',
+                answers: [],
+                flags: [],
+                error: error instanceof Error ? error.message : 'Unknown error',
+              },
+            ])
+            return []
+          }
+        )
+
+        for (const page of pages) {
+          // Let the table update between pages
+          await new Promise(resolve => setTimeout(resolve, 0))
+          const response: Omit<StudentResponse, 'id'> = {
+            source: page.name,
+            studentId: '',
+            examCode: '',
+            answers: [],
+            flags: [],
+          }
+          try {
+            const sheet = readOmrSheet(page.image, layout)
+            response.studentId = sheet.studentId
+            response.examCode = sheet.examCode
+            response.answers = sheet.answers.map(answer => ({
+              questionNumber: answer.number,
+              marked: answer.marked,
+              unclear: answer.unclear,
+            }))
+            response.flags = sheet.flags.map(flag => flag.message)
+            read++
+          } catch (error) {
+            response.error =
+              error instanceof Error ? error.message : 'Unknown error'
+          }
+          addStudentResponses([response])
+        }
+      }
+
+      toast.success(`Read ${read} ${read === 1 ? 'sheet' : 'sheets'}`)
+    } catch (error) {
+      console.error('Grading error:', error)
+      toast.error(
+        `Grading error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    } finally {
+      setProgress(undefined)
+    }
+  }, [])
+
+  const handleImportCsv = useCallback(async () => {
+    try {
+      const file = await openFile({
+        filterName: 'CSV responses',
+        extensions: ['csv', 'txt'],
+      })
+      if (!file) return
+
+      const { examConfig, addStudentResponses } = useMcqStore.getState()
+      const responses = parseResponsesCsv(
+        new TextDecoder().decode(file.data),
+        file.name,
+        examConfig.startNumber
+      )
+      addStudentResponses(responses)
+      toast.success(`Imported ${responses.length} responses from ${file.name}`)
+    } catch (error) {
+      console.error('CSV import error:', error)
+      toast.error(
+        `CSV import error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }, [])
+
+  const handleExportResults = useCallback(async () => {
+    try {
+      // BOM so spreadsheet apps read the CSV as UTF-8
+      const blob = new Blob(['\uFEFF' + gradedResponsesToCsv(results)], {
+        type: 'text/csv',
+      })
+      const saved = await saveFile(blob, {
+        defaultPath: 'results.csv',
+        filterName: 'CSV',
+        extensions: ['csv'],
+      })
+      if (saved) toast.success('Results exported')
+    } catch (error) {
+      console.error('Results export error:', error)
+      toast.error('Failed to export results')
+    }
+  }, [results])
+
+  const handleClear = useCallback(() => {
+    useMcqStore.getState().clearStudentResponses()
+    setSelectedId(undefined)
+  }, [])
+
+  if (parsedRows.length === 0) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground">No questions imported yet</p>
+          <Button
+            onClick={() => setCurrentView('import')}
+            variant="outline"
+            className="mt-4"
+          >
+            Go to Import
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const reviewCount = results.filter(needsReview).length
+  const keylessQuestions = [
+    ...new Set(results.flatMap(getKeylessQuestions)),
+  ].sort((a, b) => a - b)
+
+  return (
+    <div className="flex h-full flex-col gap-4 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Grade</h2>
+          <p className="text-sm text-muted-foreground">
+            Score scanned sheets and imported responses against{' '}
+            {examVersions.length > 0
+              ? `the keys of ${examVersions.length} exam versions`
+              : 'the answer key of the current exam'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {results.length > 0 && (
+            <>
+              <Button
+                onClick={handleClear}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear
+              </Button>
+              <Button
+                onClick={handleExportResults}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Export Results
+              </Button>
+            </>
+          )}
+          <Button
+            onClick={handleImportCsv}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            Import CSV
+          </Button>
+          <Button
+            onClick={handleAddScans}
+            disabled={progress !== undefined}
+            size="sm"
+            className="gap-2"
+          >
+            <ScanLine className="h-4 w-4" />
+            {progress ?? 'Add Scans'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid flex-1 grid-cols-1 gap-4 overflow-hidden lg:grid-cols-3">
+        <Card className="flex flex-col overflow-hidden lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Responses</CardTitle>
+            <CardDescription>
+              {results.length} responses, {reviewCount} need review
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex-1 space-y-4 overflow-auto">
+            {keylessQuestions.length > 0 && (
+              <p className="text-sm text-yellow-700">
+                Not scored, no correct answer in the key:{' '}
+                {keylessQuestions.length === 1 ? 'question' : 'questions'}{' '}
+                {keylessQuestions.join(', ')}
+              </p>
+            )}
+            {results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Add PNG, JPEG or PDF scans of the printed student sheets (Answer
+                Sheet → Student sheet), or import responses from a CSV file with
+                a student ID, exam code and one column per question
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Student ID</TableHead>
+                    <TableHead>Exam code</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow
+                      key={result.response.id}
+                      onClick={() => setSelectedId(result.response.id)}
+                      data-state={
+                        result.response.id === selectedId
+                          ? 'selected'
+                          : undefined
+                      }
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="max-w-48 truncate">
+                        {result.response.source}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {result.response.studentId || '—'}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {result.response.examCode || '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {result.code !== undefined
+                          ? `${formatPoints(result.score)} / ${formatPoints(result.maxScore)}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <ResultStatus result={result} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="flex flex-col overflow-hidden">
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+            <CardDescription>
+              {selected?.response.source ??
+                'Select a response to see its answers'}
+            </CardDescription>
+          </CardHeader>
+          {selected && (
+            <CardContent className="flex-1 space-y-4 overflow-auto">
+              {selected.response.error && (
+                <p className="text-sm text-destructive">
+                  {selected.response.error}
+                </p>
+              )}
+
+              {selected.response.flags.length > 0 && (
+                <ul className="space-y-1 text-sm text-yellow-700">
+                  {selected.response.flags.map((flag, index) => (
+                    <li key={index}>{flag}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-3 gap-1 font-mono text-xs">
+                {selected.questions.map(question => (
+                  <div
+                    key={question.questionNumber}
+                    className={cn(
+                      'rounded border px-1.5 py-0.5',
+                      OUTCOME_STYLES[question.outcome]
+                    )}
+                    title={`Key: ${question.correctAnswers.join(', ') || '—'} · ${formatPoints(question.earned)} of ${formatPoints(question.points)} points`}
+                  >
+                    {question.questionNumber}. {question.marked.join('') || '—'}
+                    {(question.outcome === 'wrong' ||
+                      question.outcome === 'partial') &&
+                      ` (${question.correctAnswers.join('')})`}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
  * Allows pasting/importing questions and answer keys with format settings
  */
 
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
@@ -16,29 +16,48 @@ import {
   CardTitle,
 } from '@/components/ui/card'
 import { Collapsible, CollapsibleContent } from '@/components/ui/collapsible'
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table'
-import { Checkbox } from '@/components/ui/checkbox'
-import { Alert, AlertDescription } from '@/components/ui/alert'
 import { useMcqStore } from '@/store/mcq-store'
 import { parseMcq, parseAnswerKey, applyAnswerKey } from '@/services/parser'
-import { validateParsedMcq } from '@/services/validator'
-import { Settings } from 'lucide-react'
+import {
+  validateParsedMcq,
+  type Diagnostic,
+  type QuickFix,
+} from '@/services/validator'
+import { applyQuickFix, applySafeFixes } from '@/services/quick-fixes'
+import { lintRows } from '@/services/lint'
+import { attachImportedMedia, importDocx } from '@/services/docx-import'
+import { openFile } from '@/lib/open-file'
+import { clampMaxOptions } from '@/services/answer-letters'
+import { serializeRowsWithLines } from '@/services/row-editing'
+import { carryOverLocks } from '@/services/locks'
+import type { ParsedRow } from '@/types/mcq'
+import { ParsedRowsTable } from './ParsedRowsTable'
+import { ProblemsPanel } from './ProblemsPanel'
+import { FixPreviewDialog } from './FixPreviewDialog'
+import { FileUp, Settings } from 'lucide-react'
 import { toast } from 'sonner'
 
+/**
+ * Write edited rows back into the input text: unchanged questions keep their
+ * lines, edited ones are written with the configured labels
+ */
+function serializeEditedRows(rows: ParsedRow[]) {
+  const { formatSettings, importAttachments, importInput, parsedRows } =
+    useMcqStore.getState()
+  return serializeRowsWithLines(rows, importAttachments, {
+    formatSettings,
+    base: { text: importInput, rows: parsedRows },
+  })
+}
+
 export function ImportView() {
   const formatSettings = useMcqStore(state => state.formatSettings)
+  const lintSettings = useMcqStore(state => state.examConfig.lint)
   const setFormatSettings = useMcqStore(state => state.setFormatSettings)
   
   // Use store state instead of local state for persistence
   const input = useMcqStore(state => state.importInput)
-  const setInput = useMcqStore(state => state.setImportInput)
+  const setInput = useMcqStore(state => state.editImportInput)
   const answerKeyInput = useMcqStore(state => state.importAnswerKeyInput)
   const setAnswerKeyInput = useMcqStore(state => state.setImportAnswerKeyInput)
   const parsedRows = useMcqStore(state => state.parsedRows)
@@ -46,9 +65,40 @@ export function ImportView() {
   const setCurrentView = useMcqStore(state => state.setCurrentView)
 
   const [showSettings, setShowSettings] = useState(false)
+  const [selectedRowId, setSelectedRowId] = useState<number>()
+  // Fix waiting for confirmation in the preview dialog
+  const [pendingFix, setPendingFix] = useState<{
+    label: string
+    rows: ParsedRow[]
+    text: string
+  }>()
+  const inputRef = useRef<HTMLTextAreaElement>(null)
 
-  // Derived validation state
-  const validationResult = useMemo(() => validateParsedMcq(parsedRows), [parsedRows])
+  // Derived validation state (re-run on every table edit)
+  const validationResult = useMemo(
+    () => validateParsedMcq(parsedRows, formatSettings.maxOptions),
+    [parsedRows, formatSettings.maxOptions]
+  )
+  // Content lint runs once the structure is valid
+  const diagnostics = useMemo(
+    () =>
+      validationResult.isValid
+        ? lintRows(validationResult.validatedRows, lintSettings)
+        : validationResult.diagnostics,
+    [validationResult, lintSettings]
+  )
+  const hasBlockingProblems =
+    !validationResult.isValid || diagnostics.some(d => d.severity === 'error')
+  const errorRowIds = useMemo(
+    () =>
+      new Set([
+        ...validationResult.validatedRows
+          .filter(row => row.type === 'error')
+          .map(row => row.id),
+        ...diagnostics.filter(d => d.severity === 'error').map(d => d.rowId),
+      ]),
+    [validationResult, diagnostics]
+  )
 
   // Handle parse questions
   const handleParse = useCallback(() => {
@@ -58,17 +108,22 @@ export function ImportView() {
     }
 
     try {
-      const parsed = parseMcq(input, formatSettings)
-      const validation = validateParsedMcq(parsed)
+      const { importAttachments, parsedRows } = useMcqStore.getState()
+      // Locks are not written in the text; keep those of unchanged rows
+      const parsed = carryOverLocks(
+        parsedRows,
+        attachImportedMedia(parseMcq(input, formatSettings), importAttachments)
+      )
+      const validation = validateParsedMcq(parsed, formatSettings.maxOptions)
 
-      setParsedRows(validation.validatedRows)
+      setParsedRows(validation.validatedRows, 'Parsed questions')
 
       if (validation.isValid) {
         toast.success(
           `Parsed ${parsed.filter(r => r.type === 'question').length} questions`
         )
       } else {
-        toast.warning('Parsed with errors - please review the table')
+        toast.warning('Parsed with errors - see the Problems panel')
       }
     } catch (error) {
       toast.error(
@@ -77,6 +132,30 @@ export function ImportView() {
     }
   }, [input, formatSettings, setParsedRows])
 
+  // Handle .docx import (fills the textarea, keys taken from emphasis)
+  const handleImportDocx = useCallback(async () => {
+    try {
+      const file = await openFile({
+        filterName: 'Word document',
+        extensions: ['docx'],
+      })
+      if (!file) return
+
+      const { formatSettings, setImportInput, setImportAttachments } =
+        useMcqStore.getState()
+      const result = await importDocx(file.data, formatSettings)
+
+      setImportInput(result.text)
+      setImportAttachments(result.attachments)
+      toast.success(`Imported ${file.name} - click Parse Questions to review`)
+    } catch (error) {
+      console.error('DOCX import error:', error)
+      toast.error(
+        `DOCX import error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }, [])
+
   // Handle parse answer key
   const handleParseAnswerKey = useCallback(() => {
     if (!answerKeyInput.trim()) {
@@ -90,17 +169,20 @@ export function ImportView() {
     }
 
     try {
-      const answerKeyMap = parseAnswerKey(answerKeyInput)
-      const updatedRows = applyAnswerKey([...parsedRows], answerKeyMap)
+      const answerKeyMap = parseAnswerKey(
+        answerKeyInput,
+        formatSettings.maxOptions
+      )
+      const updatedRows = applyAnswerKey(parsedRows, answerKeyMap)
 
-      setParsedRows(updatedRows)
+      setParsedRows(updatedRows, 'Applied answer key')
       toast.success(`Applied answer key for ${answerKeyMap.size} questions`)
     } catch (error) {
       toast.error(
         `Answer key parse error: ${error instanceof Error ? error.message : 'Unknown error'}`
       )
     }
-  }, [answerKeyInput, parsedRows, setParsedRows])
+  }, [answerKeyInput, formatSettings.maxOptions, parsedRows, setParsedRows])
 
   // Handle accept and move to generate
   const handleAccept = useCallback(() => {
@@ -109,22 +191,74 @@ export function ImportView() {
       return
     }
 
-    if (!validationResult?.isValid) {
+    if (hasBlockingProblems) {
       toast.error('Please fix errors before continuing')
       return
     }
 
     setCurrentView('generate')
     toast.success('Questions imported successfully')
-  }, [parsedRows, validationResult, setCurrentView])
+  }, [parsedRows, hasBlockingProblems, setCurrentView])
+
+  // Apply a table edit and write the rows back to the input text
+  const handleRowsChange = useCallback((rows: ParsedRow[], label: string) => {
+    const { setParsedRows, setImportInput } = useMcqStore.getState()
+    const serialized = serializeEditedRows(rows)
+    setParsedRows(serialized.rows, label)
+    setImportInput(serialized.text)
+  }, [])
+
+  // Preview fixed rows as a diff of the input text (only the fixed lines change)
+  const previewFix = useCallback((label: string, rows: ParsedRow[]) => {
+    const serialized = serializeEditedRows(rows)
+    setPendingFix({ label, rows: serialized.rows, text: serialized.text })
+  }, [])
+
+  const handleFix = useCallback(
+    (diagnostic: Diagnostic, fix: QuickFix) => {
+      const { parsedRows } = useMcqStore.getState()
+      previewFix(fix.label, applyQuickFix(parsedRows, diagnostic, fix.id))
+    },
+    [previewFix]
+  )
+
+  const handleFixAll = useCallback(() => {
+    const { rows, count } = applySafeFixes(
+      useMcqStore.getState().parsedRows,
+      diagnostics
+    )
+    previewFix(`Fixed ${count} ${count === 1 ? 'issue' : 'issues'}`, rows)
+  }, [diagnostics, previewFix])
+
+  const handleApplyFix = useCallback(() => {
+    if (!pendingFix) return
+    const { setParsedRows, setImportInput } = useMcqStore.getState()
+    setParsedRows(pendingFix.rows, pendingFix.label)
+    setImportInput(pendingFix.text)
+    setPendingFix(undefined)
+    toast.success(pendingFix.label)
+  }, [pendingFix])
+
+  // Jump to a problem: highlight its row and select its line in the input
+  const handleSelectDiagnostic = useCallback((diagnostic: Diagnostic) => {
+    setSelectedRowId(diagnostic.rowId)
+
+    const textarea = inputRef.current
+    if (!textarea || diagnostic.line === undefined) return
+    const lines = textarea.value.split('\n')
+    const start = lines
+      .slice(0, diagnostic.line - 1)
+      .reduce((offset, line) => offset + line.length + 1, 0)
+    const end = start + (lines[diagnostic.line - 1]?.length ?? 0)
 
-  // Toggle answer key checkbox
-  const handleToggleKey = useCallback((rowId: number) => {
-    const updatedRows = parsedRows.map(row =>
-      row.id === rowId ? { ...row, isKey: !row.isKey } : row
+    textarea.focus()
+    textarea.setSelectionRange(start, end)
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20
+    textarea.scrollTop = Math.max(
+      0,
+      (diagnostic.line - 1) * lineHeight - textarea.clientHeight / 2
     )
-    setParsedRows(updatedRows)
-  }, [parsedRows, setParsedRows])
+  }, [])
 
   return (
     <div className="flex h-full flex-col gap-4 p-6">
@@ -152,7 +286,9 @@ export function ImportView() {
               <CardTitle>Format Settings</CardTitle>
               <CardDescription>
                 Configure how questions and answers are formatted in your input
-                text
+                text (e.g., prefix &quot;Câu &quot; and postfix &quot;:&quot;
+                for &quot;Câu 1:&quot;). &quot;1.&quot;, &quot;A.&quot; and
+                &quot;*&quot; are always recognized.
               </CardDescription>
             </CardHeader>
             <CardContent className="grid gap-4">
@@ -203,6 +339,32 @@ export function ImportView() {
                     placeholder="e.g., ) or ). "
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Correct Answer Marker</Label>
+                  <Input
+                    value={formatSettings.correctPrefix[0] ?? ''}
+                    onChange={e =>
+                      setFormatSettings({ correctPrefix: [e.target.value] })
+                    }
+                    placeholder="e.g., * or #"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Maximum Answer Options</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={formatSettings.maxOptions}
+                    onChange={e =>
+                      setFormatSettings({
+                        maxOptions: clampMaxOptions(
+                          parseInt(e.target.value) || 5
+                        ),
+                      })
+                    }
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -221,13 +383,22 @@ export function ImportView() {
           </CardHeader>
           <CardContent className="flex flex-1 flex-col gap-2 min-h-0">
             <Textarea
+              ref={inputRef}
               value={input}
               onChange={e => setInput(e.target.value)}
               placeholder="Paste your MCQ questions here..."
               className="flex-1 resize-none font-mono text-sm"
             />
-            <div className="pt-2">
-              <Button onClick={handleParse} className="w-full shrink-0">
+            <div className="flex gap-2 pt-2">
+              <Button
+                onClick={handleImportDocx}
+                variant="outline"
+                className="shrink-0 gap-2"
+              >
+                <FileUp className="h-4 w-4" />
+                Import .docx
+              </Button>
+              <Button onClick={handleParse} className="flex-1">
                 Parse Questions
               </Button>
             </div>
@@ -248,38 +419,12 @@ export function ImportView() {
           </CardHeader>
           <CardContent className="flex flex-1 flex-col gap-2 overflow-hidden">
             <div className="flex-1 overflow-auto rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-12">Label</TableHead>
-                    <TableHead>Text</TableHead>
-                    <TableHead className="w-12">Key</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {parsedRows.map(row => (
-                    <TableRow
-                      key={row.id}
-                      className={
-                        row.type === 'error' ? 'bg-destructive/10' : ''
-                      }
-                    >
-                      <TableCell className="font-medium">{row.label}</TableCell>
-                      <TableCell className="max-w-md text-sm">
-                        {row.text}
-                      </TableCell>
-                      <TableCell>
-                        {row.type === 'answer' && (
-                          <Checkbox
-                            checked={row.isKey}
-                            onCheckedChange={() => handleToggleKey(row.id)}
-                          />
-                        )}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+              <ParsedRowsTable
+                rows={parsedRows}
+                errorRowIds={errorRowIds}
+                selectedRowId={selectedRowId}
+                onChange={handleRowsChange}
+              />
             </div>
 
             {/* Answer Key Input */}
@@ -302,19 +447,27 @@ export function ImportView() {
         </Card>
       </div>
 
-      {/* Validation Alert */}
-      {validationResult && !validationResult.isValid && (
-        <Alert variant="destructive">
-          <AlertDescription>
-            Validation errors found. Please check the highlighted rows in the
-            table.
-          </AlertDescription>
-        </Alert>
+      {/* Validation Problems */}
+      {diagnostics.length > 0 && (
+        <ProblemsPanel
+          diagnostics={diagnostics}
+          onSelect={handleSelectDiagnostic}
+          onFix={handleFix}
+          onFixAll={handleFixAll}
+        />
       )}
 
+      <FixPreviewDialog
+        title={pendingFix?.label}
+        before={input}
+        after={pendingFix?.text ?? ''}
+        onApply={handleApplyFix}
+        onCancel={() => setPendingFix(undefined)}
+      />
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-2">
-        <Button onClick={handleAccept} disabled={!validationResult?.isValid}>
+        <Button onClick={handleAccept} disabled={hasBlockingProblems}>
           Accept & Continue to Generator
         </Button>
       </div>
@@ -0,0 +1,367 @@
+/**
+ * Item Analysis View - Statistics of the graded questions
+ * Shows difficulty, discrimination and distractor use per question of the
+ * source exam (versions are mapped back to their original questions), the
+ * KR-20 reliability and the score distribution, so weak questions can be
+ * revised or retired
+ */
+
+import { useCallback, useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useMcqStore } from '@/store/mcq-store'
+import { formatPoints } from '@/services/generator'
+import { getExamAnswerKeys, gradeResponse } from '@/services/grading'
+import {
+  analyzeItems,
+  getExamMappings,
+  itemAnalysisToCsv,
+} from '@/services/item-analysis'
+import { saveFile } from '@/lib/save-file'
+import { cn } from '@/lib/utils'
+import { Download } from 'lucide-react'
+import { toast } from 'sonner'
+
+/**
+ * Format a statistic with two decimals ("—" when undefined)
+ */
+function formatStat(value: number | undefined): string {
+  return value === undefined ? '—' : value.toFixed(2)
+}
+
+/**
+ * Describe a KR-20 value in words
+ */
+function describeReliability(kr20: number | undefined): string {
+  if (kr20 === undefined) return 'Needs more responses'
+  if (kr20 >= 0.8) return 'Good'
+  if (kr20 >= 0.7) return 'Acceptable'
+  if (kr20 >= 0.5) return 'Weak'
+  return 'Poor'
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-mono text-lg">{value}</div>
+    </div>
+  )
+}
+
+export function ItemAnalysisView() {
+  const parsedRows = useMcqStore(state => state.parsedRows)
+  const generatedRows = useMcqStore(state => state.generatedRows)
+  const examVersions = useMcqStore(state => state.examVersions)
+  const examConfig = useMcqStore(state => state.examConfig)
+  const studentResponses = useMcqStore(state => state.studentResponses)
+  const setCurrentView = useMcqStore(state => state.setCurrentView)
+  const [selectedNumber, setSelectedNumber] = useState<number>()
+
+  const analysis = useMemo(() => {
+    const rows = generatedRows.length > 0 ? generatedRows : parsedRows
+    const keys = getExamAnswerKeys(examVersions, rows, examConfig.startNumber)
+    const results = studentResponses.map(response =>
+      gradeResponse(response, keys, examConfig.scoring)
+    )
+    return analyzeItems(
+      results,
+      getExamMappings(examVersions, rows, examConfig.startNumber)
+    )
+  }, [
+    studentResponses,
+    examVersions,
+    generatedRows,
+    parsedRows,
+    examConfig.startNumber,
+    examConfig.scoring,
+  ])
+
+  // Source question text by original number
+  const questionTexts = useMemo(
+    () =>
+      new Map(
+        parsedRows
+          .filter(row => row.type === 'question')
+          .map(row => [row.originalNumber, row.text])
+      ),
+    [parsedRows]
+  )
+
+  const selected = useMemo(
+    () =>
+      analysis.items.find(item => item.originalNumber === selectedNumber) ??
+      analysis.items[0],
+    [analysis, selectedNumber]
+  )
+
+  const handleExport = useCallback(async () => {
+    try {
+      // BOM so spreadsheet apps read the CSV as UTF-8
+      const blob = new Blob(['\uFEFF' + itemAnalysisToCsv(analysis)], {
+        type: 'text/csv',
+      })
+      const saved = await saveFile(blob, {
+        defaultPath: 'item-analysis.csv',
+        filterName: 'CSV',
+        extensions: ['csv'],
+      })
+      if (saved) toast.success('Item analysis exported')
+    } catch (error) {
+      console.error('Item analysis export error:', error)
+      toast.error('Failed to export item analysis')
+    }
+  }, [analysis])
+
+  const { test } = analysis
+
+  if (test.responses === 0) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground">No graded responses yet</p>
+          <Button
+            onClick={() => setCurrentView('grade')}
+            variant="outline"
+            className="mt-4"
+          >
+            Go to Grade
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const largestBin = Math.max(1, ...test.distribution.map(bin => bin.count))
+  const selectedMarks = Math.max(
+    1,
+    ...(selected?.options.map(option => option.count) ?? []),
+    selected?.blank ?? 0
+  )
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-auto p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Item Analysis</h2>
+          <p className="text-sm text-muted-foreground">
+            {test.items} questions, {test.responses} graded responses
+            {examVersions.length > 0 &&
+              `, ${examVersions.length} versions mapped to the source exam`}
+          </p>
+        </div>
+        <Button
+          onClick={handleExport}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Download className="h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Test</CardTitle>
+            <CardDescription>
+              KR-20 reliability: {describeReliability(test.kr20)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-3 gap-4">
+            <Stat
+              label="Mean"
+              value={`${formatPoints(Math.round(test.meanScore * 100) / 100)} / ${formatPoints(test.possibleScore)}`}
+            />
+            <Stat
+              label="Median"
+              value={formatPoints(Math.round(test.medianScore * 100) / 100)}
+            />
+            <Stat
+              label="Std. deviation"
+              value={formatStat(test.standardDeviation)}
+            />
+            <Stat
+              label="Range"
+              value={`${formatPoints(test.minScore)} – ${formatPoints(test.maxScore)}`}
+            />
+            <Stat label="KR-20" value={formatStat(test.kr20)} />
+            <Stat label="Responses" value={String(test.responses)} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Score Distribution</CardTitle>
+            <CardDescription>Students per score band</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex h-32 items-end gap-1">
+              {test.distribution.map(bin => (
+                <div
+                  key={bin.from}
+                  className="flex h-full flex-1 flex-col justify-end"
+                  title={`${bin.from}–${bin.to}%: ${bin.count} students`}
+                >
+                  <div
+                    className="rounded-t bg-primary/70"
+                    style={{ height: `${(bin.count / largestBin) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="mt-1 flex gap-1 text-center text-[10px] text-muted-foreground">
+              {test.distribution.map(bin => (
+                <div key={bin.from} className="flex-1">
+                  {bin.from}%
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Questions</CardTitle>
+            <CardDescription>
+              Numbered as in the source exam;{' '}
+              {analysis.items.filter(item => item.flags.length > 0).length}{' '}
+              flagged for review
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Q</TableHead>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Difficulty (p)</TableHead>
+                  <TableHead className="text-right">D</TableHead>
+                  <TableHead className="text-right">r(pb)</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.items.map(item => (
+                  <TableRow
+                    key={item.originalNumber}
+                    onClick={() => setSelectedNumber(item.originalNumber)}
+                    data-state={item === selected ? 'selected' : undefined}
+                    className="cursor-pointer"
+                  >
+                    <TableCell className="font-mono">
+                      {item.originalNumber}
+                    </TableCell>
+                    <TableCell className="max-w-64 truncate">
+                      {questionTexts.get(item.originalNumber) ?? '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 w-16 rounded bg-muted">
+                          <div
+                            className="h-2 rounded bg-primary/70"
+                            style={{ width: `${item.difficulty * 100}%` }}
+                          />
+                        </div>
+                        <span className="font-mono text-xs">
+                          {formatStat(item.difficulty)}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatStat(item.discrimination)}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        'text-right font-mono',
+                        (item.pointBiserial ?? 0) < 0 && 'text-destructive'
+                      )}
+                    >
+                      {formatStat(item.pointBiserial)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {item.flags.map(flag => (
+                          <Badge key={flag} variant="outline">
+                            {flag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Distractors</CardTitle>
+            <CardDescription>
+              {selected
+                ? `Question ${selected.originalNumber}: marks per option (source letters)`
+                : 'Select a question'}
+            </CardDescription>
+          </CardHeader>
+          {selected && (
+            <CardContent className="space-y-2">
+              {[
+                ...selected.options.map(option => ({
+                  label: option.letter,
+                  count: option.count,
+                  isKey: option.isKey,
+                })),
+                { label: 'Blank', count: selected.blank, isKey: false },
+              ].map(bar => (
+                <div key={bar.label} className="flex items-center gap-2">
+                  <span className="w-10 font-mono text-sm">{bar.label}</span>
+                  <div className="h-4 flex-1 rounded bg-muted">
+                    <div
+                      className={cn(
+                        'h-4 rounded',
+                        bar.isKey ? 'bg-green-600/70' : 'bg-primary/40'
+                      )}
+                      style={{
+                        width: `${(bar.count / selectedMarks) * 100}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-8 text-right font-mono text-sm">
+                    {bar.count}
+                  </span>
+                </div>
+              ))}
+              {selected.review > 0 && (
+                <p className="text-xs text-yellow-700">
+                  {selected.review} responses held for review are not counted
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Green marks the correct answer
+              </p>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 /**
  * MCQ Container - Main container for MCQ application
- * Handles view switching between Import, Generate, Answer Sheet, and Settings
+ * Handles view switching between Import, Generate, Answer Sheet, Grade,
+ * Analysis, Question Bank, and Settings
  */
 
 import { useMcqStore } from '@/store/mcq-store'
@@ -8,8 +9,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ImportView } from './ImportView'
 import { GenerateView } from './GenerateView'
 import { AnswerSheetView } from './AnswerSheetView'
+import { GradeView } from './GradeView'
+import { ItemAnalysisView } from './ItemAnalysisView'
+import { QuestionBankView } from './QuestionBankView'
 import { SettingsView } from './SettingsView'
-import { FileInput, Shuffle, FileCheck, Settings } from 'lucide-react'
+import {
+  BarChart3,
+  FileInput,
+  Shuffle,
+  FileCheck,
+  Library,
+  ScanLine,
+  Settings,
+} from 'lucide-react'
 
 export function McqContainer() {
   const currentView = useMcqStore(state => state.currentView)
@@ -22,7 +34,7 @@ export function McqContainer() {
         onValueChange={value => setCurrentView(value as typeof currentView)}
         className="flex h-full flex-col"
       >
-        <TabsList className="mx-6 mt-6 grid w-auto grid-cols-4">
+        <TabsList className="mx-6 mt-6 grid w-auto grid-cols-7">
           <TabsTrigger value="import" className="gap-2">
             <FileInput className="h-4 w-4" />
             Import
@@ -35,6 +47,18 @@ export function McqContainer() {
             <FileCheck className="h-4 w-4" />
             Answer Sheet
           </TabsTrigger>
+          <TabsTrigger value="grade" className="gap-2">
+            <ScanLine className="h-4 w-4" />
+            Grade
+          </TabsTrigger>
+          <TabsTrigger value="analysis" className="gap-2">
+            <BarChart3 className="h-4 w-4" />
+            Analysis
+          </TabsTrigger>
+          <TabsTrigger value="bank" className="gap-2">
+            <Library className="h-4 w-4" />
+            Bank
+          </TabsTrigger>
           <TabsTrigger value="settings" className="gap-2">
             <Settings className="h-4 w-4" />
             Settings
@@ -53,6 +77,18 @@ export function McqContainer() {
           <AnswerSheetView />
         </TabsContent>
 
+        <TabsContent value="grade" className="flex-1 overflow-hidden">
+          <GradeView />
+        </TabsContent>
+
+        <TabsContent value="analysis" className="flex-1 overflow-hidden">
+          <ItemAnalysisView />
+        </TabsContent>
+
+        <TabsContent value="bank" className="flex-1 overflow-hidden">
+          <QuestionBankView />
+        </TabsContent>
+
         <TabsContent value="settings" className="flex-1 overflow-hidden">
           <SettingsView />
         </TabsContent>
@@ -0,0 +1,125 @@
+/**
+ * OMR Sheet - Blank student answer sheet drawn from an OMR layout
+ * The SVG uses millimetre units, so it prints at the layout's exact geometry
+ */
+
+import React from 'react'
+import type { OmrBubble, OmrDigitGrid, OmrLayout } from '@/services/omr-layout'
+
+const STROKE = 0.25
+
+interface OmrSheetProps {
+  layout: OmrLayout
+}
+
+function Bubble({ bubble }: { bubble: OmrBubble }) {
+  return (
+    <>
+      <circle
+        cx={bubble.x}
+        cy={bubble.y}
+        r={bubble.r}
+        fill="#ffffff"
+        stroke="#000000"
+        strokeWidth={STROKE}
+      />
+      <text
+        x={bubble.x}
+        y={bubble.y + 0.8}
+        textAnchor="middle"
+        fontSize={2.2}
+        fill="#000000"
+      >
+        {bubble.value}
+      </text>
+    </>
+  )
+}
+
+function DigitGrid({ grid }: { grid: OmrDigitGrid }) {
+  return (
+    <g>
+      <text x={grid.labelX} y={grid.labelY} fontSize={3} fontWeight="bold">
+        {grid.label}
+      </text>
+      <rect {...grid.box} fill="none" stroke="#000000" strokeWidth={STROKE} />
+      {grid.writeIn.map((box, index) => (
+        <rect
+          key={index}
+          {...box}
+          fill="none"
+          stroke="#000000"
+          strokeWidth={STROKE}
+        />
+      ))}
+      {grid.columns.flat().map((bubble, index) => (
+        <Bubble key={index} bubble={bubble} />
+      ))}
+    </g>
+  )
+}
+
+export const OmrSheet = React.forwardRef<HTMLDivElement, OmrSheetProps>(
+  ({ layout }, ref) => (
+    <div ref={ref} style={{ backgroundColor: '#ffffff' }}>
+      <svg
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        width="100%"
+        style={{ fontFamily: 'sans-serif', color: '#000000' }}
+      >
+        <rect width={layout.width} height={layout.height} fill="#ffffff" />
+
+        {layout.fiducials.map((mark, index) => (
+          <rect key={index} {...mark} fill="#000000" />
+        ))}
+
+        <text
+          x={layout.title.x}
+          y={layout.title.y + 1.5}
+          textAnchor="middle"
+          fontSize={5}
+          fontWeight="bold"
+        >
+          {layout.title.text}
+        </text>
+
+        {layout.fields.map(field => (
+          <g key={field.label}>
+            <text x={field.x} y={field.y} fontSize={3.5}>
+              {field.label}:
+            </text>
+            <line
+              x1={field.x + 14}
+              y1={field.y + 0.5}
+              x2={field.x + field.width}
+              y2={field.y + 0.5}
+              stroke="#000000"
+              strokeWidth={STROKE}
+            />
+          </g>
+        ))}
+
+        <DigitGrid grid={layout.examCode} />
+        <DigitGrid grid={layout.studentId} />
+
+        {layout.questions.map(question => (
+          <g key={question.number}>
+            <text
+              x={question.labelX}
+              y={question.labelY + 1.1}
+              textAnchor="end"
+              fontSize={3}
+              fontWeight="bold"
+            >
+              {question.number}
+            </text>
+            {question.bubbles.map(bubble => (
+              <Bubble key={bubble.value} bubble={bubble} />
+            ))}
+          </g>
+        ))}
+      </svg>
+    </div>
+  )
+)
+OmrSheet.displayName = 'OmrSheet'
@@ -0,0 +1,389 @@
+/**
+ * Parsed Rows Table - Review and edit parsed rows in the import screen
+ * Supports inline editing of labels and text, inserting and deleting rows,
+ * drag-and-drop reordering, points, locks and answer keys
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  isFullyLocked,
+  setAnswersLock,
+  setSectionLock,
+  toggleRowLock,
+} from '@/services/locks'
+import {
+  deleteRow,
+  insertAnswer,
+  insertQuestion,
+  moveRow,
+  updateRow,
+} from '@/services/row-editing'
+import { DEFAULT_QUESTION_POINTS, type ParsedRow } from '@/types/mcq'
+import { cn } from '@/lib/utils'
+import {
+  GripVertical,
+  Lock,
+  LockOpen,
+  MoreHorizontal,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+
+interface ParsedRowsTableProps {
+  rows: ParsedRow[]
+  /** IDs of rows flagged by validateParsedMcq */
+  errorRowIds: Set<number>
+  /** Row to highlight and scroll to (e.g., picked in the problems panel) */
+  selectedRowId?: number
+  /** Called with the edited rows and a history label (e.g., "Deleted row") */
+  onChange: (rows: ParsedRow[], label: string) => void
+}
+
+/** Row field being edited in place */
+interface EditState {
+  rowId: number
+  field: 'label' | 'text'
+  value: string
+}
+
+export function ParsedRowsTable({
+  rows,
+  errorRowIds,
+  selectedRowId,
+  onChange,
+}: ParsedRowsTableProps) {
+  const [editing, setEditing] = useState<EditState>()
+  // Points typed but not yet committed (on blur or Enter, one history entry)
+  const [pointsDraft, setPointsDraft] = useState<{
+    rowId: number
+    value: string
+  }>()
+  const [dragRowId, setDragRowId] = useState<number>()
+  const [dropTargetId, setDropTargetId] = useState<number>()
+  const rowElements = useRef(new Map<number, HTMLTableRowElement>())
+
+  useEffect(() => {
+    if (selectedRowId === undefined) return
+    rowElements.current
+      .get(selectedRowId)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [selectedRowId])
+
+  const commitEdit = () => {
+    if (!editing) return
+    const row = rows.find(candidate => candidate.id === editing.rowId)
+    const value = editing.value.trim()
+    if (row && row[editing.field] !== value) {
+      onChange(
+        updateRow(rows, editing.rowId, { [editing.field]: value }),
+        editing.field === 'label' ? 'Edited label' : 'Edited text'
+      )
+    }
+    setEditing(undefined)
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setEditing(undefined)
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      // Shift+Enter adds a line break in text
+      e.preventDefault()
+      commitEdit()
+    }
+  }
+
+  const commitPoints = () => {
+    if (!pointsDraft) return
+    const row = rows.find(candidate => candidate.id === pointsDraft.rowId)
+    const value = pointsDraft.value.trim()
+    const points = value === '' ? undefined : parseFloat(value)
+    setPointsDraft(undefined)
+    if (!row || (points !== undefined && !(points >= 0))) return
+    if (row.points !== points) {
+      onChange(updateRow(rows, row.id, { points }), 'Changed points')
+    }
+  }
+
+  const handlePointsKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setPointsDraft(undefined)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      commitPoints()
+    }
+  }
+
+  const handleToggleBulkLock = (row: ParsedRow) => {
+    const locked = !isFullyLocked(rows, row.id)
+    onChange(
+      row.type === 'section'
+        ? setSectionLock(rows, row.id, locked)
+        : setAnswersLock(rows, row.id, locked),
+      `${locked ? 'Locked' : 'Unlocked'} ${row.type === 'section' ? 'section' : 'answers'}`
+    )
+  }
+
+  const handleDrop = (targetId: number) => {
+    if (dragRowId !== undefined) {
+      onChange(moveRow(rows, dragRowId, targetId), 'Moved row')
+    }
+    setDragRowId(undefined)
+    setDropTargetId(undefined)
+  }
+
+  const renderEditable = (row: ParsedRow, field: 'label' | 'text') => {
+    if (editing?.rowId === row.id && editing.field === field) {
+      const props = {
+        autoFocus: true,
+        value: editing.value,
+        onChange: (
+          e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+        ) => setEditing({ ...editing, value: e.target.value }),
+        onBlur: commitEdit,
+        onKeyDown: handleEditKeyDown,
+      }
+      return field === 'label' ? (
+        <Input {...props} className="h-8 w-14" />
+      ) : (
+        <Textarea {...props} rows={2} className="min-h-0 text-sm" />
+      )
+    }
+
+    return (
+      <button
+        type="button"
+        onClick={() => setEditing({ rowId: row.id, field, value: row[field] })}
+        className={cn(
+          'w-full rounded-sm text-left hover:bg-muted',
+          field === 'text' && 'whitespace-pre-wrap',
+          !row[field] && 'text-muted-foreground italic'
+        )}
+        title="Click to edit"
+      >
+        {row[field] || (field === 'text' ? 'Empty' : '—')}
+      </button>
+    )
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-6" />
+          <TableHead className="w-16">Label</TableHead>
+          <TableHead>Text</TableHead>
+          <TableHead className="w-20">Points</TableHead>
+          <TableHead className="w-36">Lock</TableHead>
+          <TableHead className="w-12">Key</TableHead>
+          <TableHead className="w-10" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow
+            key={row.id}
+            ref={element => {
+              if (element) rowElements.current.set(row.id, element)
+              else rowElements.current.delete(row.id)
+            }}
+            onDragOver={e => {
+              if (dragRowId === undefined) return
+              e.preventDefault()
+              setDropTargetId(row.id)
+            }}
+            onDragLeave={() => setDropTargetId(undefined)}
+            onDrop={e => {
+              e.preventDefault()
+              handleDrop(row.id)
+            }}
+            className={cn(
+              errorRowIds.has(row.id) && 'bg-destructive/10',
+              selectedRowId === row.id && 'ring-2 ring-inset ring-primary',
+              dragRowId === row.id && 'opacity-50',
+              dropTargetId === row.id &&
+                dragRowId !== row.id &&
+                'border-t-2 border-t-primary'
+            )}
+          >
+            <TableCell className="px-1">
+              {row.type !== 'empty' && (
+                <span
+                  draggable
+                  onDragStart={e => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDragRowId(row.id)
+                  }}
+                  onDragEnd={() => {
+                    setDragRowId(undefined)
+                    setDropTargetId(undefined)
+                  }}
+                  className="flex cursor-grab text-muted-foreground"
+                  title="Drag to reorder"
+                >
+                  <GripVertical className="h-4 w-4" />
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="font-medium">
+              {row.type === 'question' || row.type === 'answer'
+                ? renderEditable(row, 'label')
+                : row.label}
+            </TableCell>
+            <TableCell className="max-w-md text-sm">
+              {row.type !== 'empty' && renderEditable(row, 'text')}
+              {row.attachments?.map((attachment, index) => (
+                <span
+                  key={index}
+                  className="ml-2 text-xs text-muted-foreground"
+                >
+                  [{attachment.type === 'image' ? 'Image' : 'Table'}]
+                </span>
+              ))}
+            </TableCell>
+            <TableCell>
+              {row.type === 'question' && (
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={
+                    pointsDraft?.rowId === row.id
+                      ? pointsDraft.value
+                      : (row.points ?? '')
+                  }
+                  onChange={e =>
+                    setPointsDraft({ rowId: row.id, value: e.target.value })
+                  }
+                  onBlur={commitPoints}
+                  onKeyDown={handlePointsKeyDown}
+                  placeholder={DEFAULT_QUESTION_POINTS.toString()}
+                  className="h-8 w-20"
+                  aria-label={`Points for question ${row.label}`}
+                />
+              )}
+            </TableCell>
+            <TableCell>
+              {row.type !== 'empty' && row.type !== 'error' && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    onClick={() =>
+                      onChange(
+                        toggleRowLock(rows, row.id),
+                        row.locked ? 'Unlocked row' : 'Locked row'
+                      )
+                    }
+                    variant="ghost"
+                    size="icon-sm"
+                    title={row.locked ? 'Unlock' : 'Lock in place'}
+                    aria-pressed={row.locked}
+                  >
+                    {row.locked ? (
+                      <Lock className="h-4 w-4" />
+                    ) : (
+                      <LockOpen className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </Button>
+                  {(row.type === 'section' || row.type === 'question') && (
+                    <Button
+                      onClick={() => handleToggleBulkLock(row)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                    >
+                      {isFullyLocked(rows, row.id) ? 'Unlock' : 'Lock'}{' '}
+                      {row.type === 'section' ? 'section' : 'answers'}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </TableCell>
+            <TableCell>
+              {row.type === 'answer' && (
+                <Checkbox
+                  checked={row.isKey}
+                  onCheckedChange={() =>
+                    onChange(
+                      updateRow(rows, row.id, { isKey: !row.isKey }),
+                      'Changed answer key'
+                    )
+                  }
+                />
+              )}
+            </TableCell>
+            <TableCell className="px-1">
+              {row.type !== 'empty' && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label="Row actions"
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(row.type === 'question' || row.type === 'answer') && (
+                      <DropdownMenuItem
+                        onClick={() =>
+                          onChange(insertAnswer(rows, row.id), 'Added answer')
+                        }
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add answer
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                      onClick={() =>
+                        onChange(insertQuestion(rows, row.id), 'Added question')
+                      }
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add question below
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() =>
+                        onChange(
+                          deleteRow(rows, row.id),
+                          row.type === 'question'
+                            ? 'Deleted question'
+                            : 'Deleted row'
+                        )
+                      }
+                      variant="destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      {row.type === 'question'
+                        ? 'Delete question'
+                        : 'Delete row'}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,88 @@
+/**
+ * Problems Panel - Lists validation diagnostics for the import screen
+ * Clicking a problem jumps to its row and input line; quick fixes are offered
+ * next to the problems that have them
+ */
+
+import { Button } from '@/components/ui/button'
+import type { Diagnostic, QuickFix } from '@/services/validator'
+import { AlertCircle, AlertTriangle, Wand2 } from 'lucide-react'
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[]
+  onSelect: (diagnostic: Diagnostic) => void
+  onFix: (diagnostic: Diagnostic, fix: QuickFix) => void
+  /** Fix every problem that has a safe fix (hidden when none has) */
+  onFixAll: () => void
+}
+
+export function ProblemsPanel({
+  diagnostics,
+  onSelect,
+  onFix,
+  onFixAll,
+}: ProblemsPanelProps) {
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length
+  const warningCount = diagnostics.length - errorCount
+  const hasSafeFixes = diagnostics.some(d => d.fixes?.some(fix => fix.safe))
+
+  return (
+    <div className="flex max-h-40 flex-col rounded-md border">
+      <div className="flex items-center border-b px-3 py-1.5 text-sm font-medium">
+        Problems
+        <span className="ml-2 flex-1 text-xs font-normal text-muted-foreground">
+          {errorCount} errors, {warningCount} warnings
+        </span>
+        {hasSafeFixes && (
+          <Button
+            onClick={onFixAll}
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+          >
+            <Wand2 className="h-3 w-3" />
+            Fix all safe issues
+          </Button>
+        )}
+      </div>
+      <ul className="overflow-auto py-1">
+        {diagnostics.map(diagnostic => (
+          <li
+            key={`${diagnostic.rowId}-${diagnostic.code}`}
+            className="flex items-center gap-1 pr-2 hover:bg-muted"
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(diagnostic)}
+              className="flex flex-1 items-center gap-2 px-3 py-1 text-left text-sm"
+            >
+              {diagnostic.severity === 'error' ? (
+                <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 shrink-0 text-yellow-600" />
+              )}
+              <span className="flex-1">{diagnostic.message}</span>
+              {diagnostic.line !== undefined && (
+                <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                  Line {diagnostic.line}
+                </span>
+              )}
+            </button>
+            {diagnostic.fixes?.map(fix => (
+              <Button
+                key={fix.id}
+                onClick={() => onFix(diagnostic, fix)}
+                variant="ghost"
+                size="sm"
+                className="h-6 shrink-0 px-2 text-xs"
+                title={fix.safe ? 'Safe fix' : 'Removes text - review first'}
+              >
+                {fix.label}
+              </Button>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,490 @@
+/**
+ * Question Bank View - Keep questions across exams and reuse them
+ * Imported questions are added with a subject, chapter, difficulty and tags;
+ * searching and picking bank questions builds a new exam in the Import view.
+ * Each build is recorded in the usage history of the picked questions.
+ */
+
+import { useCallback, useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { TagInput, type Tag } from '@/components/ui/tag-input'
+import { useMcqStore } from '@/store/mcq-store'
+import {
+  addQuestionsToBank,
+  buildExamFromBank,
+  getBankFacets,
+  recordBankUsage,
+  removeBankQuestions,
+  searchBank,
+  updateBankQuestions,
+  useQuestionBank,
+  useSaveQuestionBank,
+  type BankFilters,
+  type BankQuestionDetails,
+} from '@/services/question-bank'
+import { serializeRowsWithLines } from '@/services/row-editing'
+import { EMPTY_QUESTION_BANK, type BankDifficulty } from '@/types/question-bank'
+import { FilePlus2, Library, Search, Tags, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+/** Select value for "no filter" / "no difficulty" (items cannot be empty) */
+const ANY = 'any'
+
+const DIFFICULTIES: BankDifficulty[] = ['easy', 'medium', 'hard']
+
+/**
+ * Filter select with an "All" option
+ */
+function FilterSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value: string | undefined
+  options: string[]
+  onChange: (value: string | undefined) => void
+}) {
+  return (
+    <Select
+      value={value ?? ANY}
+      onValueChange={next => onChange(next === ANY ? undefined : next)}
+    >
+      <SelectTrigger className="w-36">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>All {label.toLowerCase()}</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option} value={option}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function QuestionBankView() {
+  const parsedRows = useMcqStore(state => state.parsedRows)
+  const { data: bank = EMPTY_QUESTION_BANK, isLoading } = useQuestionBank()
+  const saveBank = useSaveQuestionBank()
+
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<BankFilters>({})
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [subject, setSubject] = useState('')
+  const [chapter, setChapter] = useState('')
+  const [difficulty, setDifficulty] = useState<BankDifficulty>()
+  const [tags, setTags] = useState<Tag[]>([])
+
+  const facets = useMemo(() => getBankFacets(bank.questions), [bank])
+  const results = useMemo(
+    () => searchBank(bank.questions, query, filters),
+    [bank, query, filters]
+  )
+  const importedCount = useMemo(
+    () => parsedRows.filter(row => row.type === 'question').length,
+    [parsedRows]
+  )
+
+  // Selection of questions no longer in the bank is ignored
+  const selected = useMemo(
+    () => results.filter(question => selectedIds.includes(question.id)),
+    [results, selectedIds]
+  )
+
+  const details = useMemo<BankQuestionDetails>(
+    () => ({
+      subject: subject.trim(),
+      chapter: chapter.trim(),
+      difficulty,
+      tags: tags.map(tag => tag.text),
+    }),
+    [subject, chapter, difficulty, tags]
+  )
+
+  const handleAdd = useCallback(() => {
+    const result = addQuestionsToBank(
+      bank,
+      useMcqStore.getState().parsedRows,
+      details
+    )
+    saveBank.mutate(result.bank, {
+      onSuccess: () =>
+        toast.success(
+          `Added ${result.added} questions to the bank` +
+            (result.duplicates > 0
+              ? ` (${result.duplicates} already there)`
+              : '')
+        ),
+    })
+  }, [bank, details, saveBank])
+
+  const handleApplyDetails = useCallback(() => {
+    saveBank.mutate(
+      updateBankQuestions(
+        bank,
+        selected.map(question => question.id),
+        details
+      ),
+      {
+        onSuccess: () => toast.success(`Updated ${selected.length} questions`),
+      }
+    )
+  }, [bank, selected, details, saveBank])
+
+  const handleDelete = useCallback(() => {
+    saveBank.mutate(
+      removeBankQuestions(
+        bank,
+        selected.map(question => question.id)
+      ),
+      {
+        onSuccess: () => {
+          toast.success(`Removed ${selected.length} questions`)
+          setSelectedIds([])
+        },
+      }
+    )
+  }, [bank, selected, saveBank])
+
+  const handleBuildExam = useCallback(() => {
+    try {
+      const {
+        examConfig,
+        formatSettings,
+        setParsedRows,
+        setImportInput,
+        setImportAttachments,
+        setCurrentView,
+      } = useMcqStore.getState()
+      const { rows, questionIds } = buildExamFromBank(
+        selected,
+        examConfig.startNumber,
+        formatSettings.anchorPhrases
+      )
+      const attachments = rows.flatMap(row => row.attachments ?? [])
+      const serialized = serializeRowsWithLines(rows, attachments, {
+        formatSettings,
+      })
+
+      setImportAttachments(attachments)
+      setParsedRows(serialized.rows, 'Built exam from question bank')
+      setImportInput(serialized.text)
+      saveBank.mutate(
+        recordBankUsage(
+          bank,
+          questionIds,
+          examConfig.header.subject || 'Untitled exam',
+          examConfig.startNumber
+        )
+      )
+
+      setCurrentView('import')
+      toast.success(`Built an exam from ${questionIds.length} questions`)
+    } catch (error) {
+      console.error('Question bank error:', error)
+      toast.error(
+        `Question bank error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }, [bank, selected, saveBank])
+
+  const toggleSelected = (id: number) =>
+    setSelectedIds(ids =>
+      ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]
+    )
+  const allSelected = results.length > 0 && selected.length === results.length
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-auto p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Question Bank</h2>
+          <p className="text-sm text-muted-foreground">
+            {bank.questions.length} questions saved across exams
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {selected.length > 0 && (
+            <>
+              <Button
+                onClick={handleDelete}
+                disabled={saveBank.isPending}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+              <Button
+                onClick={handleApplyDetails}
+                disabled={saveBank.isPending}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <Tags className="h-4 w-4" />
+                Apply Details
+              </Button>
+            </>
+          )}
+          <Button
+            onClick={handleBuildExam}
+            disabled={selected.length === 0 || saveBank.isPending}
+            size="sm"
+            className="gap-2"
+          >
+            <FilePlus2 className="h-4 w-4" />
+            Build Exam ({selected.length})
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Question Details</CardTitle>
+            <CardDescription>
+              Given to imported questions when added, or to the selected
+              questions with Apply Details
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bank-subject">Subject</Label>
+              <Input
+                id="bank-subject"
+                value={subject}
+                onChange={e => setSubject(e.target.value)}
+                placeholder="e.g., Biology"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-chapter">Chapter</Label>
+              <Input
+                id="bank-chapter"
+                value={chapter}
+                onChange={e => setChapter(e.target.value)}
+                placeholder="e.g., Photosynthesis"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select
+                value={difficulty ?? ANY}
+                onValueChange={value =>
+                  setDifficulty(
+                    value === ANY ? undefined : (value as BankDifficulty)
+                  )
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Not set</SelectItem>
+                  {DIFFICULTIES.map(level => (
+                    <SelectItem key={level} value={level}>
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              <TagInput tags={tags} onTagsChange={setTags} />
+            </div>
+            <Button
+              onClick={handleAdd}
+              disabled={importedCount === 0 || saveBank.isPending}
+              variant="outline"
+              className="w-full gap-2"
+            >
+              <Library className="h-4 w-4" />
+              Add {importedCount} Imported Questions
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Questions</CardTitle>
+            <CardDescription>
+              {isLoading
+                ? 'Loading…'
+                : `${results.length} found, ${selected.length} picked for the next exam`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <div className="relative min-w-48 flex-1">
+                <Search className="absolute top-2.5 left-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="Search questions, answers and tags"
+                  className="pl-8"
+                />
+              </div>
+              <FilterSelect
+                label="Subjects"
+                value={filters.subject}
+                options={facets.subjects}
+                onChange={value => setFilters({ ...filters, subject: value })}
+              />
+              <FilterSelect
+                label="Chapters"
+                value={filters.chapter}
+                options={facets.chapters}
+                onChange={value => setFilters({ ...filters, chapter: value })}
+              />
+              <FilterSelect
+                label="Levels"
+                value={filters.difficulty}
+                options={DIFFICULTIES}
+                onChange={value =>
+                  setFilters({
+                    ...filters,
+                    difficulty: value as BankDifficulty | undefined,
+                  })
+                }
+              />
+              <FilterSelect
+                label="Tags"
+                value={filters.tag}
+                options={facets.tags}
+                onChange={value => setFilters({ ...filters, tag: value })}
+              />
+            </div>
+
+            {results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {bank.questions.length === 0
+                  ? 'The bank is empty - import an exam, then add its questions here'
+                  : 'No questions match the search'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={() =>
+                          setSelectedIds(
+                            allSelected ? [] : results.map(q => q.id)
+                          )
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Subject / Chapter</TableHead>
+                    <TableHead>Difficulty</TableHead>
+                    <TableHead>Tags</TableHead>
+                    <TableHead>Used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(question => {
+                    const lastUse = question.usage.at(-1)
+                    return (
+                      <TableRow
+                        key={question.id}
+                        onClick={() => toggleSelected(question.id)}
+                        data-state={
+                          selectedIds.includes(question.id)
+                            ? 'selected'
+                            : undefined
+                        }
+                        className="cursor-pointer"
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(question.id)}
+                            onClick={e => e.stopPropagation()}
+                            onCheckedChange={() => toggleSelected(question.id)}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-72">
+                          <div className="truncate">{question.text}</div>
+                          <div className="truncate text-xs text-muted-foreground">
+                            {question.passage && 'Passage · '}
+                            {question.answers.length} answers
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {question.subject || '—'}
+                          {question.chapter && (
+                            <div className="text-xs text-muted-foreground">
+                              {question.chapter}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {question.difficulty ?? '—'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {question.tags.map(tag => (
+                              <Badge key={tag} variant="secondary">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell
+                          className="text-sm"
+                          title={question.usage
+                            .map(
+                              use =>
+                                `${use.exam} (Q${use.questionNumber}), ${new Date(use.usedAt).toLocaleDateString()}`
+                            )
+                            .join('\n')}
+                        >
+                          {lastUse
+                            ? `${question.usage.length}× · ${new Date(lastUse.usedAt).toLocaleDateString()}`
+                            : 'Never'}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+/**
+ * Question Mapping Panel - New question/answer order mapped to the source exam
+ */
+
+import { useCallback, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { saveFile } from '@/lib/save-file'
+import { useMcqStore } from '@/store/mcq-store'
+import {
+  buildQuestionMapping,
+  buildVersionMappings,
+  formatAnswerPermutation,
+  mappingsToCsv,
+  mappingsToJson,
+  type VersionMapping,
+} from '@/services/mapping'
+import type { ParsedRow } from '@/types/mcq'
+import { Download } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface QuestionMappingPanelProps {
+  /** Rows shown in the preview (selected version or working copy) */
+  rows: ParsedRow[]
+  startNumber: number
+}
+
+/**
+ * Mappings to export: every generated version, or the working copy
+ */
+function getExportMappings(): VersionMapping[] {
+  const { examVersions, generatedRows, examConfig } = useMcqStore.getState()
+
+  if (examVersions.length > 0) {
+    return buildVersionMappings(examVersions, examConfig.startNumber)
+  }
+  return [
+    {
+      code: '',
+      questions: buildQuestionMapping(generatedRows, examConfig.startNumber),
+    },
+  ]
+}
+
+export function QuestionMappingPanel({
+  rows,
+  startNumber,
+}: QuestionMappingPanelProps) {
+  const mapping = useMemo(
+    () => buildQuestionMapping(rows, startNumber),
+    [rows, startNumber]
+  )
+
+  const handleExport = useCallback(async (format: 'csv' | 'json') => {
+    const mappings = getExportMappings()
+    const content =
+      format === 'csv' ? mappingsToCsv(mappings) : mappingsToJson(mappings)
+
+    try {
+      const saved = await saveFile(
+        new Blob([content], {
+          type: format === 'csv' ? 'text/csv' : 'application/json',
+        }),
+        {
+          defaultPath: `question-mapping.${format}`,
+          filterName: format.toUpperCase(),
+          extensions: [format],
+        }
+      )
+      if (saved) toast.success('Question mapping exported')
+    } catch (error) {
+      console.error('Export error:', error)
+      toast.error('Failed to export question mapping')
+    }
+  }, [])
+
+  return (
+    <div className="flex flex-1 flex-col gap-2 overflow-hidden min-h-0">
+      <div className="flex justify-end gap-2">
+        <Button
+          onClick={() => handleExport('csv')}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Download className="h-4 w-4" />
+          CSV
+        </Button>
+        <Button
+          onClick={() => handleExport('json')}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Download className="h-4 w-4" />
+          JSON
+        </Button>
+      </div>
+      <div className="flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Q#</TableHead>
+              <TableHead className="w-24">Original</TableHead>
+              <TableHead>Answers (original→new)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {mapping.map(question => (
+              <TableRow key={question.questionNumber}>
+                <TableCell className="font-medium">
+                  {question.questionNumber}
+                </TableCell>
+                <TableCell>{question.originalNumber ?? '—'}</TableCell>
+                <TableCell className="font-mono text-sm">
+                  {formatAnswerPermutation(question)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -12,8 +12,33 @@ import {
 } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
 import { useMcqStore } from '@/store/mcq-store'
+import { clampMaxOptions } from '@/services/answer-letters'
+import {
+  LABEL_PRESETS,
+  detectLabelPreset,
+  getLabelPresetSettings,
+} from '@/services/label-presets'
+import { LINT_RULES } from '@/services/lint'
+import {
+  DEFAULT_ANCHOR_PHRASES,
+  DEFAULT_LINT_SETTINGS,
+  DEFAULT_SCORING_SETTINGS,
+  type LabelPresetId,
+  type LintSettings,
+  type LintSeverity,
+  type PdfPageSize,
+  type ScoringSettings,
+} from '@/types/mcq'
 import { toast } from 'sonner'
 
 export function SettingsView() {
@@ -21,6 +46,7 @@ export function SettingsView() {
   const setFormatSettings = useMcqStore(state => state.setFormatSettings)
   const examConfig = useMcqStore(state => state.examConfig)
   const setExamConfig = useMcqStore(state => state.setExamConfig)
+  const labelPreset = detectLabelPreset(formatSettings)
 
   const handleReset = () => {
     setFormatSettings({
@@ -29,6 +55,8 @@ export function SettingsView() {
       answerPrefix: ['(', ''],
       answerPostfix: [')', '). '],
       answerLowercase: false,
+      sectionKeywords: [],
+      anchorPhrases: DEFAULT_ANCHOR_PHRASES,
     })
     setExamConfig({
       shuffleSections: false,
@@ -36,6 +64,8 @@ export function SettingsView() {
       shuffleAnswers: false,
       startNumber: 1,
       format: formatSettings,
+      lint: DEFAULT_LINT_SETTINGS,
+      scoring: DEFAULT_SCORING_SETTINGS,
     })
     toast.success('Settings reset to defaults')
   }
@@ -59,10 +89,55 @@ export function SettingsView() {
           <CardHeader>
             <CardTitle>Question Format</CardTitle>
             <CardDescription>
-              Configure how question numbers are formatted
+              Configure how question numbers and section headings are formatted
             </CardDescription>
           </CardHeader>
           <CardContent className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Label Preset</Label>
+                <Select
+                  value={labelPreset ?? ''}
+                  onValueChange={value =>
+                    setFormatSettings(
+                      getLabelPresetSettings(value as LabelPresetId)
+                    )
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Custom" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LABEL_PRESETS).map(([id, preset]) => (
+                      <SelectItem key={id} value={id}>
+                        {preset.name} ({preset.example})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Sets the question label and section keywords below
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Section Keywords</Label>
+                <Input
+                  value={formatSettings.sectionKeywords.join(', ')}
+                  onChange={e =>
+                    setFormatSettings({
+                      sectionKeywords: e.target.value
+                        .split(',')
+                        .map(keyword => keyword.trimStart()),
+                    })
+                  }
+                  placeholder="e.g., Phần, Part"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lines like &quot;Phần I&quot; or &quot;PHẦN A&quot; start a
+                  section; the first keyword is used in generated exams
+                </p>
+              </div>
+            </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Question Prefix</Label>
@@ -165,6 +240,42 @@ export function SettingsView() {
                 }
               />
             </div>
+
+            <div className="space-y-2">
+              <Label>Maximum Answer Options</Label>
+              <Input
+                type="number"
+                min={2}
+                max={10}
+                value={formatSettings.maxOptions}
+                onChange={e =>
+                  setFormatSettings({
+                    maxOptions: clampMaxOptions(parseInt(e.target.value) || 5),
+                  })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Answer letters recognized per question (5 = A-E, up to 10 = A-J)
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Anchor Phrases</Label>
+              <Textarea
+                value={formatSettings.anchorPhrases.join('\n')}
+                onChange={e =>
+                  setFormatSettings({
+                    anchorPhrases: e.target.value.split('\n'),
+                  })
+                }
+                rows={4}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                One per line. Answers starting with a phrase stay in place when
+                shuffling; letters such as &quot;Cả A và B&quot; match any
+                letter and are updated when answers are relettered
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -219,6 +330,353 @@ export function SettingsView() {
                   }
                 />
               </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Shuffle Questions Inside Passages</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Passage groups (&quot;&gt;&gt;&gt;&quot; …
+                    &quot;&lt;&lt;&lt;&quot;) always move as one block
+                  </p>
+                </div>
+                <Switch
+                  checked={examConfig.shuffleGroupQuestions}
+                  onCheckedChange={checked =>
+                    setExamConfig({ shuffleGroupQuestions: checked })
+                  }
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Exam Header</CardTitle>
+            <CardDescription>
+              Printed at the top of exported exams
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>School Name</Label>
+                <Input
+                  value={examConfig.header.schoolName}
+                  onChange={e =>
+                    setExamConfig({
+                      header: {
+                        ...examConfig.header,
+                        schoolName: e.target.value,
+                      },
+                    })
+                  }
+                  placeholder="e.g., Nguyen Du High School"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Subject</Label>
+                <Input
+                  value={examConfig.header.subject}
+                  onChange={e =>
+                    setExamConfig({
+                      header: { ...examConfig.header, subject: e.target.value },
+                    })
+                  }
+                  placeholder="e.g., Biology - Midterm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Input
+                  value={examConfig.header.duration}
+                  onChange={e =>
+                    setExamConfig({
+                      header: {
+                        ...examConfig.header,
+                        duration: e.target.value,
+                      },
+                    })
+                  }
+                  placeholder="e.g., 45 minutes"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Student Name / ID Line</Label>
+                <p className="text-sm text-muted-foreground">
+                  Print a line for the student&apos;s name and ID under the
+                  header
+                </p>
+              </div>
+              <Switch
+                checked={examConfig.header.showStudentLine}
+                onCheckedChange={checked =>
+                  setExamConfig({
+                    header: { ...examConfig.header, showStudentLine: checked },
+                  })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>PDF Export</CardTitle>
+            <CardDescription>
+              Page setup for exam and answer sheet PDFs
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Page Size</Label>
+                <Select
+                  value={examConfig.pdf.pageSize}
+                  onValueChange={value =>
+                    setExamConfig({
+                      pdf: {
+                        ...examConfig.pdf,
+                        pageSize: value as PdfPageSize,
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select page size" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="a4">A4</SelectItem>
+                    <SelectItem value="letter">Letter</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Margins (mm)</Label>
+                <Input
+                  type="number"
+                  min={5}
+                  max={40}
+                  value={examConfig.pdf.marginMm}
+                  onChange={e =>
+                    setExamConfig({
+                      pdf: {
+                        ...examConfig.pdf,
+                        marginMm: parseInt(e.target.value) || 15,
+                      },
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Include Answer Key Page</Label>
+                <p className="text-sm text-muted-foreground">
+                  Append a page with the answer key to exported exam PDFs
+                </p>
+              </div>
+              <Switch
+                checked={examConfig.pdf.includeAnswerKey}
+                onCheckedChange={checked =>
+                  setExamConfig({
+                    pdf: { ...examConfig.pdf, includeAnswerKey: checked },
+                  })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Content Checks</CardTitle>
+            <CardDescription>
+              Checks run on imported questions. Errors block continuing to the
+              generator; warnings are only shown.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            {LINT_RULES.map(rule => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4"
+              >
+                <div className="space-y-1">
+                  <Label>{rule.label}</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {rule.description}
+                  </p>
+                </div>
+                <Select
+                  value={examConfig.lint.rules[rule.id]}
+                  onValueChange={value =>
+                    setExamConfig({
+                      lint: {
+                        ...examConfig.lint,
+                        rules: {
+                          ...examConfig.lint.rules,
+                          [rule.id]: value as LintSeverity,
+                        },
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="warning">Warning</SelectItem>
+                    <SelectItem value="error">Error</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Keys per Question</Label>
+                <Select
+                  value={examConfig.lint.keyPolicy}
+                  onValueChange={value =>
+                    setExamConfig({
+                      lint: {
+                        ...examConfig.lint,
+                        keyPolicy: value as LintSettings['keyPolicy'],
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">Exactly one</SelectItem>
+                    <SelectItem value="multiple">One or more</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Duplicate Similarity (%)</Label>
+                <Input
+                  type="number"
+                  min={50}
+                  max={100}
+                  value={Math.round(examConfig.lint.duplicateThreshold * 100)}
+                  onChange={e =>
+                    setExamConfig({
+                      lint: {
+                        ...examConfig.lint,
+                        duplicateThreshold:
+                          Math.min(
+                            100,
+                            Math.max(50, parseInt(e.target.value) || 90)
+                          ) / 100,
+                      },
+                    })
+                  }
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Scoring</CardTitle>
+            <CardDescription>
+              Rules for grading scanned sheets and imported responses
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Multi-answer Questions</Label>
+                <Select
+                  value={examConfig.scoring.partialCredit}
+                  onValueChange={value =>
+                    setExamConfig({
+                      scoring: {
+                        ...examConfig.scoring,
+                        partialCredit:
+                          value as ScoringSettings['partialCredit'],
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">All or nothing</SelectItem>
+                    <SelectItem value="proportional">Partial credit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Wrong Answer Penalty (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(examConfig.scoring.wrongPenalty * 100)}
+                  onChange={e =>
+                    setExamConfig({
+                      scoring: {
+                        ...examConfig.scoring,
+                        wrongPenalty:
+                          Math.min(
+                            100,
+                            Math.max(0, parseInt(e.target.value) || 0)
+                          ) / 100,
+                      },
+                    })
+                  }
+                />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Partial credit gives the share of correct letters marked, minus
+                wrong letters. The penalty is a share of the question&apos;s
+                points deducted for a wrong answer (e.g., 25).
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Penalize Blank Answers</Label>
+                <p className="text-sm text-muted-foreground">
+                  Deduct the wrong answer penalty for questions left blank
+                </p>
+              </div>
+              <Switch
+                checked={examConfig.scoring.penalizeBlanks}
+                onCheckedChange={checked =>
+                  setExamConfig({
+                    scoring: { ...examConfig.scoring, penalizeBlanks: checked },
+                  })
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>No Negative Totals</Label>
+                <p className="text-sm text-muted-foreground">
+                  Raise total scores below zero to zero
+                </p>
+              </div>
+              <Switch
+                checked={examConfig.scoring.floorAtZero}
+                onCheckedChange={checked =>
+                  setExamConfig({
+                    scoring: { ...examConfig.scoring, floorAtZero: checked },
+                  })
+                }
+              />
             </div>
           </CardContent>
         </Card>
@@ -227,7 +685,7 @@ export function SettingsView() {
           <CardHeader>
             <CardTitle>Answer Sheet Layout</CardTitle>
             <CardDescription>
-              Configure the answer sheet table layout
+              Configure the answer key table and student sheet layout
             </CardDescription>
           </CardHeader>
           <CardContent className="grid gap-4">
@@ -262,6 +720,46 @@ export function SettingsView() {
               </p>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Student ID Digits</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={examConfig.studentIdDigits}
+                  onChange={e =>
+                    setExamConfig({
+                      studentIdDigits: Math.min(
+                        10,
+                        Math.max(1, parseInt(e.target.value) || 6)
+                      ),
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Exam Code Digits</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={examConfig.examCodeDigits}
+                  onChange={e =>
+                    setExamConfig({
+                      examCodeDigits: Math.min(
+                        10,
+                        Math.max(1, parseInt(e.target.value) || 3)
+                      ),
+                    })
+                  }
+                />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Bubble grid columns on student sheets for scanning
+              </p>
+            </div>
+
             <div className="flex items-center justify-between">
               <div className="space-y-1">
                 <Label>Show Column Headers</Label>
@@ -3,8 +3,20 @@ import { listen } from '@tauri-apps/api/event'
 import { check } from '@tauri-apps/plugin-updater'
 import { useUIStore } from '@/store/ui-store'
 import { useCommandContext } from './use-command-context'
+import { executeCommand } from '@/lib/commands/registry'
 import { logger } from '@/lib/logger'
 
+/**
+ * Check whether a key event comes from a text field with its own undo
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  )
+}
+
 /**
  * Main window event listeners - handles global keyboard shortcuts and other app-level events
  *
@@ -38,6 +50,14 @@ export function useMainWindowEventListeners() {
             setRightSidebarVisible(!rightSidebarVisible)
             break
           }
+          case 'z':
+          case 'Z': {
+            // Leave text fields to their native undo
+            if (isEditableTarget(e.target)) break
+            e.preventDefault()
+            executeCommand(e.shiftKey ? 'mcq.redo' : 'mcq.undo', commandContext)
+            break
+          }
         }
       }
     }
@@ -0,0 +1,65 @@
+import { Play, Redo2, Undo2 } from 'lucide-react'
+import { useMcqStore } from '@/store/mcq-store'
+import { getConfiguredShuffleModes } from '@/services/shuffle'
+import type { AppCommand } from './types'
+
+export const mcqCommands: AppCommand[] = [
+  {
+    id: 'mcq.generate-exam',
+    label: 'Generate Exam',
+    description: 'Apply the configured shuffle steps to the imported questions',
+    icon: Play,
+    group: 'exam',
+    keywords: ['generate', 'shuffle', 'exam', 'mcq'],
+
+    execute: context => {
+      const { examConfig, generateFromConfig, setCurrentView } =
+        useMcqStore.getState()
+
+      if (getConfiguredShuffleModes(examConfig).length === 0) {
+        context.showToast('No shuffle steps enabled in Settings', 'error')
+        return
+      }
+
+      const seed = generateFromConfig()
+      setCurrentView('generate')
+      context.showToast(`Exam generated (seed ${seed})`, 'success')
+    },
+
+    isAvailable: () => useMcqStore.getState().parsedRows.length > 0,
+  },
+
+  {
+    id: 'mcq.undo',
+    label: 'Undo',
+    description: 'Revert the last change to the questions or generated exam',
+    icon: Undo2,
+    group: 'exam',
+    keywords: ['undo', 'history', 'revert'],
+    shortcut: '⌘+Z',
+
+    execute: context => {
+      const label = useMcqStore.getState().undo()
+      if (label) context.showToast(`Undid: ${label}`, 'info')
+    },
+
+    isAvailable: () => useMcqStore.getState().past.length > 0,
+  },
+
+  {
+    id: 'mcq.redo',
+    label: 'Redo',
+    description: 'Re-apply the last undone change',
+    icon: Redo2,
+    group: 'exam',
+    keywords: ['redo', 'history'],
+    shortcut: '⇧+⌘+Z',
+
+    execute: context => {
+      const label = useMcqStore.getState().redo()
+      if (label) context.showToast(`Redid: ${label}`, 'info')
+    },
+
+    isAvailable: () => useMcqStore.getState().future.length > 0,
+  },
+]
@@ -0,0 +1,97 @@
+/**
+ * Open files chosen by the user
+ * Uses the Tauri dialog/fs plugins on desktop, and a file input otherwise
+ */
+
+import { isTauri } from './tauri'
+
+export interface OpenFileOptions {
+  /** Display name of the file type in the open dialog */
+  filterName: string
+  /** Allowed file extensions without dot */
+  extensions: string[]
+}
+
+export interface OpenedFile {
+  /** File name without directory */
+  name: string
+  /** File contents */
+  data: Uint8Array
+}
+
+/**
+ * Let the user pick a file and read its contents
+ *
+ * @param options Open dialog options
+ * @returns The opened file, or null if the user cancelled
+ *
+ * @example
+ * ```typescript
+ * const file = await openFile({ filterName: 'Word document', extensions: ['docx'] })
+ * if (file) console.log(file.name, file.data.byteLength)
+ * ```
+ */
+export async function openFile(
+  options: OpenFileOptions
+): Promise<OpenedFile | null> {
+  const [file] = await pickFiles(options, false)
+  return file ?? null
+}
+
+/**
+ * Let the user pick several files and read their contents
+ *
+ * @param options Open dialog options
+ * @returns The opened files in the order picked (empty if the user cancelled)
+ */
+export async function openFiles(
+  options: OpenFileOptions
+): Promise<OpenedFile[]> {
+  return pickFiles(options, true)
+}
+
+async function pickFiles(
+  options: OpenFileOptions,
+  multiple: boolean
+): Promise<OpenedFile[]> {
+  if (isTauri()) {
+    const { open } = await import('@tauri-apps/plugin-dialog')
+    const { readFile } = await import('@tauri-apps/plugin-fs')
+
+    const picked = await open({
+      multiple,
+      directory: false,
+      filters: [{ name: options.filterName, extensions: options.extensions }],
+    })
+    if (!picked) return []
+
+    const paths = Array.isArray(picked) ? picked : [picked]
+    return Promise.all(
+      paths.map(async path => ({
+        name: path.split(/[\\/]/).pop() ?? path,
+        data: await readFile(path),
+      }))
+    )
+  }
+
+  // Browser file picker
+  return new Promise(resolve => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.multiple = multiple
+    input.accept = options.extensions.map(ext => `.${ext}`).join(',')
+    input.onchange = async () => {
+      const files = [...(input.files ?? [])]
+      resolve(
+        await Promise.all(
+          files.map(async file => ({
+            name: file.name,
+            data: new Uint8Array(await file.arrayBuffer()),
+          }))
+        )
+      )
+    }
+    input.oncancel = () => resolve([])
+    input.click()
+  })
+}
@@ -0,0 +1,60 @@
+/**
+ * Save generated files to disk
+ * Uses the Tauri dialog/fs plugins on desktop, and a browser download otherwise
+ */
+
+import { isTauri } from './tauri'
+
+export interface SaveFileOptions {
+  /** Suggested file name (e.g., "exam.zip") */
+  defaultPath: string
+  /** Display name of the file type in the save dialog */
+  filterName: string
+  /** Allowed file extensions without dot */
+  extensions: string[]
+}
+
+/**
+ * Save a blob to a user-chosen location
+ *
+ * @param blob File contents
+ * @param options Save dialog options
+ * @returns true if the file was saved, false if the user cancelled
+ *
+ * @example
+ * ```typescript
+ * const saved = await saveFile(blob, {
+ *   defaultPath: 'exam-versions.zip',
+ *   filterName: 'Zip archive',
+ *   extensions: ['zip'],
+ * })
+ * ```
+ */
+export async function saveFile(
+  blob: Blob,
+  options: SaveFileOptions
+): Promise<boolean> {
+  if (isTauri()) {
+    const { save } = await import('@tauri-apps/plugin-dialog')
+    const { writeFile } = await import('@tauri-apps/plugin-fs')
+
+    const path = await save({
+      filters: [{ name: options.filterName, extensions: options.extensions }],
+      defaultPath: options.defaultPath,
+    })
+    if (!path) return false
+
+    const buffer = await blob.arrayBuffer()
+    await writeFile(path, new Uint8Array(buffer))
+    return true
+  }
+
+  // Browser download
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.download = options.defaultPath
+  link.href = url
+  link.click()
+  URL.revokeObjectURL(url)
+  return true
+}
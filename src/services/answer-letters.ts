@@ -0,0 +1,78 @@
+/**
+ * Answer Letters Service
+ * Answer option letters (A, B, C...) limited by the configured option count
+ */
+
+import { ANSWER_LETTERS, type AnswerLetter } from '../types/mcq'
+
+/** Fewest answer options a question can be configured with */
+export const MIN_ANSWER_OPTIONS = 2
+
+/**
+ * Clamp a configured option count to the supported range (2–10)
+ * @param maxOptions Configured maximum option count
+ * @returns Option count between 2 and ANSWER_LETTERS.length
+ */
+export function clampMaxOptions(maxOptions: number): number {
+  if (!Number.isFinite(maxOptions)) return ANSWER_LETTERS.length
+  return Math.min(
+    ANSWER_LETTERS.length,
+    Math.max(MIN_ANSWER_OPTIONS, Math.floor(maxOptions))
+  )
+}
+
+/**
+ * Get the answer letters allowed for an option count
+ * @param maxOptions Maximum option count (e.g., 5 for A–E)
+ * @returns Uppercase letters (e.g., ["A", "B", "C", "D", "E"])
+ */
+export function getAnswerLetters(maxOptions: number): AnswerLetter[] {
+  return ANSWER_LETTERS.slice(0, clampMaxOptions(maxOptions))
+}
+
+/**
+ * Letter references inside answer text, e.g. "A and B", "Cả A, B và C"
+ * (two or more standalone letters joined by commas or and/or/và/hoặc), or a
+ * single letter after a word that names an option, e.g. "Only A", "Đáp án B"
+ * (a lone "A" elsewhere is more likely an article than a reference)
+ */
+const LETTER_REFERENCE_PATTERN =
+  /(?<![\p{L}\p{N}])[A-J](?:\s*(?:,|&|\band\b|\bor\b|và|hoặc)\s*[A-J](?![\p{L}\p{N}]))+|(?<=(?<![\p{L}\p{N}])(?:[Oo]nly|[Oo]ption|[Aa]nswer|[Cc]hoice|[Ee]xcept|[Nn]ot|[Cc]hỉ|[Đđ]áp án|[Pp]hương án|[Tt]rừ)\s+)[A-J](?![\p{L}\p{N}])/gu
+
+/**
+ * Check whether an answer may refer to other options by letter
+ * @param text Answer text
+ * @returns True for texts such as "Both A and C" or "Only B"
+ */
+export function hasLetterReference(text: string): boolean {
+  return text.search(LETTER_REFERENCE_PATTERN) >= 0
+}
+
+/**
+ * Rewrite letter references in an answer after its options were relettered
+ * Letters without a mapping are left unchanged
+ * @param text Answer text (e.g., "Both A and C")
+ * @param mapping Old letter → new letter for the question
+ * @returns Text with letters replaced (e.g., "Both D and B")
+ */
+export function rewriteLetterReferences(
+  text: string,
+  mapping: Map<string, string>
+): string {
+  return text.replace(LETTER_REFERENCE_PATTERN, reference =>
+    reference.replace(
+      /(?<![\p{L}\p{N}])[A-J](?![\p{L}\p{N}])/gu,
+      letter => mapping.get(letter) ?? letter
+    )
+  )
+}
+
+/**
+ * Build a regex character class body matching allowed letters in both cases
+ * @param maxOptions Maximum option count
+ * @returns Character class body (e.g., "A-Ea-e")
+ */
+export function answerLetterClass(maxOptions: number): string {
+  const last = getAnswerLetters(maxOptions).at(-1) ?? 'A'
+  return `A-${last}a-${last.toLowerCase()}`
+}
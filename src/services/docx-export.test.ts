@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { buildExamDocx } from './docx-export'
+import { parseMcq } from './parser'
+import { DEFAULT_EXAM_CONFIG, type ExamConfig } from '../types/mcq'
+
+const rows = parseMcq(
+  `### Part one
+1. First question?
+A. one
+*B. two
+
+2. Second question?
+*A. yes
+B. no`,
+  DEFAULT_EXAM_CONFIG.format
+)
+
+const config: ExamConfig = {
+  ...DEFAULT_EXAM_CONFIG,
+  startNumber: 5,
+  format: {
+    ...DEFAULT_EXAM_CONFIG.format,
+    questionPrefix: [''],
+    questionPostfix: ['. '],
+    answerPrefix: [''],
+    answerPostfix: ['. '],
+  },
+  header: {
+    schoolName: 'Green Valley High School',
+    subject: 'Biology',
+    duration: '45 minutes',
+    showStudentLine: true,
+  },
+}
+
+// jsdom's Blob has no arrayBuffer(), so read it with FileReader
+async function loadDocx(blob: Blob): Promise<JSZip> {
+  const data = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+  return JSZip.loadAsync(data)
+}
+
+// Text of each paragraph in a document part
+async function readParagraphs(zip: JSZip, path: string): Promise<string[]> {
+  const xml = (await zip.file(path)?.async('string')) ?? ''
+  return [...xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)].map(([paragraph]) =>
+    [...paragraph.matchAll(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>|<w:tab\/>/g)]
+      .map(([tag, text]) => (tag === '<w:tab/>' ? '\t' : (text ?? '')))
+      .join('')
+  )
+}
+
+describe('buildExamDocx', () => {
+  it('writes the header block, numbered questions and exam code', async () => {
+    const zip = await loadDocx(
+      await buildExamDocx(rows, config, { examCode: '101' })
+    )
+    const paragraphs = await readParagraphs(zip, 'word/document.xml')
+
+    expect(paragraphs.slice(0, 4)).toEqual([
+      'GREEN VALLEY HIGH SCHOOL',
+      'Biology',
+      'Duration: 45 minutes\tExam code: 101',
+      'Full name: ..............................................\tStudent ID: ....................',
+    ])
+    expect(paragraphs).toContain('5. First question?')
+    expect(paragraphs).toContain('6. Second question?')
+    expect(paragraphs).toContain('B. two')
+
+    const footer = zip.file(/^word\/footer\d*\.xml$/)[0]
+    expect(await footer?.async('string')).toContain('Exam code 101')
+  })
+
+  it('leaves out empty header fields and the exam code', async () => {
+    const zip = await loadDocx(
+      await buildExamDocx(rows, {
+        ...DEFAULT_EXAM_CONFIG,
+        header: { ...DEFAULT_EXAM_CONFIG.header, showStudentLine: false },
+      })
+    )
+    const paragraphs = await readParagraphs(zip, 'word/document.xml')
+
+    expect(paragraphs.join('\n')).not.toContain('Exam code')
+    expect(paragraphs.filter(Boolean)[0]).toBe('Part one')
+    expect(paragraphs).toContain('(1)First question?')
+  })
+})
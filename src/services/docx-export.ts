@@ -0,0 +1,315 @@
+/**
+ * DOCX Export Service
+ * Builds Word documents from parsed MCQ rows
+ */
+
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TabStopType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import type { ExamConfig, ParsedRow, RowAttachment } from '../types/mcq'
+import {
+  formatAnswerLabel,
+  formatQuestionLabel,
+  formatQuestionPoints,
+  formatSectionTitle,
+} from './generator'
+
+/** Twentieths of a point per centimetre */
+const TWIPS_PER_CM = 567
+
+/** Hanging indents (in twips) for question and answer labels */
+const QUESTION_INDENT = { left: TWIPS_PER_CM, hanging: TWIPS_PER_CM }
+const ANSWER_INDENT = { left: 992, hanging: 425 }
+
+/** Body font size in half-points (12pt) */
+const FONT_SIZE = 24
+
+/**
+ * Options for a single exported exam
+ */
+export interface DocxExportOptions {
+  /** Exam code printed in the header (omitted when empty) */
+  examCode?: string
+}
+
+/**
+ * Split text into runs, turning line breaks into Word line breaks
+ */
+function textRuns(text: string, bold = false): TextRun[] {
+  return text
+    .split('\n')
+    .map(
+      (line, index) =>
+        new TextRun({ text: line, bold, break: index > 0 ? 1 : 0 })
+    )
+}
+
+/** Image types supported by ImageRun, keyed by data URL MIME type */
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+}
+
+/**
+ * Build paragraphs/tables for row attachments (images and tables)
+ * Images in unsupported formats are skipped
+ */
+function buildAttachments(
+  attachments: RowAttachment[] | undefined,
+  indent: { left: number }
+): (Paragraph | Table)[] {
+  return (attachments ?? []).flatMap((attachment): (Paragraph | Table)[] => {
+    if (attachment.type === 'table') {
+      return [
+        new Table({
+          indent: { size: indent.left, type: WidthType.DXA },
+          rows: attachment.cells.map(
+            cells =>
+              new TableRow({
+                children: cells.map(
+                  cell =>
+                    new TableCell({
+                      children: [new Paragraph({ children: textRuns(cell) })],
+                    })
+                ),
+              })
+          ),
+        }),
+      ]
+    }
+
+    const match = /^data:([^;]+);base64,(.*)$/.exec(attachment.src)
+    const type = match?.[1] ? IMAGE_TYPES[match[1]] : undefined
+    if (!match?.[2] || !type) return []
+
+    return [
+      new Paragraph({
+        indent: { left: indent.left },
+        children: [
+          new ImageRun({
+            type,
+            data: Uint8Array.from(atob(match[2]), c => c.charCodeAt(0)),
+            transformation: {
+              width: attachment.width,
+              height: attachment.height,
+            },
+          }),
+        ],
+      }),
+    ]
+  })
+}
+
+/**
+ * Build the header block (school, subject, duration, exam code, student line)
+ */
+function buildHeader(config: ExamConfig, examCode?: string): Paragraph[] {
+  const { header } = config
+  const paragraphs: Paragraph[] = []
+
+  if (header.schoolName) {
+    paragraphs.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({ text: header.schoolName.toUpperCase(), bold: true }),
+        ],
+      })
+    )
+  }
+
+  if (header.subject) {
+    paragraphs.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: header.subject, bold: true, size: 28 })],
+      })
+    )
+  }
+
+  const details: TextRun[] = []
+  if (header.duration) {
+    details.push(new TextRun({ text: `Duration: ${header.duration}` }))
+  }
+  if (examCode) {
+    details.push(new TextRun({ text: `\tExam code: ${examCode}`, bold: true }))
+  }
+  if (details.length > 0) {
+    paragraphs.push(
+      new Paragraph({
+        tabStops: [{ type: TabStopType.RIGHT, position: 9000 }],
+        children: details,
+      })
+    )
+  }
+
+  if (header.showStudentLine) {
+    paragraphs.push(
+      new Paragraph({
+        spacing: { before: 240 },
+        tabStops: [{ type: TabStopType.RIGHT, position: 9000 }],
+        children: [
+          new TextRun({
+            text: 'Full name: ..............................................',
+          }),
+          new TextRun({ text: '\tStudent ID: ....................' }),
+        ],
+      })
+    )
+  }
+
+  if (paragraphs.length > 0) {
+    paragraphs.push(new Paragraph({ children: [] }))
+  }
+
+  return paragraphs
+}
+
+/**
+ * Build the body paragraphs (sections, questions and answers)
+ * Questions are kept on the same page as their answers
+ */
+function buildBody(
+  rows: ParsedRow[],
+  config: ExamConfig
+): (Paragraph | Table)[] {
+  const paragraphs: (Paragraph | Table)[] = []
+  let currentQuestionNum = config.startNumber
+  let currentSectionNum = 1
+
+  rows.forEach((row, index) => {
+    const nextRow = rows[index + 1]
+
+    if (row.type === 'section') {
+      paragraphs.push(
+        new Paragraph({
+          keepNext: true,
+          spacing: { before: 240, after: 120 },
+          children: textRuns(
+            formatSectionTitle(row.text, currentSectionNum++, config.format),
+            true
+          ),
+        })
+      )
+    } else if (row.type === 'group') {
+      // Passage stays on the page of its first question
+      paragraphs.push(
+        new Paragraph({
+          keepNext: true,
+          spacing: { after: 120 },
+          children: textRuns(row.text),
+        }),
+        ...buildAttachments(row.attachments, { left: 0 })
+      )
+    } else if (row.type === 'question') {
+      const label = formatQuestionLabel(currentQuestionNum, config.format)
+      const points = formatQuestionPoints(row, config)
+      paragraphs.push(
+        new Paragraph({
+          keepNext: true,
+          keepLines: true,
+          indent: QUESTION_INDENT,
+          children: [
+            new TextRun({ text: label, bold: true }),
+            ...(points ? [new TextRun({ text: points, italics: true })] : []),
+            ...textRuns(row.text),
+          ],
+        }),
+        ...buildAttachments(row.attachments, QUESTION_INDENT)
+      )
+      currentQuestionNum++
+    } else if (row.type === 'answer') {
+      const label = formatAnswerLabel(row.label, config.format)
+      paragraphs.push(
+        new Paragraph({
+          keepNext: nextRow?.type === 'answer',
+          keepLines: true,
+          indent: ANSWER_INDENT,
+          children: [new TextRun({ text: label }), ...textRuns(row.text)],
+        }),
+        ...buildAttachments(row.attachments, ANSWER_INDENT)
+      )
+    } else if (row.type === 'empty') {
+      paragraphs.push(new Paragraph({ children: [] }))
+    }
+  })
+
+  return paragraphs
+}
+
+/**
+ * Build a Word document for one exam
+ * @param rows Parsed and potentially shuffled rows
+ * @param config Exam configuration (format settings and header block)
+ * @param options Export options
+ * @returns .docx file blob
+ */
+export async function buildExamDocx(
+  rows: ParsedRow[],
+  config: ExamConfig,
+  options: DocxExportOptions = {}
+): Promise<Blob> {
+  const doc = new Document({
+    styles: {
+      default: {
+        document: { run: { size: FONT_SIZE, font: 'Times New Roman' } },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: TWIPS_PER_CM * 2,
+              bottom: TWIPS_PER_CM * 2,
+              left: TWIPS_PER_CM * 2,
+              right: TWIPS_PER_CM * 2,
+            },
+          },
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({
+                    children: [
+                      'Page ',
+                      PageNumber.CURRENT,
+                      ' / ',
+                      PageNumber.TOTAL_PAGES,
+                      ...(options.examCode
+                        ? [` – Exam code ${options.examCode}`]
+                        : []),
+                    ],
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: [
+          ...buildHeader(config, options.examCode),
+          ...buildBody(rows, config),
+        ],
+      },
+    ],
+  })
+
+  return Packer.toBlob(doc)
+}
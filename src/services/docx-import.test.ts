@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { attachImportedMedia, importDocx } from './docx-import'
+import { parseMcq } from './parser'
+import type { FormatSettings } from '../types/mcq'
+
+const formatSettings: FormatSettings = {
+  questionPrefix: ['Câu ', ''],
+  questionPostfix: ['. ', ': '],
+  answerPrefix: ['', ''],
+  answerPostfix: ['. ', '). '],
+  answerLowercase: false,
+  correctPrefix: ['*'],
+  maxOptions: 5,
+  sectionKeywords: [],
+  anchorPhrases: [],
+}
+
+const run = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`
+
+const paragraph = (...runs: string[]) => `<w:p>${runs.join('')}</w:p>`
+
+async function buildDocx(body: string, image = false): Promise<Uint8Array> {
+  const zip = new JSZip()
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"
+  xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+  xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"
+  xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+  <w:body>${body}</w:body>
+</w:document>`
+  )
+  if (image) {
+    zip.file(
+      'word/_rels/document.xml.rels',
+      `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId5" Type="image" Target="media/image1.png"/>
+</Relationships>`
+    )
+    zip.file('word/media/image1.png', new Uint8Array([137, 80, 78, 71]))
+  }
+  return zip.generateAsync({ type: 'uint8array' })
+}
+
+describe('importDocx', () => {
+  it('marks bold, underlined or highlighted answers as correct', async () => {
+    const data = await buildDocx(
+      [
+        paragraph(run('Câu 1: What is 1 + 1?')),
+        paragraph(run('A. 1')),
+        paragraph(run('B. 2', '<w:b/>')),
+        paragraph(run('C. 3')),
+        paragraph(run('2. Pick one')),
+        paragraph(run('A. x  '), run('B. y', '<w:u w:val="single"/>')),
+      ].join('')
+    )
+
+    const { text } = await importDocx(data, formatSettings)
+
+    expect(text).toBe(
+      [
+        'Câu 1: What is 1 + 1?',
+        'A. 1',
+        '*B. 2',
+        'C. 3',
+        '2. Pick one',
+        'A. x  *B. y',
+      ].join('\n')
+    )
+    const keys = parseMcq(text, formatSettings).filter(row => row.isKey)
+    expect(keys.map(row => row.text)).toEqual(['2', 'y'])
+  })
+
+  it('ignores emphasis when every option is emphasized', async () => {
+    const data = await buildDocx(
+      [
+        paragraph(run('1. Question')),
+        paragraph(run('A. yes', '<w:b/>')),
+        paragraph(run('B. no', '<w:b/>')),
+      ].join('')
+    )
+
+    const { text } = await importDocx(data, formatSettings)
+
+    expect(text).not.toContain('*')
+  })
+
+  it('does not treat bold="0" or italics as a key', async () => {
+    const data = await buildDocx(
+      [
+        paragraph(run('1. Question')),
+        paragraph(run('A. yes', '<w:b w:val="0"/><w:i/>')),
+        paragraph(run('B. no')),
+      ].join('')
+    )
+
+    const { text } = await importDocx(data, formatSettings)
+
+    expect(text).not.toContain('*')
+  })
+
+  it('attaches tables and images to the row they appear in', async () => {
+    const drawing =
+      '<w:r><w:drawing><wp:inline><wp:extent cx="952500" cy="476250"/>' +
+      '<a:graphic><a:graphicData><a:blip r:embed="rId5"/></a:graphicData></a:graphic>' +
+      '</wp:inline></w:drawing></w:r>'
+    const table =
+      '<w:tbl><w:tr><w:tc><w:p>' +
+      run('x') +
+      '</w:p></w:tc><w:tc><w:p>' +
+      run('y') +
+      '</w:p></w:tc></w:tr></w:tbl>'
+    const data = await buildDocx(
+      [
+        paragraph(run('1. Look at the table')),
+        table,
+        paragraph(run('A. first')),
+        paragraph(run('B. second '), drawing),
+      ].join(''),
+      true
+    )
+
+    const { text, attachments } = await importDocx(data, formatSettings)
+    const rows = attachImportedMedia(
+      parseMcq(text, formatSettings),
+      attachments
+    )
+
+    const question = rows.find(row => row.type === 'question')
+    expect(question?.text).toBe('Look at the table')
+    expect(question?.attachments).toEqual([
+      { type: 'table', cells: [['x', 'y']] },
+    ])
+
+    const answer = rows.find(row => row.type === 'answer' && row.label === 'B')
+    expect(answer?.text).toBe('second')
+    expect(answer?.attachments).toEqual([
+      {
+        type: 'image',
+        src: 'data:image/png;base64,iVBORw==',
+        width: 100,
+        height: 50,
+      },
+    ])
+  })
+
+  it('rejects files without a document part', async () => {
+    const zip = new JSZip()
+    zip.file('hello.txt', 'hi')
+    const data = await zip.generateAsync({ type: 'uint8array' })
+
+    await expect(importDocx(data, formatSettings)).rejects.toThrow(
+      'Not a Word document'
+    )
+  })
+})
@@ -0,0 +1,365 @@
+/**
+ * DOCX Import Service
+ * Extracts question text from Word documents into the format parseMcq understands
+ *
+ * Emphasized answer options (bold, underlined or highlighted) are treated as the
+ * correct key, a common convention in Vietnamese question banks. Inline images
+ * and tables are replaced by placeholder tokens and attached to their row after
+ * parsing (see attachImportedMedia).
+ */
+
+import JSZip from 'jszip'
+import type { FormatSettings, ParsedRow, RowAttachment } from '../types/mcq'
+import { buildLabelPatterns, type LabelPatterns } from './parser'
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const R_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const WP_NS =
+  'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing'
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main'
+
+/** EMUs per CSS pixel */
+const EMU_PER_PX = 9525
+
+/** Placeholder token for an attachment, e.g. "{{attachment:0}}" */
+const ATTACHMENT_TOKEN = /\{\{attachment:(\d+)\}\}/g
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+}
+
+/**
+ * Result of importing a Word document
+ */
+export interface DocxImportResult {
+  /** Question text, with "{{attachment:N}}" tokens for images and tables */
+  text: string
+  /** Attachments referenced by the tokens in text */
+  attachments: RowAttachment[]
+}
+
+/**
+ * Paragraph text with a per-character emphasis flag
+ */
+interface EmphasizedText {
+  text: string
+  emphasized: boolean[]
+}
+
+/**
+ * Answer option found in a paragraph
+ */
+interface AnswerSegment {
+  paragraph: number
+  /** Index of the answer letter in the paragraph text */
+  start: number
+  emphasized: boolean
+}
+
+/**
+ * Get a child element by namespace and local name
+ */
+function child(element: Element, ns: string, name: string): Element | null {
+  for (const node of Array.from(element.children)) {
+    if (node.namespaceURI === ns && node.localName === name) return node
+  }
+  return null
+}
+
+/**
+ * Check whether a run property is switched on (e.g., <w:b/>, <w:b w:val="1"/>)
+ */
+function isOn(element: Element | null, offValues: string[]): boolean {
+  if (!element) return false
+  const value = element.getAttributeNS(W_NS, 'val')
+  return value === null || value === '' || !offValues.includes(value)
+}
+
+/**
+ * Whether a run is bold, underlined or highlighted
+ */
+function isRunEmphasized(run: Element): boolean {
+  const props = child(run, W_NS, 'rPr')
+  if (!props) return false
+
+  const shading = child(props, W_NS, 'shd')
+  const fill = shading?.getAttributeNS(W_NS, 'fill')?.toLowerCase()
+
+  return (
+    isOn(child(props, W_NS, 'b'), ['0', 'false']) ||
+    isOn(child(props, W_NS, 'u'), ['none']) ||
+    isOn(child(props, W_NS, 'highlight'), ['none']) ||
+    (!!fill && fill !== 'auto' && fill !== 'ffffff')
+  )
+}
+
+/**
+ * Load the relationship map (rId → target path inside the zip)
+ */
+async function loadRelationships(zip: JSZip): Promise<Map<string, string>> {
+  const relationships = new Map<string, string>()
+  const xml = await zip.file('word/_rels/document.xml.rels')?.async('string')
+  if (!xml) return relationships
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  for (const rel of Array.from(doc.getElementsByTagName('Relationship'))) {
+    const id = rel.getAttribute('Id')
+    const target = rel.getAttribute('Target')
+    if (id && target) {
+      relationships.set(
+        id,
+        target.replace(/^\//, '').replace(/^(?!word\/)/, 'word/')
+      )
+    }
+  }
+  return relationships
+}
+
+/**
+ * Converts document XML into emphasized paragraphs and attachments
+ */
+class DocxTextExtractor {
+  readonly paragraphs: EmphasizedText[] = []
+  readonly attachments: RowAttachment[] = []
+
+  constructor(
+    private readonly zip: JSZip,
+    private readonly relationships: Map<string, string>
+  ) {}
+
+  async extractBody(body: Element): Promise<void> {
+    for (const node of Array.from(body.children)) {
+      if (node.namespaceURI !== W_NS) continue
+      if (node.localName === 'p') {
+        this.paragraphs.push(await this.extractParagraph(node))
+      } else if (node.localName === 'tbl') {
+        const token = this.addAttachment({
+          type: 'table',
+          cells: this.extractTable(node),
+        })
+        this.paragraphs.push({
+          text: token,
+          emphasized: Array.from(token, () => false),
+        })
+      }
+    }
+  }
+
+  private addAttachment(attachment: RowAttachment): string {
+    this.attachments.push(attachment)
+    return `{{attachment:${this.attachments.length - 1}}}`
+  }
+
+  private async extractParagraph(paragraph: Element): Promise<EmphasizedText> {
+    const result: EmphasizedText = { text: '', emphasized: [] }
+    const append = (text: string, emphasized: boolean) => {
+      result.text += text
+      result.emphasized.push(...Array.from(text, () => emphasized))
+    }
+
+    // Runs may be nested in hyperlinks, insertions, smart tags...
+    const runs = Array.from(paragraph.getElementsByTagNameNS(W_NS, 'r'))
+    for (const run of runs) {
+      const emphasized = isRunEmphasized(run)
+      for (const node of Array.from(run.children)) {
+        if (node.namespaceURI === W_NS) {
+          if (node.localName === 't') append(node.textContent ?? '', emphasized)
+          else if (node.localName === 'tab') append('\t', false)
+          else if (node.localName === 'br' || node.localName === 'cr')
+            append('\n', false)
+          else if (node.localName === 'drawing') {
+            const token = await this.extractDrawing(node)
+            if (token) append(token, false)
+          }
+        }
+      }
+    }
+
+    return result
+  }
+
+  private async extractDrawing(drawing: Element): Promise<string | null> {
+    const blip = drawing.getElementsByTagNameNS(A_NS, 'blip')[0]
+    const relId = blip?.getAttributeNS(R_NS, 'embed')
+    const path = relId ? this.relationships.get(relId) : undefined
+    const file = path ? this.zip.file(path) : null
+    if (!path || !file) return null
+
+    const extension = path.split('.').pop()?.toLowerCase() ?? ''
+    const mime = IMAGE_MIME_TYPES[extension] ?? 'application/octet-stream'
+    const base64 = await file.async('base64')
+
+    const extent = drawing.getElementsByTagNameNS(WP_NS, 'extent')[0]
+    const width = Number(extent?.getAttribute('cx') ?? 0) / EMU_PER_PX
+    const height = Number(extent?.getAttribute('cy') ?? 0) / EMU_PER_PX
+
+    return this.addAttachment({
+      type: 'image',
+      src: `data:${mime};base64,${base64}`,
+      width: Math.round(width) || 200,
+      height: Math.round(height) || 150,
+    })
+  }
+
+  private extractTable(table: Element): string[][] {
+    return Array.from(table.children)
+      .filter(row => row.namespaceURI === W_NS && row.localName === 'tr')
+      .map(row =>
+        Array.from(row.children)
+          .filter(cell => cell.namespaceURI === W_NS && cell.localName === 'tc')
+          .map(cell =>
+            Array.from(cell.getElementsByTagNameNS(W_NS, 't'))
+              .map(text => text.textContent ?? '')
+              .join('')
+              .trim()
+          )
+      )
+  }
+}
+
+/**
+ * Find answer options in paragraphs and decide which ones are emphasized
+ * Options must appear in letter order (A, B, C...) within a question so that
+ * a stray "vitamin A." in a question stem is not taken for an option.
+ */
+function findAnswerSegments(
+  paragraphs: EmphasizedText[],
+  patterns: LabelPatterns
+): AnswerSegment[][] {
+  // Answer label at line start or after whitespace (e.g., "A.", "b)", "[C]")
+  const answerMarker = new RegExp(`(^|\\s)${patterns.answer}(?=\\s)`, 'g')
+  // Question label at paragraph start (e.g., "1.", "Câu 3:" when configured)
+  const questionStart = new RegExp(`^\\s*${patterns.question}`, 'i')
+  const questions: AnswerSegment[][] = [[]]
+  let expectedLetter = 0
+
+  paragraphs.forEach((paragraph, index) => {
+    if (questionStart.test(paragraph.text)) {
+      questions.push([])
+      expectedLetter = 0
+    }
+
+    const markers: number[] = []
+    for (const match of paragraph.text.matchAll(answerMarker)) {
+      const letter = (match[2] ?? '').toUpperCase().charCodeAt(0) - 65
+      if (letter !== expectedLetter && letter !== 0) continue
+      expectedLetter = letter + 1
+      markers.push((match.index ?? 0) + (match[1]?.length ?? 0))
+    }
+
+    markers.forEach((start, i) => {
+      const end = markers[i + 1] ?? paragraph.text.length
+      let emphasizedCount = 0
+      let total = 0
+      for (let c = start; c < end; c++) {
+        if (/\s/.test(paragraph.text[c] ?? '')) continue
+        total++
+        if (paragraph.emphasized[c]) emphasizedCount++
+      }
+
+      questions[questions.length - 1]?.push({
+        paragraph: index,
+        start,
+        emphasized:
+          !!paragraph.emphasized[start] || emphasizedCount * 2 >= total,
+      })
+    })
+  })
+
+  return questions
+}
+
+/**
+ * Import a Word document as question text
+ * @param data .docx file contents
+ * @param formatSettings Format settings (label formats, correct answer marker)
+ * @returns Question text and attachments
+ */
+export async function importDocx(
+  data: ArrayBuffer | Uint8Array,
+  formatSettings: FormatSettings
+): Promise<DocxImportResult> {
+  const zip = await JSZip.loadAsync(data)
+  const documentXml = await zip.file('word/document.xml')?.async('string')
+  if (!documentXml) throw new Error('Not a Word document')
+
+  const doc = new DOMParser().parseFromString(documentXml, 'application/xml')
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0]
+  if (!body) throw new Error('Word document has no body')
+
+  const extractor = new DocxTextExtractor(zip, await loadRelationships(zip))
+  await extractor.extractBody(body)
+
+  // Mark emphasized options as correct, unless every option of a
+  // question is emphasized (then the emphasis is just styling)
+  const correctMarker = formatSettings.correctPrefix[0] ?? '*'
+  const keyPositions = new Map<number, number[]>()
+  const patterns = buildLabelPatterns(formatSettings)
+  findAnswerSegments(extractor.paragraphs, patterns).forEach(segments => {
+    const keyed = segments.filter(segment => segment.emphasized)
+    if (keyed.length === 0 || keyed.length === segments.length) return
+    keyed.forEach(segment => {
+      const positions = keyPositions.get(segment.paragraph) ?? []
+      positions.push(segment.start)
+      keyPositions.set(segment.paragraph, positions)
+    })
+  })
+
+  // Labels are kept as written; parseMcq reads them with the same settings
+  const lines = extractor.paragraphs.map((paragraph, index) => {
+    let text = paragraph.text
+    const positions = keyPositions.get(index) ?? []
+    // Insert from the end so earlier positions stay valid
+    ;[...positions]
+      .sort((a, b) => b - a)
+      .forEach(position => {
+        text = text.slice(0, position) + correctMarker + text.slice(position)
+      })
+    return text
+  })
+
+  return {
+    text: lines
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+    attachments: extractor.attachments,
+  }
+}
+
+/**
+ * Move attachment tokens out of row text into row attachments
+ * Tokens without a matching attachment are left in the text
+ * @param rows Parsed rows
+ * @param attachments Attachments from importDocx
+ * @returns Rows with attachments set
+ */
+export function attachImportedMedia(
+  rows: ParsedRow[],
+  attachments: RowAttachment[]
+): ParsedRow[] {
+  if (attachments.length === 0) return rows
+
+  return rows.map(row => {
+    const rowAttachments: RowAttachment[] = []
+    const text = row.text.replace(ATTACHMENT_TOKEN, (token, index: string) => {
+      const attachment = attachments[Number(index)]
+      if (!attachment) return token
+      rowAttachments.push(attachment)
+      return ''
+    })
+
+    if (rowAttachments.length === 0) return row
+    return {
+      ...row,
+      text: text.replace(/[ \t]*\n[ \t]*\n+/g, '\n').trim(),
+      attachments: [...(row.attachments ?? []), ...rowAttachments],
+    }
+  })
+}
@@ -3,7 +3,258 @@
  * Generates formatted exam output from parsed MCQ rows
  */
 
-import type { ParsedRow, ExamConfig } from '../types/mcq'
+import {
+  DEFAULT_QUESTION_POINTS,
+  type ParsedRow,
+  type ExamConfig,
+  type AnswerKeyEntry,
+  type FormatSettings,
+  type RowAttachment,
+} from '../types/mcq'
+import { LABEL_PRESETS } from './label-presets'
+import { buildSectionPattern } from './parser'
+
+/**
+ * Format a question label using the output format settings
+ * @param questionNumber Question number
+ * @param format Format settings
+ * @returns Label including prefix and postfix (e.g., "1) ")
+ */
+export function formatQuestionLabel(
+  questionNumber: number,
+  format: FormatSettings
+): string {
+  const prefix = format.questionPrefix[0] ?? ''
+  const postfix = format.questionPostfix[0] ?? ') '
+  return `${prefix}${questionNumber}${postfix}`
+}
+
+/**
+ * Format an answer label using the output format settings
+ * @param letter Answer letter (uppercase)
+ * @param format Format settings
+ * @returns Label including prefix and postfix (e.g., "A) ")
+ */
+export function formatAnswerLabel(
+  letter: string,
+  format: FormatSettings
+): string {
+  const prefix = format.answerPrefix[0] ?? ''
+  const postfix = format.answerPostfix[0] ?? ') '
+  return `${prefix}${format.answerLowercase ? letter.toLowerCase() : letter}${postfix}`
+}
+
+/**
+ * Get the point value of a question row
+ * @param row Question row
+ * @returns Points, or DEFAULT_QUESTION_POINTS when none are given
+ */
+export function getQuestionPoints(row: ParsedRow): number {
+  return row.points ?? DEFAULT_QUESTION_POINTS
+}
+
+/**
+ * Format a point value for display, rounded to two decimals
+ * @param points Point value
+ * @returns Text (e.g., "0.25")
+ */
+export function formatPoints(points: number): string {
+  return (Math.round(points * 100) / 100).toString()
+}
+
+/**
+ * Format the point value printed after a question label
+ * @param row Question row
+ * @param config Exam configuration
+ * @returns Text (e.g., "(0.25 points) "), or empty string if points are hidden
+ */
+export function formatQuestionPoints(
+  row: ParsedRow,
+  config: ExamConfig
+): string {
+  if (!config.showPoints) return ''
+  const points = getQuestionPoints(row)
+  return `(${formatPoints(points)} ${points === 1 ? 'point' : 'points'}) `
+}
+
+/**
+ * Convert a number to a Roman numeral
+ * @param value Positive integer
+ * @returns Uppercase Roman numeral (e.g., 4 → "IV")
+ */
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'],
+    [900, 'CM'],
+    [500, 'D'],
+    [400, 'CD'],
+    [100, 'C'],
+    [90, 'XC'],
+    [50, 'L'],
+    [40, 'XL'],
+    [10, 'X'],
+    [9, 'IX'],
+    [5, 'V'],
+    [4, 'IV'],
+    [1, 'I'],
+  ]
+  let remaining = value
+  let result = ''
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral
+      remaining -= amount
+    }
+  }
+  return result
+}
+
+/**
+ * Format a section number in the style of an existing numeral
+ * Single letters other than I, V and X are treated as letters ("A", "B", ...)
+ * @param sectionNumber Section number (1-based)
+ * @param sample Numeral from the source heading (defaults to Roman)
+ * @returns Numeral in the same style and case
+ */
+function formatSectionNumeral(sectionNumber: number, sample = 'I'): string {
+  let numeral: string
+  if (/^\d+$/.test(sample)) {
+    numeral = sectionNumber.toString()
+  } else if (/^[a-z]$/i.test(sample) && !/^[ivx]$/i.test(sample)) {
+    numeral =
+      sectionNumber <= 26
+        ? String.fromCharCode(64 + sectionNumber)
+        : sectionNumber.toString()
+  } else {
+    numeral = toRoman(sectionNumber)
+  }
+  return sample === sample.toLowerCase() ? numeral.toLowerCase() : numeral
+}
+
+/**
+ * Format a section title using the output section keywords
+ * Keyword headings from any preset (e.g., "Part 2: Reading") are renumbered
+ * in their own numeral style and case; other titles get a Roman-numbered
+ * heading (e.g., "Grammar" → "Phần I. Grammar").
+ * Titles are returned unchanged when no section keywords are configured.
+ * @param title Section title
+ * @param sectionNumber Section number in the output (1-based)
+ * @param format Format settings
+ * @returns Section title (e.g., "PHẦN II. Đọc hiểu")
+ */
+export function formatSectionTitle(
+  title: string,
+  sectionNumber: number,
+  format: FormatSettings
+): string {
+  const keyword = format.sectionKeywords[0]?.trim()
+  if (!keyword) return title
+
+  const knownKeywords = [
+    ...format.sectionKeywords,
+    ...Object.values(LABEL_PRESETS).flatMap(
+      preset => preset.settings.sectionKeywords
+    ),
+  ]
+  const source = buildSectionPattern(knownKeywords)
+  const match = source
+    ? new RegExp(`^\\s*${source}(.*)$`, 'su').exec(title.normalize('NFC'))
+    : null
+
+  if (!match) {
+    return `${keyword} ${formatSectionNumeral(sectionNumber)}. ${title}`
+  }
+
+  const [, sourceKeyword = '', sample, rest = ''] = match
+  const isUpperCase =
+    sourceKeyword === sourceKeyword.toUpperCase() &&
+    sourceKeyword !== sourceKeyword.toLowerCase()
+  return `${isUpperCase ? keyword.toUpperCase() : keyword} ${formatSectionNumeral(sectionNumber, sample)}${rest}`
+}
+
+/**
+ * Indent the continuation lines of a multi-line text
+ * @param text Row text
+ * @param indent Indent for every line after the first
+ * @returns Text with indented continuation lines
+ */
+function indentContinuation(text: string, indent: string): string {
+  return text.split('\n').join(`\n${indent}`)
+}
+
+/**
+ * Escape text for use in HTML
+ * @param text Plain text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Format a multi-line text as HTML
+ * Line breaks become <br> and leading spaces are kept (e.g., code snippets)
+ * @param text Plain text
+ * @param indent HTML indent for every line after the first
+ * @returns HTML string
+ */
+function formatTextHtml(text: string, indent = ''): string {
+  return text
+    .split('\n')
+    .map(line =>
+      escapeHtml(line).replace(/^ +/, spaces => '&nbsp;'.repeat(spaces.length))
+    )
+    .join(`<br>${indent}`)
+}
+
+/**
+ * Format row attachments as plain text
+ * Images become "[Image]" and tables become pipe-separated lines
+ * @param attachments Row attachments
+ * @param indent Indent for each line
+ * @returns Text lines (with trailing newline), or empty string
+ */
+function formatAttachmentsText(
+  attachments: RowAttachment[] | undefined,
+  indent: string
+): string {
+  return (attachments ?? [])
+    .flatMap(attachment =>
+      attachment.type === 'image'
+        ? ['[Image]']
+        : attachment.cells.map(cells => `| ${cells.join(' | ')} |`)
+    )
+    .map(line => `${indent}${line}\n`)
+    .join('')
+}
+
+/**
+ * Format row attachments as HTML (img / table elements)
+ * @param attachments Row attachments
+ * @returns HTML string, or empty string
+ */
+function formatAttachmentsHtml(
+  attachments: RowAttachment[] | undefined
+): string {
+  return (attachments ?? [])
+    .map(attachment => {
+      if (attachment.type === 'image') {
+        return `<img src="${attachment.src}" width="${attachment.width}" height="${attachment.height}"><br>`
+      }
+      const rows = attachment.cells
+        .map(
+          cells =>
+            `<tr>${cells.map(cell => `<td style="border:1px solid;padding:2px 6px">${formatTextHtml(cell)}</td>`).join('')}</tr>`
+        )
+        .join('')
+      return `<table style="border-collapse:collapse">${rows}</table>`
+    })
+    .join('')
+}
 
 /**
  * Generate exam output text from parsed rows
@@ -17,22 +268,31 @@ export function generateExamOutput(
 ): string {
   let output = ''
   let currentQuestionNum = config.startNumber
+  let currentSectionNum = 1
 
   for (const row of rows) {
     if (row.type === 'section') {
-      output += `\n${row.text}\n\n`
+      const title = formatSectionTitle(
+        row.text,
+        currentSectionNum++,
+        config.format
+      )
+      output += `\n${title}\n\n`
+    } else if (row.type === 'group') {
+      // Passage is printed once, before the questions of its group
+      output += `${row.text}\n`
+      output += formatAttachmentsText(row.attachments, '')
     } else if (row.type === 'question') {
-      const prefix = config.format.questionPrefix[0] ?? ''
-      const postfix = config.format.questionPostfix[0] ?? ') '
-      output += `${prefix}${currentQuestionNum}${postfix}${row.text}\n`
+      const label = formatQuestionLabel(currentQuestionNum, config.format)
+      output += `${label}${formatQuestionPoints(row, config)}${row.text}\n`
+      output += formatAttachmentsText(row.attachments, '')
       currentQuestionNum++
     } else if (row.type === 'answer') {
-      const letter = config.format.answerLowercase
-        ? row.label.toLowerCase()
-        : row.label
-      const prefix = config.format.answerPrefix[0] ?? ''
-      const postfix = config.format.answerPostfix[0] ?? ') '
-      output += `   ${prefix}${letter}${postfix}${row.text}\n`
+      const label = formatAnswerLabel(row.label, config.format)
+      // Continuation lines line up with the first line of the answer text
+      const text = indentContinuation(row.text, ' '.repeat(3 + label.length))
+      output += `   ${label}${text}\n`
+      output += formatAttachmentsText(row.attachments, '      ')
     } else if (row.type === 'empty') {
       output += '\n'
     }
@@ -41,41 +301,216 @@ export function generateExamOutput(
   return output.trim()
 }
 
+/** Badge shown after locked rows in the preview */
+const LOCK_BADGE_HTML =
+  ' <span title="Locked in place" style="font-size:0.75em;opacity:0.6">&#128274;</span>'
+
 /**
- * Generate answer key from parsed rows
+ * Generate exam output HTML (for rich clipboard copy and preview)
+ * @param rows Parsed and potentially shuffled rows
+ * @param config Exam configuration
+ * @param options lockBadges: mark locked rows (preview only)
+ * @returns Formatted exam HTML
+ */
+export function generateExamHtml(
+  rows: ParsedRow[],
+  config: ExamConfig,
+  options: { lockBadges?: boolean } = {}
+): string {
+  let output = ''
+  let currentQuestionNum = config.startNumber
+  let currentSectionNum = 1
+
+  for (const row of rows) {
+    const badge = options.lockBadges && row.locked ? LOCK_BADGE_HTML : ''
+    if (row.type === 'section') {
+      const title = formatSectionTitle(
+        row.text,
+        currentSectionNum++,
+        config.format
+      )
+      output += `<b>${formatTextHtml(title)}</b>${badge}<br><br>`
+    } else if (row.type === 'group') {
+      output += `${formatTextHtml(row.text)}${badge}<br>`
+      output += formatAttachmentsHtml(row.attachments)
+    } else if (row.type === 'question') {
+      const label = formatQuestionLabel(currentQuestionNum, config.format)
+      const points = formatQuestionPoints(row, config)
+      output += `<b>${formatTextHtml(label + points + row.text)}</b>${badge}<br>`
+      output += formatAttachmentsHtml(row.attachments)
+      currentQuestionNum++
+    } else if (row.type === 'answer') {
+      const label = formatAnswerLabel(row.label, config.format)
+      // Use non-breaking spaces for indentation (continuation lines included)
+      const indent = '&nbsp;'.repeat(3)
+      output += `${indent}${formatTextHtml(label + row.text, indent)}${badge}<br>`
+      output += formatAttachmentsHtml(row.attachments)
+    } else if (row.type === 'empty') {
+      output += '<br>'
+    }
+  }
+
+  return output
+}
+
+/**
+ * Generate structured answer key entries from parsed rows
+ * Every question gets an entry, even when no answer is marked as correct
  * @param rows Parsed rows
  * @param startNumber Starting question number
- * @returns Array of answer key entries (e.g., ["1. B", "2. A, C", "3. D"])
+ * @returns Array of answer key entries in question order
  */
-export function generateAnswerKey(
+export function generateAnswerKeyEntries(
   rows: ParsedRow[],
   startNumber = 1
-): string[] {
-  const answerKey: string[] = []
+): AnswerKeyEntry[] {
+  const entries: AnswerKeyEntry[] = []
   let currentQuestionNum = startNumber
-  let currentAnswers: string[] = []
 
   for (const row of rows) {
     if (row.type === 'question') {
-      // Save previous question's answers
-      if (currentAnswers.length > 0) {
-        answerKey.push(
-          `${currentQuestionNum - 1}. ${currentAnswers.join(', ')}`
-        )
-        currentAnswers = []
-      }
+      entries.push({
+        questionNumber: currentQuestionNum,
+        correctAnswers: [],
+        points: getQuestionPoints(row),
+      })
       currentQuestionNum++
     } else if (row.type === 'answer' && row.isKey) {
-      currentAnswers.push(row.label)
+      entries[entries.length - 1]?.correctAnswers.push(row.label)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Point totals of an exam, overall and per section
+ */
+export interface PointsSummary {
+  /** Total points */
+  total: number
+  /** Number of questions */
+  questionCount: number
+  /** Questions without an explicit point value (counted as DEFAULT_QUESTION_POINTS) */
+  defaultedCount: number
+  /** Totals per section, in order (questions before the first section have an empty title) */
+  sections: { title: string; points: number; questionCount: number }[]
+}
+
+/**
+ * Sum question point values per section and for the whole exam
+ * @param rows Parsed rows
+ * @returns Points summary
+ */
+export function summarizePoints(rows: ParsedRow[]): PointsSummary {
+  const summary: PointsSummary = {
+    total: 0,
+    questionCount: 0,
+    defaultedCount: 0,
+    sections: [],
+  }
+
+  for (const row of rows) {
+    if (row.type === 'section') {
+      summary.sections.push({ title: row.text, points: 0, questionCount: 0 })
+    } else if (row.type === 'question') {
+      if (summary.sections.length === 0) {
+        summary.sections.push({ title: '', points: 0, questionCount: 0 })
+      }
+      const section = summary.sections[summary.sections.length - 1]
+      const points = getQuestionPoints(row)
+      if (section) {
+        section.points += points
+        section.questionCount++
+      }
+      summary.total += points
+      summary.questionCount++
+      if (row.points === undefined) summary.defaultedCount++
+    }
+  }
+
+  // Sections without questions (e.g., a title line) are left out
+  summary.sections = summary.sections.filter(
+    section => section.questionCount > 0
+  )
+  return summary
+}
+
+/**
+ * Question on the bubble answer sheet
+ */
+export interface AnswerSheetQuestion {
+  /** Question number */
+  number: number
+  /** Correct answer letters (filled bubbles) */
+  correctAnswers: string[]
+}
+
+/**
+ * Collect answer sheet questions from parsed rows
+ * Questions without any answer options are left out
+ * @param rows Parsed rows
+ * @param startNumber Starting question number
+ * @returns Questions and the bubble count (most answers of any question, 5 if none)
+ */
+export function getAnswerSheetQuestions(
+  rows: ParsedRow[],
+  startNumber = 1
+): { questions: AnswerSheetQuestion[]; maxAnswers: number } {
+  const questions: (AnswerSheetQuestion & { answerCount: number })[] = []
+  let currentQuestionNum = startNumber
+
+  for (const row of rows) {
+    if (row.type === 'question') {
+      questions.push({
+        number: currentQuestionNum,
+        correctAnswers: [],
+        answerCount: 0,
+      })
+      currentQuestionNum++
+    } else if (row.type === 'answer') {
+      const question = questions[questions.length - 1]
+      if (!question) continue
+      question.answerCount++
+      if (row.isKey) question.correctAnswers.push(row.label)
     }
   }
 
-  // Don't forget the last question
-  if (currentAnswers.length > 0) {
-    answerKey.push(`${currentQuestionNum - 1}. ${currentAnswers.join(', ')}`)
+  const answered = questions.filter(question => question.answerCount > 0)
+  const maxAnswers = Math.max(0, ...answered.map(q => q.answerCount))
+
+  return {
+    questions: answered.map(({ number, correctAnswers }) => ({
+      number,
+      correctAnswers,
+    })),
+    maxAnswers: maxAnswers > 0 ? maxAnswers : 5,
   }
+}
 
-  return answerKey
+/**
+ * Generate answer key from parsed rows
+ * @param rows Parsed rows
+ * @param startNumber Starting question number
+ * @returns Array of answer key entries (e.g., ["1. B", "2. A, C", "3. D"])
+ */
+export function generateAnswerKey(
+  rows: ParsedRow[],
+  startNumber = 1
+): string[] {
+  return formatAnswerKey(generateAnswerKeyEntries(rows, startNumber))
+}
+
+/**
+ * Format answer key entries as text lines
+ * Questions without a marked answer are skipped
+ * @param entries Answer key entries
+ * @returns Array of lines (e.g., ["1. B", "2. A, C"])
+ */
+export function formatAnswerKey(entries: AnswerKeyEntry[]): string[] {
+  return entries
+    .filter(entry => entry.correctAnswers.length > 0)
+    .map(entry => `${entry.questionNumber}. ${entry.correctAnswers.join(', ')}`)
 }
 
 /**
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findAnswerKey,
+  gradedResponsesToCsv,
+  gradeResponse,
+  scoreQuestion,
+} from './grading'
+import {
+  DEFAULT_SCORING_SETTINGS,
+  type ScoringSettings,
+  type StudentResponse,
+} from '../types/mcq'
+
+const keys = [
+  {
+    code: '7',
+    answerKey: [
+      { questionNumber: 1, correctAnswers: ['A'], points: 0.5 },
+      { questionNumber: 2, correctAnswers: ['C'] },
+      { questionNumber: 3, correctAnswers: ['A', 'C'], points: 2 },
+      { questionNumber: 4, correctAnswers: ['B'] },
+      { questionNumber: 5, correctAnswers: ['D'] },
+    ],
+  },
+  { code: '8', answerKey: [] },
+]
+
+const response: StudentResponse = {
+  id: 1,
+  source: 'scan.png',
+  studentId: '2041',
+  examCode: '007',
+  answers: [
+    { questionNumber: 1, marked: ['A'] },
+    { questionNumber: 2, marked: ['B'] },
+    { questionNumber: 3, marked: ['A'] },
+    { questionNumber: 5, marked: ['D'], unclear: ['C'] },
+  ],
+  flags: ['Question 5: unclear mark on C'],
+}
+
+const rules = (settings: Partial<ScoringSettings>): ScoringSettings => ({
+  ...DEFAULT_SCORING_SETTINGS,
+  ...settings,
+})
+
+describe('findAnswerKey', () => {
+  it('matches exam codes without leading zeros', () => {
+    expect(findAnswerKey('007', keys)?.code).toBe('7')
+    expect(findAnswerKey('9', keys)).toBeUndefined()
+    expect(findAnswerKey('', keys)).toBeUndefined()
+  })
+
+  it('uses a single key for blank codes and a key without code for all', () => {
+    expect(findAnswerKey('', keys.slice(0, 1))?.code).toBe('7')
+    expect(findAnswerKey('101', [{ code: '', answerKey: [] }])?.code).toBe('')
+  })
+})
+
+describe('scoreQuestion', () => {
+  const entry = {
+    questionNumber: 1,
+    correctAnswers: ['A', 'C', 'D'],
+    points: 3,
+  }
+
+  it('gives partial credit for correct letters minus wrong ones', () => {
+    const partial = rules({ partialCredit: 'proportional' })
+
+    expect(scoreQuestion(['A', 'C'], entry, partial)).toEqual({
+      earned: 2,
+      outcome: 'partial',
+    })
+    expect(scoreQuestion(['A', 'C', 'B'], entry, partial).earned).toBe(1)
+    expect(scoreQuestion(['A', 'B'], entry, partial).outcome).toBe('wrong')
+    expect(scoreQuestion(['A', 'C'], entry, rules({})).outcome).toBe('wrong')
+  })
+
+  it('applies negative marking to wrong and optionally blank answers', () => {
+    const negative = rules({ wrongPenalty: 0.25 })
+
+    expect(scoreQuestion(['B'], entry, negative).earned).toBe(-0.75)
+    expect(scoreQuestion([], entry, negative).earned).toBe(0)
+    expect(
+      scoreQuestion([], entry, { ...negative, penalizeBlanks: true }).earned
+    ).toBe(-0.75)
+    expect(scoreQuestion(['B'], entry, negative, ['C'])).toEqual({
+      earned: 0,
+      outcome: 'review',
+    })
+  })
+})
+
+describe('gradeResponse', () => {
+  it('scores against the key of the exam code', () => {
+    const result = gradeResponse(response, keys, DEFAULT_SCORING_SETTINGS)
+
+    expect(result.code).toBe('7')
+    expect(result.questions.map(q => q.outcome)).toEqual([
+      'correct',
+      'wrong',
+      'wrong',
+      'blank',
+      'review',
+    ])
+    expect(result.score).toBe(0.5)
+    expect(result.maxScore).toBe(5.5)
+  })
+
+  it('does not score or penalize questions without a key', () => {
+    const keyless = [
+      {
+        code: '7',
+        answerKey: [
+          { questionNumber: 1, correctAnswers: ['A'] },
+          { questionNumber: 2, correctAnswers: [] },
+        ],
+      },
+    ]
+    const result = gradeResponse(
+      response,
+      keyless,
+      rules({ wrongPenalty: 1, floorAtZero: false })
+    )
+
+    expect(result.questions.map(q => q.outcome)).toEqual(['correct', 'no-key'])
+    expect(result.score).toBe(1)
+    expect(result.maxScore).toBe(1)
+    expect(gradedResponsesToCsv([result]).split('\n')[1]).toContain(
+      'Not scored (no key): questions 2'
+    )
+  })
+
+  it('keeps negative totals only when asked to', () => {
+    const negative = rules({ wrongPenalty: 1, floorAtZero: false })
+
+    expect(gradeResponse(response, keys, negative).score).toBe(-2.5)
+    expect(
+      gradeResponse(response, keys, { ...negative, floorAtZero: true }).score
+    ).toBe(0)
+  })
+
+  it('does not grade unreadable responses or unknown exam codes', () => {
+    expect(
+      gradeResponse({ ...response, examCode: '9' }, keys, rules({})).code
+    ).toBeUndefined()
+    expect(
+      gradeResponse({ ...response, error: 'Blurry' }, keys, rules({})).questions
+    ).toEqual([])
+  })
+})
+
+describe('gradedResponsesToCsv', () => {
+  it('writes totals, outcome counts and marked letters per question', () => {
+    const csv = gradedResponsesToCsv([
+      gradeResponse(response, keys, DEFAULT_SCORING_SETTINGS),
+    ])
+    const [header, line] = csv.split('\n')
+
+    expect(header).toBe(
+      'Student ID,Exam Code,Score,Max Score,Correct,Partial,Wrong,Blank,Review,Source,Notes,Q1,Q2,Q3,Q4,Q5'
+    )
+    expect(line).toBe(
+      '2041,007,0.5,5.5,1,0,2,1,1,scan.png,Question 5: unclear mark on C,A,B,A,,D'
+    )
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * Grading Service
+ * Scores student responses (scanned sheets or imported CSV rows) against the
+ * answer key of their exam code, with the rules in ExamConfig.scoring
+ */
+
+import {
+  DEFAULT_QUESTION_POINTS,
+  type AnswerKeyEntry,
+  type ExamVersion,
+  type ParsedRow,
+  type ScoringSettings,
+  type StudentResponse,
+} from '../types/mcq'
+import { generateAnswerKeyEntries } from './generator'
+
+/**
+ * Answer key of one exam code (ExamVersion fits)
+ */
+export interface ExamAnswerKey {
+  code: string
+  answerKey: AnswerKeyEntry[]
+}
+
+/**
+ * Outcome of a question: review means an unclear mark kept it from scoring,
+ * no-key that the question has no correct answer to score against
+ */
+export type QuestionOutcome =
+  | 'correct'
+  | 'partial'
+  | 'wrong'
+  | 'blank'
+  | 'review'
+  | 'no-key'
+
+/**
+ * Score of one question
+ */
+export interface QuestionScore {
+  questionNumber: number
+  marked: string[]
+  correctAnswers: string[]
+  points: number
+  /** Points earned (negative with negative marking) */
+  earned: number
+  outcome: QuestionOutcome
+}
+
+/**
+ * Score of one student response
+ */
+export interface GradedResponse {
+  response: StudentResponse
+  /** Exam code of the answer key used (undefined if none matched) */
+  code?: string
+  score: number
+  maxScore: number
+  questions: QuestionScore[]
+}
+
+/**
+ * Get the answer keys student responses are graded with
+ * @param versions Generated exam versions (one key per exam code)
+ * @param rows Rows of the single exam, used when there are no versions
+ * @param startNumber Starting question number
+ * @returns One key per version, or one key without code for the single exam
+ */
+export function getExamAnswerKeys(
+  versions: ExamVersion[],
+  rows: ParsedRow[],
+  startNumber = 1
+): ExamAnswerKey[] {
+  if (versions.length > 0) return versions
+  return [{ code: '', answerKey: generateAnswerKeyEntries(rows, startNumber) }]
+}
+
+/**
+ * Find the answer key for an exam code
+ * Codes are compared without leading zeros (a 3-digit grid reads "101" or "007")
+ * A single key is used for responses without exam code, and a single key
+ * without a code (exam without versions) for every response
+ * @param examCode Exam code of the response
+ * @param keys Answer keys by exam code
+ * @returns Matching key, or undefined if none matches
+ */
+export function findAnswerKey(
+  examCode: string,
+  keys: ExamAnswerKey[]
+): ExamAnswerKey | undefined {
+  const [onlyKey] = keys
+  if (keys.length === 1 && (!examCode || !onlyKey?.code)) return onlyKey
+  const normalize = (code: string) => code.replace(/^0+(?=.)/, '')
+  return keys.find(key => normalize(key.code) === normalize(examCode))
+}
+
+/**
+ * Score one question
+ * Exactly the correct letters earn the full points. With proportional partial
+ * credit, a multi-answer question earns its share of correct letters minus
+ * wrong ones. Anything else is wrong and loses wrongPenalty × points.
+ * A question without correct answers is not scored (outcome no-key).
+ * @param marked Letters the student marked
+ * @param entry Answer key entry of the question
+ * @param settings Scoring rules
+ * @param unclear Letters with an unclear mark (the question is held for review)
+ * @returns Points earned and outcome
+ */
+export function scoreQuestion(
+  marked: string[],
+  entry: AnswerKeyEntry,
+  settings: ScoringSettings,
+  unclear: string[] = []
+): Pick<QuestionScore, 'earned' | 'outcome'> {
+  const points = entry.points ?? DEFAULT_QUESTION_POINTS
+  const penalty = -settings.wrongPenalty * points
+
+  if (entry.correctAnswers.length === 0) return { earned: 0, outcome: 'no-key' }
+  if (unclear.length > 0) return { earned: 0, outcome: 'review' }
+  if (marked.length === 0) {
+    return { earned: settings.penalizeBlanks ? penalty : 0, outcome: 'blank' }
+  }
+
+  const correct = entry.correctAnswers
+  const hits = marked.filter(letter => correct.includes(letter)).length
+  const misses = marked.length - hits
+  if (misses === 0 && hits === correct.length) {
+    return { earned: points, outcome: 'correct' }
+  }
+
+  if (settings.partialCredit === 'proportional' && correct.length > 1) {
+    const share = (hits - misses) / correct.length
+    if (share > 0) return { earned: share * points, outcome: 'partial' }
+  }
+  return { earned: penalty, outcome: 'wrong' }
+}
+
+/**
+ * Grade a student response against the key of its exam code
+ * Questions of the key the response has no answer for count as blank;
+ * questions without correct answers do not count towards the max score
+ * @param response Student response
+ * @param keys Answer keys by exam code
+ * @param settings Scoring rules
+ * @returns Score per question and in total (empty when no key matches)
+ */
+export function gradeResponse(
+  response: StudentResponse,
+  keys: ExamAnswerKey[],
+  settings: ScoringSettings
+): GradedResponse {
+  const key = response.error
+    ? undefined
+    : findAnswerKey(response.examCode, keys)
+  if (!key) return { response, score: 0, maxScore: 0, questions: [] }
+
+  const questions = key.answerKey.map(entry => {
+    const answer = response.answers.find(
+      a => a.questionNumber === entry.questionNumber
+    )
+    const marked = answer?.marked ?? []
+    return {
+      questionNumber: entry.questionNumber,
+      marked,
+      correctAnswers: entry.correctAnswers,
+      points: entry.points ?? DEFAULT_QUESTION_POINTS,
+      ...scoreQuestion(marked, entry, settings, answer?.unclear),
+    }
+  })
+
+  const total = questions.reduce((sum, question) => sum + question.earned, 0)
+  return {
+    response,
+    code: key.code,
+    score: settings.floorAtZero ? Math.max(0, total) : total,
+    maxScore: questions
+      .filter(question => question.outcome !== 'no-key')
+      .reduce((sum, question) => sum + question.points, 0),
+    questions,
+  }
+}
+
+/**
+ * Get the questions of a graded response that have no answer key
+ * @param result Graded response
+ * @returns Question numbers (not scored)
+ */
+export function getKeylessQuestions(result: GradedResponse): number[] {
+  return result.questions
+    .filter(question => question.outcome === 'no-key')
+    .map(question => question.questionNumber)
+}
+
+/**
+ * Quote a CSV field if needed
+ * @param value Field value
+ * @returns Field text for a CSV line
+ */
+export function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format graded responses as a results spreadsheet (CSV)
+ * One line per response with totals, outcome counts and the marked letters
+ * of every question
+ * @param results Graded responses
+ * @returns CSV text
+ */
+export function gradedResponsesToCsv(results: GradedResponse[]): string {
+  const questionNumbers = [
+    ...new Set(
+      results.flatMap(result => result.questions.map(q => q.questionNumber))
+    ),
+  ].sort((a, b) => a - b)
+  const outcomes: QuestionOutcome[] = [
+    'correct',
+    'partial',
+    'wrong',
+    'blank',
+    'review',
+  ]
+  const round = (value: number) => Math.round(value * 100) / 100
+
+  const header = [
+    'Student ID',
+    'Exam Code',
+    'Score',
+    'Max Score',
+    'Correct',
+    'Partial',
+    'Wrong',
+    'Blank',
+    'Review',
+    'Source',
+    'Notes',
+    ...questionNumbers.map(number => `Q${number}`),
+  ]
+  const lines = results.map(result => {
+    const { response } = result
+    const keyless = getKeylessQuestions(result)
+    const notes = response.error
+      ? [response.error]
+      : result.code === undefined
+        ? [`No answer key for exam code ${response.examCode || '(blank)'}`]
+        : [
+            ...response.flags,
+            ...(keyless.length > 0
+              ? [`Not scored (no key): questions ${keyless.join(', ')}`]
+              : []),
+          ]
+    return [
+      response.studentId,
+      response.examCode,
+      round(result.score),
+      round(result.maxScore),
+      ...outcomes.map(
+        outcome => result.questions.filter(q => q.outcome === outcome).length
+      ),
+      response.source,
+      notes.join('; '),
+      ...questionNumbers.map(
+        number =>
+          result.questions
+            .find(q => q.questionNumber === number)
+            ?.marked.join('') ?? ''
+      ),
+    ]
+      .map(csvField)
+      .join(',')
+  })
+
+  return [header.map(csvField).join(','), ...lines].join('\n')
+}
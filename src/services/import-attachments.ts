@@ -0,0 +1,61 @@
+/**
+ * Import Attachments Service
+ * Saves the images and tables of the last DOCX import, which the persisted
+ * import text refers to with {{attachment:N}} tokens
+ *
+ * They are kept out of the store's localStorage persistence (megabytes of
+ * data URLs): the Tauri backend saves them as import-attachments.json in the
+ * app data directory, a browser in localStorage when there is room.
+ */
+
+import { invoke } from '@tauri-apps/api/core'
+import { logger } from '@/lib/logger'
+import { isTauri } from '@/lib/tauri'
+import type { RowAttachment } from '../types/mcq'
+
+/** localStorage key of the web fallback */
+const STORAGE_KEY = 'import-attachments'
+
+/**
+ * Load the saved import attachments
+ * @returns Attachments (empty if none were saved or they cannot be read)
+ */
+export async function loadImportAttachments(): Promise<RowAttachment[]> {
+  try {
+    if (isTauri()) {
+      return (
+        (await invoke<RowAttachment[] | null>('load_import_attachments')) ?? []
+      )
+    }
+
+    // Web fallback
+    const item = localStorage.getItem(STORAGE_KEY)
+    return item ? (JSON.parse(item) as RowAttachment[]) : []
+  } catch (error) {
+    logger.warn('Failed to load import attachments', { error })
+    return []
+  }
+}
+
+/**
+ * Save the import attachments (an empty list removes the saved ones)
+ * Failures are logged only: attachments that do not fit (browser storage
+ * quota) are simply not kept across sessions
+ * @param attachments Attachments of the import text
+ */
+export async function saveImportAttachments(
+  attachments: RowAttachment[]
+): Promise<void> {
+  try {
+    if (isTauri()) {
+      await invoke('save_import_attachments', { attachments })
+    } else if (attachments.length === 0) {
+      localStorage.removeItem(STORAGE_KEY)
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(attachments))
+    }
+  } catch (error) {
+    logger.warn('Import attachments not saved', { error })
+    if (!isTauri()) localStorage.removeItem(STORAGE_KEY)
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { gradeResponse, type ExamAnswerKey } from './grading'
+import { analyzeItems, itemAnalysisToCsv } from './item-analysis'
+import type { VersionMapping } from './mapping'
+import { DEFAULT_SCORING_SETTINGS, type StudentResponse } from '../types/mcq'
+
+const identity = [
+  { originalLetter: 'A', letter: 'A' },
+  { originalLetter: 'B', letter: 'B' },
+  { originalLetter: 'C', letter: 'C' },
+]
+
+// Version 102 swaps the questions and the first two answers of question 2
+const mappings: VersionMapping[] = [
+  {
+    code: '101',
+    questions: [
+      { questionNumber: 1, originalNumber: 1, answers: identity },
+      { questionNumber: 2, originalNumber: 2, answers: identity },
+    ],
+  },
+  {
+    code: '102',
+    questions: [
+      {
+        questionNumber: 1,
+        originalNumber: 2,
+        answers: [
+          { originalLetter: 'A', letter: 'B' },
+          { originalLetter: 'B', letter: 'A' },
+          { originalLetter: 'C', letter: 'C' },
+        ],
+      },
+      { questionNumber: 2, originalNumber: 1, answers: identity },
+    ],
+  },
+]
+
+const keys: ExamAnswerKey[] = [
+  {
+    code: '101',
+    answerKey: [
+      { questionNumber: 1, correctAnswers: ['A'] },
+      { questionNumber: 2, correctAnswers: ['B'] },
+    ],
+  },
+  {
+    code: '102',
+    answerKey: [
+      { questionNumber: 1, correctAnswers: ['A'] },
+      { questionNumber: 2, correctAnswers: ['A'] },
+    ],
+  },
+]
+
+const sheets: [string, string, string][] = [
+  ['101', 'A', 'B'],
+  ['102', 'A', 'A'],
+  ['101', 'A', 'C'],
+  ['102', 'B', 'B'],
+]
+
+const responses: StudentResponse[] = sheets.map(
+  ([examCode, first, second], index) => ({
+    id: index + 1,
+    source: `sheet ${index + 1}`,
+    studentId: String(index + 1),
+    examCode,
+    answers: [
+      { questionNumber: 1, marked: [first] },
+      { questionNumber: 2, marked: [second] },
+    ],
+    flags: [],
+  })
+)
+
+const results = responses.map(response =>
+  gradeResponse(response, keys, DEFAULT_SCORING_SETTINGS)
+)
+
+describe('analyzeItems', () => {
+  it('adds up the versions per source question and letter', () => {
+    const { items } = analyzeItems(results, mappings)
+
+    expect(items.map(item => item.originalNumber)).toEqual([1, 2])
+    expect(items.map(item => item.difficulty)).toEqual([0.75, 0.5])
+    expect(items[1]?.options).toEqual([
+      { letter: 'A', count: 1, isKey: false },
+      { letter: 'B', count: 2, isKey: true },
+      { letter: 'C', count: 1, isKey: false },
+    ])
+    expect(items[0]?.flags).toEqual(['Distractor C never chosen'])
+  })
+
+  it('computes discrimination, point-biserial and KR-20', () => {
+    const { items, test } = analyzeItems(results, mappings)
+
+    expect(items[0]?.discrimination).toBe(1)
+    expect(items[1]?.pointBiserial).toBeCloseTo(0.9045, 4)
+    expect(test.kr20).toBeCloseTo(0.7273, 4)
+    expect(test.meanScore).toBe(1.25)
+    expect(test.medianScore).toBe(1.5)
+    expect(
+      test.distribution.filter(bin => bin.count > 0).map(bin => bin.from)
+    ).toEqual([0, 50, 90])
+  })
+
+  it('skips responses without a matching key', () => {
+    const unknown = responses.map(response =>
+      gradeResponse(
+        { ...response, examCode: '999' },
+        keys,
+        DEFAULT_SCORING_SETTINGS
+      )
+    )
+
+    expect(analyzeItems(unknown, mappings).test.responses).toBe(0)
+  })
+})
+
+describe('itemAnalysisToCsv', () => {
+  it('writes one line per question and the test summary', () => {
+    const lines = itemAnalysisToCsv(analyzeItems(results, mappings)).split('\n')
+
+    expect(lines[0]).toBe(
+      'Question,Responses,Difficulty (p),Discrimination (D),Point-Biserial,Key,Option A,Option B,Option C,Blank,Review,Flags'
+    )
+    expect(lines[2]).toBe('2,4,0.5,1,0.905,B,1,2,1,0,0,')
+    expect(lines).toContain('KR-20,0.727')
+  })
+})
@@ -0,0 +1,403 @@
+/**
+ * Item Analysis Service
+ * Classical test statistics of graded responses, per question of the source
+ * exam: every version's questions and letters are mapped back through their
+ * original numbers and letters, so the versions of an exam add up
+ *
+ * - Difficulty (p-value): share of students answering the question correctly
+ * - Discrimination index: p of the top 27% minus p of the bottom 27%
+ * - Point-biserial: correlation of the question with the total
+ * - Distractor frequency: how often each original option was marked
+ * - KR-20 reliability and the score distribution of the whole test
+ *
+ * Items are scored right/wrong (partial credit counts as wrong) and totals
+ * are the number of correct questions, as KR-20 assumes.
+ */
+
+import type { ExamVersion, ParsedRow } from '../types/mcq'
+import { csvField, type GradedResponse } from './grading'
+import {
+  buildQuestionMapping,
+  buildVersionMappings,
+  type VersionMapping,
+} from './mapping'
+
+/** Share of students in the upper and lower groups */
+const GROUP_SHARE = 0.27
+/** Difficulty below which a question is flagged as very hard */
+const HARD_P = 0.2
+/** Difficulty above which a question is flagged as very easy */
+const EASY_P = 0.9
+/** Discrimination index below which a question is flagged */
+const LOW_DISCRIMINATION = 0.2
+/** Number of bars in the score distribution */
+const DISTRIBUTION_BINS = 10
+
+/**
+ * How often one option of a question was marked
+ */
+export interface OptionFrequency {
+  /** Letter in the source exam */
+  letter: string
+  count: number
+  /** Whether the option is a correct answer */
+  isKey: boolean
+}
+
+/**
+ * Statistics of one question of the source exam
+ */
+export interface ItemStatistics {
+  /** Question number in the source exam */
+  originalNumber: number
+  /** Graded responses that include the question */
+  responses: number
+  correct: number
+  blank: number
+  /** Responses held for review (unclear marks), counted as wrong */
+  review: number
+  /** Share of correct responses (0 to 1, higher is easier) */
+  difficulty: number
+  /** Upper minus lower group difficulty (-1 to 1), undefined below 2 responses */
+  discrimination?: number
+  /** Correlation with the total, undefined when it cannot vary */
+  pointBiserial?: number
+  /** Options in source letter order */
+  options: OptionFrequency[]
+  /** Reasons to review or retire the question */
+  flags: string[]
+}
+
+/**
+ * One bar of the score distribution
+ */
+export interface ScoreBin {
+  /** Lower bound in percent of the maximum score */
+  from: number
+  /** Upper bound in percent (inclusive for the last bin) */
+  to: number
+  count: number
+}
+
+/**
+ * Statistics of the whole test
+ */
+export interface TestStatistics {
+  /** Graded responses (unreadable ones and unknown exam codes excluded) */
+  responses: number
+  items: number
+  meanScore: number
+  medianScore: number
+  standardDeviation: number
+  minScore: number
+  maxScore: number
+  /** Maximum possible score */
+  possibleScore: number
+  /** KR-20 reliability, undefined below 2 items or without score spread */
+  kr20?: number
+  distribution: ScoreBin[]
+}
+
+/**
+ * Item analysis of a graded test
+ */
+export interface ItemAnalysis {
+  /** Questions in source order */
+  items: ItemStatistics[]
+  test: TestStatistics
+}
+
+/**
+ * Get the mappings back to the source exam, matching getExamAnswerKeys
+ * @param versions Generated exam versions
+ * @param rows Rows of the single exam, used when there are no versions
+ * @param startNumber Starting question number
+ * @returns One mapping per version, or one mapping without code
+ */
+export function getExamMappings(
+  versions: ExamVersion[],
+  rows: ParsedRow[],
+  startNumber = 1
+): VersionMapping[] {
+  if (versions.length > 0) return buildVersionMappings(versions, startNumber)
+  return [{ code: '', questions: buildQuestionMapping(rows, startNumber) }]
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / (values.length || 1)
+}
+
+/** Population standard deviation */
+function standardDeviation(values: number[]): number {
+  const average = mean(values)
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1
+    ? (sorted[middle] ?? 0)
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2
+}
+
+/**
+ * Explain why a question needs a look
+ */
+function itemFlags(item: ItemStatistics): string[] {
+  const flags: string[] = []
+  if (item.difficulty < HARD_P) flags.push('Very hard')
+  if (item.difficulty > EASY_P) flags.push('Very easy')
+  if (item.pointBiserial !== undefined && item.pointBiserial < 0) {
+    flags.push('Negative point-biserial (check the key)')
+  } else if (
+    item.discrimination !== undefined &&
+    item.discrimination < LOW_DISCRIMINATION
+  ) {
+    flags.push('Low discrimination')
+  }
+  const unused = item.options.filter(
+    option => !option.isKey && option.count === 0
+  )
+  if (unused.length > 0) {
+    flags.push(
+      `Distractor${unused.length > 1 ? 's' : ''} ${unused.map(o => o.letter).join(', ')} never chosen`
+    )
+  }
+  return flags
+}
+
+/**
+ * Analyze the questions of graded responses
+ * @param results Graded responses
+ * @param mappings Mappings of the exam versions back to the source exam
+ * @returns Statistics per source question and of the whole test
+ */
+export function analyzeItems(
+  results: GradedResponse[],
+  mappings: VersionMapping[]
+): ItemAnalysis {
+  const graded = results.filter(
+    result => result.code !== undefined && result.questions.length > 0
+  )
+
+  // Number of correct questions per response, and per source question
+  // whether each response got it right
+  const totals = graded.map(
+    result => result.questions.filter(q => q.outcome === 'correct').length
+  )
+  const itemScores = new Map<number, { index: number; correct: boolean }[]>()
+  const items = new Map<number, ItemStatistics>()
+
+  graded.forEach((result, index) => {
+    const mapping = mappings.find(m => m.code === result.code)
+    for (const question of result.questions) {
+      // Questions without a key were not scored
+      if (question.outcome === 'no-key') continue
+      const questionMapping = mapping?.questions.find(
+        q => q.questionNumber === question.questionNumber
+      )
+      const originalNumber =
+        questionMapping?.originalNumber ?? question.questionNumber
+      const toOriginal = (letter: string) =>
+        questionMapping?.answers.find(a => a.letter === letter)
+          ?.originalLetter ?? letter
+
+      let item = items.get(originalNumber)
+      if (!item) {
+        item = {
+          originalNumber,
+          responses: 0,
+          correct: 0,
+          blank: 0,
+          review: 0,
+          difficulty: 0,
+          options: [],
+          flags: [],
+        }
+        items.set(originalNumber, item)
+      }
+
+      const keys = question.correctAnswers.map(toOriginal)
+      const letters = [
+        ...(questionMapping?.answers.map(a => a.originalLetter) ?? []),
+        ...keys,
+        ...question.marked.map(toOriginal),
+      ]
+      for (const letter of letters) {
+        if (!item.options.some(option => option.letter === letter)) {
+          item.options.push({ letter, count: 0, isKey: false })
+        }
+      }
+      for (const option of item.options) {
+        if (keys.includes(option.letter)) option.isKey = true
+      }
+
+      item.responses++
+      if (question.outcome === 'correct') item.correct++
+      if (question.outcome === 'blank') item.blank++
+      if (question.outcome === 'review') {
+        item.review++
+      } else {
+        for (const letter of question.marked.map(toOriginal)) {
+          const option = item.options.find(o => o.letter === letter)
+          if (option) option.count++
+        }
+      }
+
+      const scores = itemScores.get(originalNumber) ?? []
+      scores.push({ index, correct: question.outcome === 'correct' })
+      itemScores.set(originalNumber, scores)
+    }
+  })
+
+  const totalDeviation = standardDeviation(totals)
+  const groupSize = Math.max(1, Math.round(graded.length * GROUP_SHARE))
+  const ranked = totals
+    .map((total, index) => ({ total, index }))
+    .sort((a, b) => b.total - a.total)
+  const upper = new Set(ranked.slice(0, groupSize).map(r => r.index))
+  const lower = new Set(ranked.slice(-groupSize).map(r => r.index))
+
+  for (const item of items.values()) {
+    const scores = itemScores.get(item.originalNumber) ?? []
+    const p = item.correct / item.responses
+    item.difficulty = p
+    item.options.sort((a, b) => a.letter.localeCompare(b.letter))
+
+    if (graded.length >= 2) {
+      const groupP = (group: Set<number>) => {
+        const inGroup = scores.filter(score => group.has(score.index))
+        return (
+          inGroup.filter(score => score.correct).length / (inGroup.length || 1)
+        )
+      }
+      item.discrimination = groupP(upper) - groupP(lower)
+    }
+
+    if (totalDeviation > 0 && p > 0 && p < 1) {
+      const totalOf = (correct: boolean) =>
+        mean(
+          scores
+            .filter(score => score.correct === correct)
+            .map(score => totals[score.index] ?? 0)
+        )
+      item.pointBiserial =
+        ((totalOf(true) - totalOf(false)) / totalDeviation) *
+        Math.sqrt(p * (1 - p))
+    }
+
+    item.flags = itemFlags(item)
+  }
+
+  const itemList = [...items.values()].sort(
+    (a, b) => a.originalNumber - b.originalNumber
+  )
+  const k = itemList.length
+  const variance = totalDeviation ** 2
+  const kr20 =
+    k > 1 && variance > 0
+      ? (k / (k - 1)) *
+        (1 -
+          itemList.reduce(
+            (sum, item) => sum + item.difficulty * (1 - item.difficulty),
+            0
+          ) /
+            variance)
+      : undefined
+
+  const scores = graded.map(result => result.score)
+  const distribution = Array.from({ length: DISTRIBUTION_BINS }, (_, bin) => ({
+    from: (bin * 100) / DISTRIBUTION_BINS,
+    to: ((bin + 1) * 100) / DISTRIBUTION_BINS,
+    count: 0,
+  }))
+  for (const result of graded) {
+    const share = result.maxScore > 0 ? result.score / result.maxScore : 0
+    const bin = Math.min(
+      DISTRIBUTION_BINS - 1,
+      Math.max(0, Math.floor(share * DISTRIBUTION_BINS))
+    )
+    const entry = distribution[bin]
+    if (entry) entry.count++
+  }
+
+  return {
+    items: itemList,
+    test: {
+      responses: graded.length,
+      items: k,
+      meanScore: mean(scores),
+      medianScore: median(scores),
+      standardDeviation: standardDeviation(scores),
+      minScore: scores.length > 0 ? Math.min(...scores) : 0,
+      maxScore: scores.length > 0 ? Math.max(...scores) : 0,
+      possibleScore: Math.max(0, ...graded.map(result => result.maxScore)),
+      kr20,
+      distribution,
+    },
+  }
+}
+
+/**
+ * Format an item analysis as CSV
+ * One line per source question (option columns hold how often each letter
+ * was marked, correct letters are listed under Key), then the test summary
+ * @param analysis Item analysis
+ * @returns CSV text
+ */
+export function itemAnalysisToCsv(analysis: ItemAnalysis): string {
+  const letters = [
+    ...new Set(
+      analysis.items.flatMap(item => item.options.map(option => option.letter))
+    ),
+  ].sort()
+  const round = (value: number | undefined) =>
+    value === undefined ? '' : Math.round(value * 1000) / 1000
+
+  const header = [
+    'Question',
+    'Responses',
+    'Difficulty (p)',
+    'Discrimination (D)',
+    'Point-Biserial',
+    'Key',
+    ...letters.map(letter => `Option ${letter}`),
+    'Blank',
+    'Review',
+    'Flags',
+  ]
+  const lines = analysis.items.map(item => [
+    item.originalNumber,
+    item.responses,
+    round(item.difficulty),
+    round(item.discrimination),
+    round(item.pointBiserial),
+    item.options
+      .filter(option => option.isKey)
+      .map(option => option.letter)
+      .join(''),
+    ...letters.map(
+      letter => item.options.find(o => o.letter === letter)?.count ?? ''
+    ),
+    item.blank,
+    item.review,
+    item.flags.join('; '),
+  ])
+
+  const { test } = analysis
+  const summary = [
+    ['Responses', test.responses],
+    ['Mean Score', round(test.meanScore)],
+    ['Median Score', round(test.medianScore)],
+    ['Standard Deviation', round(test.standardDeviation)],
+    ['Min Score', round(test.minScore)],
+    ['Max Score', round(test.maxScore)],
+    ['Possible Score', round(test.possibleScore)],
+    ['KR-20', round(test.kr20)],
+  ]
+
+  return [header, ...lines, [], ...summary]
+    .map(line => line.map(csvField).join(','))
+    .join('\n')
+}
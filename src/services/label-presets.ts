@@ -0,0 +1,92 @@
+/**
+ * Label Presets Service
+ * Built-in question and section label styles (e.g., "Câu 1." / "Phần I")
+ */
+
+import type { FormatSettings, LabelPresetId } from '../types/mcq'
+
+/**
+ * Format settings controlled by a label preset
+ */
+export type LabelPresetSettings = Pick<
+  FormatSettings,
+  'questionPrefix' | 'questionPostfix' | 'sectionKeywords'
+>
+
+/**
+ * Built-in label preset
+ */
+export interface LabelPreset {
+  /** Display name */
+  name: string
+  /** Example labels shown in settings */
+  example: string
+  /** Settings applied when the preset is selected */
+  settings: LabelPresetSettings
+}
+
+/**
+ * Built-in presets
+ * The first prefix/postfix is used for output; all of them are recognized
+ * when parsing (see buildLabelPatterns)
+ */
+export const LABEL_PRESETS: Record<LabelPresetId, LabelPreset> = {
+  standard: {
+    name: 'Standard',
+    example: '1. / ### Section',
+    settings: {
+      questionPrefix: ['', ''],
+      questionPostfix: ['. ', '). '],
+      sectionKeywords: [],
+    },
+  },
+  vietnamese: {
+    name: 'Vietnamese',
+    example: 'Câu 1. / Phần I',
+    settings: {
+      questionPrefix: ['Câu ', ''],
+      questionPostfix: ['. ', ': '],
+      sectionKeywords: ['Phần'],
+    },
+  },
+  english: {
+    name: 'English',
+    example: 'Question 1. / Part I',
+    settings: {
+      questionPrefix: ['Question ', ''],
+      questionPostfix: ['. ', ': '],
+      sectionKeywords: ['Part', 'Section'],
+    },
+  },
+}
+
+/**
+ * Get the settings of a preset
+ * @param id Preset ID
+ * @returns Settings to merge into the format settings
+ */
+export function getLabelPresetSettings(id: LabelPresetId): LabelPresetSettings {
+  return structuredClone(LABEL_PRESETS[id].settings)
+}
+
+/**
+ * Find the preset matching the current format settings
+ * @param format Format settings
+ * @returns Preset ID, or undefined for custom settings
+ */
+export function detectLabelPreset(
+  format: FormatSettings
+): LabelPresetId | undefined {
+  const same = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((value, i) => value === b[i])
+
+  const ids = Object.keys(LABEL_PRESETS) as LabelPresetId[]
+  return ids.find(id => {
+    const { settings } = LABEL_PRESETS[id]
+    return (
+      same(settings.questionPrefix, format.questionPrefix) &&
+      same(settings.questionPostfix, format.questionPostfix) &&
+      same(settings.sectionKeywords, format.sectionKeywords)
+    )
+  })
+}
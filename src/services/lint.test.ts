@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_FORMAT_SETTINGS, DEFAULT_LINT_SETTINGS } from '@/types/mcq'
+import { parseMcq } from './parser'
+import { lintRows } from './lint'
+
+const lint = (input: string, settings = DEFAULT_LINT_SETTINGS) =>
+  lintRows(parseMcq(input, DEFAULT_FORMAT_SETTINGS), settings).map(
+    d => `${d.line} ${d.code} ${d.severity}: ${d.message}`
+  )
+
+describe('lintRows', () => {
+  it('checks keys against the key policy', () => {
+    const input = `1. First
+*A. a
+*B. b
+2. Second
+A. c
+B. d`
+
+    expect(lint(input)).toEqual([
+      '1 key-count warning: Question 1 has 2 keys but should have one',
+      '4 missing-key warning: Question 2 has no correct answer marked',
+    ])
+    expect(
+      lint(input, { ...DEFAULT_LINT_SETTINGS, keyPolicy: 'multiple' })
+    ).toEqual([
+      '4 missing-key warning: Question 2 has no correct answer marked',
+    ])
+  })
+
+  it('flags duplicate and empty options', () => {
+    expect(
+      lint(`1. Pick
+*A. Paris
+B. paris.
+C. London
+2. Pick again
+*A. Rome
+B.`)
+    ).toEqual([
+      '3 duplicate-option error: Question 1 has the same option in A and B',
+      '5 single-option error: Question 2 has only one option',
+    ])
+  })
+
+  it('finds near-duplicate questions across the bank', () => {
+    const input = `1. What is the capital of France?
+*A. Paris
+B. Rome
+2. Which river flows through Paris?
+*A. Seine
+B. Thames
+3. What is the capital city of France?
+*A. Paris
+B. Rome`
+
+    expect(lint(input)).toEqual([
+      '7 duplicate-question warning: Question 3 looks like question 1 (92% similar)',
+    ])
+    expect(
+      lint(input, {
+        ...DEFAULT_LINT_SETTINGS,
+        rules: { ...DEFAULT_LINT_SETTINGS.rules, 'duplicate-question': 'off' },
+      })
+    ).toEqual([])
+  })
+
+  it('flags letter references in unlocked answers only', () => {
+    expect(
+      lint(`1. Which vitamins are fat-soluble?
+*A. Vitamin A and D
+B. Vitamin B and C
+C. All of the above`)
+    ).toEqual([
+      '2 letter-reference warning: Question 1, option A may refer to other options ("Vitamin A and D"); lock it to rewrite the letters when shuffling',
+      '3 letter-reference warning: Question 1, option B may refer to other options ("Vitamin B and C"); lock it to rewrite the letters when shuffling',
+    ])
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * Content Lint Service
+ * Checks valid parsed rows for content problems the validator does not catch:
+ * missing keys, key counts, single options, duplicate options, duplicate
+ * questions across the whole bank and letter references in unlocked answers
+ * Rule severities are configured in ExamConfig.lint
+ */
+
+import type { LintRuleId, LintSettings, ParsedRow } from '../types/mcq'
+import { hasLetterReference } from './answer-letters'
+import { findQuestionsWithoutKeys, type Diagnostic } from './validator'
+
+/**
+ * Lint rule description (for settings UI)
+ */
+export interface LintRuleInfo {
+  id: LintRuleId
+  label: string
+  description: string
+}
+
+/**
+ * Available lint rules
+ */
+export const LINT_RULES: LintRuleInfo[] = [
+  {
+    id: 'missing-key',
+    label: 'Missing key',
+    description: 'Question has no correct answer marked',
+  },
+  {
+    id: 'key-count',
+    label: 'Several keys',
+    description:
+      'Question has more than one key under the single-answer policy',
+  },
+  {
+    id: 'single-option',
+    label: 'Single option',
+    description: 'Question has fewer than two non-empty options',
+  },
+  {
+    id: 'duplicate-option',
+    label: 'Duplicate options',
+    description: 'Two options of a question have the same text',
+  },
+  {
+    id: 'duplicate-question',
+    label: 'Duplicate questions',
+    description: 'Two questions in the bank are (nearly) the same',
+  },
+  {
+    id: 'letter-reference',
+    label: 'Letter reference',
+    description:
+      'Unlocked option names other options ("A and B"); lock it so shuffling rewrites the letters',
+  },
+]
+
+/**
+ * Question with its answer rows
+ */
+interface QuestionEntry {
+  row: ParsedRow
+  answers: ParsedRow[]
+}
+
+/**
+ * Group rows into questions with their answers
+ */
+function collectQuestions(rows: ParsedRow[]): QuestionEntry[] {
+  const questions: QuestionEntry[] = []
+  for (const row of rows) {
+    if (row.type === 'question') {
+      questions.push({ row, answers: [] })
+    } else if (row.type === 'answer') {
+      questions.at(-1)?.answers.push(row)
+    }
+  }
+  return questions
+}
+
+/**
+ * Normalize text for comparison (case, punctuation and spacing are ignored)
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Count the character trigrams of a text
+ */
+function getTrigrams(text: string): Map<string, number> {
+  const trigrams = new Map<string, number>()
+  const padded = ` ${text} `
+  for (let i = 0; i < padded.length - 2; i++) {
+    const trigram = padded.substring(i, i + 3)
+    trigrams.set(trigram, (trigrams.get(trigram) ?? 0) + 1)
+  }
+  return trigrams
+}
+
+/**
+ * Dice similarity of two trigram sets (1 = identical)
+ */
+function getSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0
+  let total = 0
+  for (const [trigram, count] of a) {
+    shared += Math.min(count, b.get(trigram) ?? 0)
+    total += count
+  }
+  for (const count of b.values()) total += count
+  return total === 0 ? 1 : (2 * shared) / total
+}
+
+/**
+ * Find pairs of (nearly) identical questions
+ * Questions are compared on stem and options together, so generic stems such
+ * as "Choose the correct answer" with different options are not flagged
+ * @param questions Questions to compare
+ * @param threshold Similarity from which a pair counts as duplicate (0-1)
+ * @returns [earlier, later, similarity] for each later question's best match
+ */
+function findDuplicateQuestions(
+  questions: QuestionEntry[],
+  threshold: number
+): [QuestionEntry, QuestionEntry, number][] {
+  const entries = questions.map(question => ({
+    question,
+    trigrams: getTrigrams(
+      normalizeText(
+        [
+          question.row.text,
+          ...question.answers.map(answer => answer.text).sort(),
+        ].join(' ')
+      )
+    ),
+  }))
+
+  const duplicates: [QuestionEntry, QuestionEntry, number][] = []
+  entries.forEach((entry, index) => {
+    let best: [QuestionEntry, number] | undefined
+    for (const other of entries.slice(0, index)) {
+      const similarity = getSimilarity(entry.trigrams, other.trigrams)
+      if (similarity >= threshold && similarity > (best?.[1] ?? 0)) {
+        best = [other.question, similarity]
+      }
+    }
+    if (best) duplicates.push([best[0], entry.question, best[1]])
+  })
+  return duplicates
+}
+
+/**
+ * Lint valid parsed rows
+ * @param rows Parsed rows (run validateParsedMcq first)
+ * @param settings Lint settings (rule severities and options)
+ * @returns Diagnostics in row order
+ */
+export function lintRows(
+  rows: ParsedRow[],
+  settings: LintSettings
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const questions = collectQuestions(rows)
+
+  const report = (code: LintRuleId, row: ParsedRow, message: string) => {
+    const severity = settings.rules[code]
+    if (severity === 'off') return
+    diagnostics.push({
+      code,
+      severity,
+      message,
+      rowId: row.id,
+      line: row.sourceLine,
+    })
+  }
+
+  const missingKeys = new Set(findQuestionsWithoutKeys(rows))
+  for (const { row, answers } of questions) {
+    const question = `Question ${row.label}`
+
+    if (missingKeys.has(parseInt(row.label))) {
+      report('missing-key', row, `${question} has no correct answer marked`)
+    }
+
+    const keyCount = answers.filter(answer => answer.isKey).length
+    if (settings.keyPolicy === 'single' && keyCount > 1) {
+      report(
+        'key-count',
+        row,
+        `${question} has ${keyCount} keys but should have one`
+      )
+    }
+
+    const options = answers.filter(answer => answer.text.trim())
+    if (options.length < 2) {
+      report(
+        'single-option',
+        row,
+        `${question} has only ${options.length === 1 ? 'one option' : 'empty options'}`
+      )
+    }
+
+    const seen = new Map<string, ParsedRow>()
+    for (const answer of options) {
+      const text = normalizeText(answer.text)
+      const first = seen.get(text)
+      if (first) {
+        report(
+          'duplicate-option',
+          answer,
+          `${question} has the same option in ${first.label} and ${answer.label}`
+        )
+      } else {
+        seen.set(text, answer)
+      }
+    }
+
+    // Only locked answers get their letters rewritten when shuffled
+    for (const answer of options) {
+      if (!answer.locked && hasLetterReference(answer.text)) {
+        report(
+          'letter-reference',
+          answer,
+          `${question}, option ${answer.label} may refer to other options ("${answer.text}"); lock it to rewrite the letters when shuffling`
+        )
+      }
+    }
+  }
+
+  if (settings.rules['duplicate-question'] !== 'off') {
+    for (const [original, duplicate, similarity] of findDuplicateQuestions(
+      questions,
+      settings.duplicateThreshold
+    )) {
+      report(
+        'duplicate-question',
+        duplicate.row,
+        similarity === 1
+          ? `Question ${duplicate.row.label} duplicates question ${original.row.label}`
+          : `Question ${duplicate.row.label} looks like question ${original.row.label} (${Math.round(similarity * 100)}% similar)`
+      )
+    }
+  }
+
+  // Keep row order
+  const order = new Map(rows.map((row, index) => [row.id, index]))
+  return diagnostics.sort(
+    (a, b) => (order.get(a.rowId) ?? 0) - (order.get(b.rowId) ?? 0)
+  )
+}
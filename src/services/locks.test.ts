@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_FORMAT_SETTINGS } from '@/types/mcq'
+import { parseMcq } from './parser'
+import {
+  isFullyLocked,
+  setAnswersLock,
+  setSectionLock,
+  toggleRowLock,
+} from './locks'
+
+const ROWS = parseMcq(
+  `### Part one
+1. First
+A. a
+B. b
+2. Second
+A. c
+B. d
+### Part two
+3. Third
+A. e
+B. f`,
+  { ...DEFAULT_FORMAT_SETTINGS, anchorPhrases: [] }
+)
+
+const idOf = (text: string) => ROWS.find(row => row.text === text)?.id ?? -1
+const lockedTexts = (rows: typeof ROWS) =>
+  rows.filter(row => row.locked).map(row => row.text)
+
+describe('row locks', () => {
+  it('toggles a single row', () => {
+    const locked = toggleRowLock(ROWS, idOf('Second'))
+
+    expect(lockedTexts(locked)).toEqual(['Second'])
+    expect(lockedTexts(toggleRowLock(locked, idOf('Second')))).toEqual([])
+  })
+
+  it('locks a whole section up to the next one', () => {
+    const locked = setSectionLock(ROWS, idOf('Part one'), true)
+
+    expect(lockedTexts(locked)).toEqual([
+      'Part one',
+      'First',
+      'a',
+      'b',
+      'Second',
+      'c',
+      'd',
+    ])
+    expect(isFullyLocked(locked, idOf('Part one'))).toBe(true)
+    expect(isFullyLocked(locked, idOf('Part two'))).toBe(false)
+  })
+
+  it('locks all answers of a question', () => {
+    const locked = setAnswersLock(ROWS, idOf('First'), true)
+
+    expect(lockedTexts(locked)).toEqual(['a', 'b'])
+    expect(isFullyLocked(locked, idOf('First'))).toBe(true)
+    expect(lockedTexts(setAnswersLock(locked, idOf('First'), false))).toEqual(
+      []
+    )
+  })
+})
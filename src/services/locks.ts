@@ -0,0 +1,127 @@
+/**
+ * Row Locks Service
+ * Lock/unlock rows so shuffling keeps them in place (see ParsedRow.locked)
+ */
+
+import type { ParsedRow } from '../types/mcq'
+
+/**
+ * Collect the IDs of rows belonging to a section or question
+ * A section owns every row up to the next section; a question owns its
+ * answers (up to the next question, group or section)
+ * @param rows Parsed rows
+ * @param rowId ID of the section or question row
+ * @returns IDs of the owned rows (the row itself excluded, empty rows skipped)
+ */
+function getChildRowIds(rows: ParsedRow[], rowId: number): number[] {
+  const index = rows.findIndex(row => row.id === rowId)
+  const parent = rows[index]
+  if (!parent) return []
+
+  const ids: number[] = []
+  for (const row of rows.slice(index + 1)) {
+    if (row.type === 'section') break
+    if (parent.type === 'question') {
+      if (row.type === 'question' || row.type === 'group') break
+      if (row.type !== 'answer') continue
+    }
+    if (row.type !== 'empty') ids.push(row.id)
+  }
+  return ids
+}
+
+/**
+ * Toggle the lock of a single row
+ * @param rows Parsed rows
+ * @param rowId Row ID
+ * @returns Updated rows
+ */
+export function toggleRowLock(rows: ParsedRow[], rowId: number): ParsedRow[] {
+  return rows.map(row =>
+    row.id === rowId ? { ...row, locked: !row.locked } : row
+  )
+}
+
+/**
+ * Lock or unlock a section with everything in it (groups, questions, answers)
+ * @param rows Parsed rows
+ * @param sectionRowId Section row ID
+ * @param locked Lock state to set
+ * @returns Updated rows
+ */
+export function setSectionLock(
+  rows: ParsedRow[],
+  sectionRowId: number,
+  locked: boolean
+): ParsedRow[] {
+  const ids = new Set([sectionRowId, ...getChildRowIds(rows, sectionRowId)])
+  return rows.map(row => (ids.has(row.id) ? { ...row, locked } : row))
+}
+
+/**
+ * Lock or unlock all answers of a question (the question itself is unchanged)
+ * @param rows Parsed rows
+ * @param questionRowId Question row ID
+ * @param locked Lock state to set
+ * @returns Updated rows
+ */
+export function setAnswersLock(
+  rows: ParsedRow[],
+  questionRowId: number,
+  locked: boolean
+): ParsedRow[] {
+  const ids = new Set(getChildRowIds(rows, questionRowId))
+  return rows.map(row => (ids.has(row.id) ? { ...row, locked } : row))
+}
+
+/**
+ * Check whether a section (with its contents) or all answers of a question are locked
+ * @param rows Parsed rows
+ * @param rowId Section or question row ID
+ * @returns True if every owned row is locked (false when there are none)
+ */
+export function isFullyLocked(rows: ParsedRow[], rowId: number): boolean {
+  const row = rows.find(candidate => candidate.id === rowId)
+  const ids = new Set(getChildRowIds(rows, rowId))
+  if (row?.type === 'section') ids.add(rowId)
+  if (ids.size === 0) return false
+  return rows.every(candidate => !ids.has(candidate.id) || candidate.locked)
+}
+
+/**
+ * Keep the locks of rows that are parsed again (locks are not part of the text)
+ * Rows are matched by type and text; answers also by their question's text
+ * @param previous Rows before parsing
+ * @param rows Newly parsed rows
+ * @returns Parsed rows with the lock state of their previous counterparts
+ */
+export function carryOverLocks(
+  previous: ParsedRow[],
+  rows: ParsedRow[]
+): ParsedRow[] {
+  const keysOf = (list: ParsedRow[]) => {
+    let question = ''
+    return list.map(row => {
+      if (row.type === 'question') question = row.text
+      return row.type === 'answer'
+        ? `answer\n${question}\n${row.text}`
+        : `${row.type}\n${row.text}`
+    })
+  }
+
+  // Locks by key, in row order (for repeated texts)
+  const locks = new Map<string, boolean[]>()
+  keysOf(previous).forEach((key, index) => {
+    const row = previous[index]
+    if (!row || row.type === 'empty') return
+    locks.set(key, [...(locks.get(key) ?? []), row.locked])
+  })
+
+  const keys = keysOf(rows)
+  return rows.map((row, index) => {
+    const locked = locks.get(keys[index] ?? '')?.shift()
+    return locked === undefined || locked === row.locked
+      ? row
+      : { ...row, locked }
+  })
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_EXAM_CONFIG } from '@/types/mcq'
+import { parseMcq } from './parser'
+import { shuffle } from './shuffle'
+import { buildQuestionMapping, mappingsToCsv } from './mapping'
+
+const SOURCE = `1. First? A. one *B. two C. three
+
+2. Second? *A. yes B. no`
+
+describe('buildQuestionMapping', () => {
+  it('maps shuffled questions and answers back to the source', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_EXAM_CONFIG.format)
+    const shuffled = shuffle(shuffle(rows, 'questions', 'q'), 'answers', 'a')
+    const mapping = buildQuestionMapping(shuffled)
+
+    expect(mapping.map(question => question.questionNumber)).toEqual([1, 2])
+    expect(mapping.map(question => question.originalNumber).sort()).toEqual([
+      1, 2,
+    ])
+
+    // Each keyed answer's original letter must map to its new letter
+    const keyed = shuffled.filter(row => row.type === 'answer' && row.isKey)
+    const mappedKeys = mapping.map(
+      question =>
+        question.answers.find(
+          answer =>
+            answer.originalLetter ===
+            (question.originalNumber === 1 ? 'B' : 'A')
+        )?.letter
+    )
+    expect(mappedKeys).toEqual(keyed.map(row => row.label))
+  })
+
+  it('exports one CSV line per question per version', () => {
+    const csv = mappingsToCsv([
+      {
+        code: '101',
+        questions: [
+          {
+            questionNumber: 1,
+            originalNumber: 2,
+            answers: [
+              { originalLetter: 'A', letter: 'B' },
+              { originalLetter: 'B', letter: 'A' },
+            ],
+          },
+        ],
+      },
+    ])
+
+    expect(csv.split('\n')).toEqual([
+      'Version,Question,Original Question,Answers (original→new)',
+      '101,1,2,A→B B→A',
+    ])
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Question Mapping Service
+ * Maps shuffled questions and answers back to their original numbers and letters
+ */
+
+import type { ExamVersion, ParsedRow } from '../types/mcq'
+
+/**
+ * Mapping of one shuffled question back to the source exam
+ */
+export interface QuestionMapping {
+  /** Question number in the shuffled exam */
+  questionNumber: number
+  /** Question number in the source exam */
+  originalNumber?: number
+  /** Answer letter permutation, in original letter order */
+  answers: {
+    /** Answer letter in the source exam */
+    originalLetter: string
+    /** Answer letter in the shuffled exam */
+    letter: string
+  }[]
+}
+
+/**
+ * Mapping of all questions of one exam version
+ */
+export interface VersionMapping {
+  /** Exam code (empty for the working copy) */
+  code: string
+  /** Question mappings in shuffled order */
+  questions: QuestionMapping[]
+}
+
+/**
+ * Build the question mapping for shuffled rows
+ * @param rows Shuffled rows
+ * @param startNumber Starting question number
+ * @returns Question mappings in shuffled order
+ */
+export function buildQuestionMapping(
+  rows: ParsedRow[],
+  startNumber = 1
+): QuestionMapping[] {
+  const mappings: QuestionMapping[] = []
+  let currentQuestionNum = startNumber
+
+  for (const row of rows) {
+    if (row.type === 'question') {
+      mappings.push({
+        questionNumber: currentQuestionNum,
+        originalNumber: row.originalNumber,
+        answers: [],
+      })
+      currentQuestionNum++
+    } else if (row.type === 'answer') {
+      mappings[mappings.length - 1]?.answers.push({
+        originalLetter: row.originalLabel ?? row.label,
+        letter: row.label,
+      })
+    }
+  }
+
+  mappings.forEach(mapping =>
+    mapping.answers.sort((a, b) =>
+      a.originalLetter.localeCompare(b.originalLetter)
+    )
+  )
+
+  return mappings
+}
+
+/**
+ * Build mappings for every generated version
+ * @param versions Generated exam versions
+ * @param startNumber Starting question number
+ * @returns One mapping per version
+ */
+export function buildVersionMappings(
+  versions: ExamVersion[],
+  startNumber = 1
+): VersionMapping[] {
+  return versions.map(version => ({
+    code: version.code,
+    questions: buildQuestionMapping(version.rows, startNumber),
+  }))
+}
+
+/**
+ * Format an answer permutation as text (original → new)
+ * @param mapping Question mapping
+ * @returns Permutation text (e.g., "A→C B→A C→B")
+ */
+export function formatAnswerPermutation(mapping: QuestionMapping): string {
+  return mapping.answers
+    .map(answer => `${answer.originalLetter}→${answer.letter}`)
+    .join(' ')
+}
+
+/**
+ * Export version mappings as CSV
+ * One line per question per version
+ * @param mappings Version mappings
+ * @returns CSV text
+ */
+export function mappingsToCsv(mappings: VersionMapping[]): string {
+  const header = 'Version,Question,Original Question,Answers (original→new)'
+  const lines = mappings.flatMap(version =>
+    version.questions.map(question =>
+      [
+        version.code,
+        question.questionNumber,
+        question.originalNumber ?? '',
+        formatAnswerPermutation(question),
+      ].join(',')
+    )
+  )
+  return [header, ...lines].join('\n')
+}
+
+/**
+ * Export version mappings as JSON
+ * @param mappings Version mappings
+ * @returns Pretty-printed JSON text
+ */
+export function mappingsToJson(mappings: VersionMapping[]): string {
+  return JSON.stringify(mappings, null, 2)
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildOmrLayout,
+  getOmrCapacity,
+  type OmrLayoutOptions,
+  type OmrRect,
+} from './omr-layout'
+
+const options: OmrLayoutOptions = {
+  pageSize: 'a4',
+  questionNumbers: Array.from({ length: 40 }, (_, i) => i + 1),
+  maxAnswers: 4,
+  studentIdDigits: 6,
+  examCodeDigits: 3,
+}
+
+const overlaps = (a: OmrRect, b: OmrRect) =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height
+
+describe('buildOmrLayout', () => {
+  it('gives the same geometry for the same options', () => {
+    expect(buildOmrLayout(options)).toEqual(buildOmrLayout({ ...options }))
+  })
+
+  it('keeps every bubble on the page and clear of the corner marks', () => {
+    const layout = buildOmrLayout(options)
+    const bubbles = [
+      ...layout.questions.flatMap(question => question.bubbles),
+      ...layout.studentId.columns.flat(),
+      ...layout.examCode.columns.flat(),
+    ]
+
+    expect(layout.fiducials).toHaveLength(4)
+    for (const bubble of bubbles) {
+      const bounds = {
+        x: bubble.x - bubble.r,
+        y: bubble.y - bubble.r,
+        width: bubble.r * 2,
+        height: bubble.r * 2,
+      }
+      expect(bounds.x).toBeGreaterThan(0)
+      expect(bounds.y).toBeGreaterThan(0)
+      expect(bounds.x + bounds.width).toBeLessThan(layout.width)
+      expect(bounds.y + bounds.height).toBeLessThan(layout.height)
+      expect(layout.fiducials.some(mark => overlaps(mark, bounds))).toBe(false)
+    }
+  })
+
+  it('builds one bubble column of 0-9 per digit', () => {
+    const layout = buildOmrLayout(options)
+
+    expect(layout.studentId.columns).toHaveLength(6)
+    expect(layout.examCode.columns).toHaveLength(3)
+    expect(layout.studentId.columns[0]?.map(b => b.value)).toEqual(
+      Array.from({ length: 10 }, (_, digit) => digit.toString())
+    )
+    expect(layout.questions[0]?.bubbles.map(b => b.value)).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+    ])
+  })
+
+  it('throws when the questions do not fit on one sheet', () => {
+    const capacity = getOmrCapacity('a4', 5)
+
+    expect(() =>
+      buildOmrLayout({
+        ...options,
+        maxAnswers: 5,
+        questionNumbers: Array.from({ length: capacity + 1 }, (_, i) => i + 1),
+      })
+    ).toThrow(`At most ${capacity} questions`)
+  })
+})
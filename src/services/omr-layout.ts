@@ -0,0 +1,346 @@
+/**
+ * OMR Layout Service
+ * Deterministic geometry of blank student answer sheets for optical mark
+ * reading: corner fiducials, name/class fields, student ID and exam code
+ * digit grids and one bubble row per question
+ * All positions are in millimetres from the top-left corner of the page. The
+ * same layout is used to print sheets and to read scans back, so any change
+ * here must keep printed sheets readable (bump OMR_LAYOUT_VERSION)
+ */
+
+import type { ExamConfig, ParsedRow, PdfPageSize } from '../types/mcq'
+import { getAnswerLetters } from './answer-letters'
+import { getAnswerSheetQuestions } from './generator'
+
+/** Version of the sheet geometry (printed on the sheet) */
+export const OMR_LAYOUT_VERSION = 1
+
+/** Page sizes in millimetres */
+export const OMR_PAGE_SIZES: Record<
+  PdfPageSize,
+  { width: number; height: number }
+> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+}
+
+const MARGIN = 10
+const FIDUCIAL_SIZE = 8
+/** Space between the fiducial rows and the sheet content */
+const FIDUCIAL_CLEARANCE = 4
+const BUBBLE_PITCH = 5
+const BUBBLE_RADIUS = 1.9
+const ROW_PITCH = 6
+/** Extra space after every block of rows (easier to follow by eye) */
+const BLOCK_ROWS = 5
+const BLOCK_GAP = 2
+const NUMBER_WIDTH = 9
+const COLUMN_GAP = 6
+const GRID_LABEL_HEIGHT = 5
+const GRID_PADDING = 1
+const WRITE_IN_HEIGHT = 5
+const GRID_GAP = 6
+const FIELD_PITCH = 10
+
+/**
+ * Rectangle (top-left corner and size)
+ */
+export interface OmrRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Bubble (center and radius) with the value it stands for
+ */
+export interface OmrBubble {
+  x: number
+  y: number
+  r: number
+  /** Answer letter or digit */
+  value: string
+}
+
+/**
+ * Digit grid: one column per digit, bubbles 0-9 under a write-in box
+ */
+export interface OmrDigitGrid {
+  label: string
+  /** Label baseline position */
+  labelX: number
+  labelY: number
+  /** Outline of the grid */
+  box: OmrRect
+  /** Write-in box above each column */
+  writeIn: OmrRect[]
+  /** Bubbles per column, 0-9 from top to bottom */
+  columns: OmrBubble[][]
+}
+
+/**
+ * Bubble row of a question
+ */
+export interface OmrQuestion {
+  number: number
+  /** Right edge and vertical center of the question number */
+  labelX: number
+  labelY: number
+  /** One bubble per answer letter */
+  bubbles: OmrBubble[]
+}
+
+/**
+ * Handwritten field (label followed by a line)
+ */
+export interface OmrField {
+  label: string
+  x: number
+  y: number
+  width: number
+}
+
+/**
+ * Student answer sheet layout
+ */
+export interface OmrLayout {
+  version: number
+  pageSize: PdfPageSize
+  width: number
+  height: number
+  /** Solid squares at the top-left, top-right, bottom-left and bottom-right */
+  fiducials: OmrRect[]
+  /** Title (centered at x, vertical center at y) */
+  title: { text: string; x: number; y: number }
+  fields: OmrField[]
+  studentId: OmrDigitGrid
+  examCode: OmrDigitGrid
+  questions: OmrQuestion[]
+}
+
+/**
+ * Options for buildOmrLayout
+ */
+export interface OmrLayoutOptions {
+  pageSize: PdfPageSize
+  /** Question numbers in sheet order */
+  questionNumbers: number[]
+  /** Bubbles per question */
+  maxAnswers: number
+  studentIdDigits: number
+  examCodeDigits: number
+}
+
+/**
+ * Get the student sheet options of an exam
+ * Printing and scanning both use these, so they always agree on the layout
+ * @param rows Parsed rows
+ * @param config Exam configuration (page size, numbering and grid sizes)
+ * @returns Layout options for buildOmrLayout
+ */
+export function getExamOmrOptions(
+  rows: ParsedRow[],
+  config: ExamConfig
+): OmrLayoutOptions {
+  const { questions, maxAnswers } = getAnswerSheetQuestions(
+    rows,
+    config.startNumber
+  )
+  return {
+    pageSize: config.pdf.pageSize,
+    questionNumbers: questions.map(question => question.number),
+    maxAnswers,
+    studentIdDigits: config.studentIdDigits,
+    examCodeDigits: config.examCodeDigits,
+  }
+}
+
+/**
+ * Vertical center of a question row, from the top of the question area
+ */
+function rowCenter(row: number): number {
+  return (
+    ROW_PITCH / 2 + row * ROW_PITCH + Math.floor(row / BLOCK_ROWS) * BLOCK_GAP
+  )
+}
+
+/**
+ * Lay out a digit grid
+ */
+function buildDigitGrid(
+  label: string,
+  digits: number,
+  x: number,
+  top: number
+): OmrDigitGrid {
+  const boxTop = top + GRID_LABEL_HEIGHT
+  const bubblesTop = boxTop + GRID_PADDING + WRITE_IN_HEIGHT + GRID_PADDING
+  const columnX = (column: number) => x + GRID_PADDING + column * BUBBLE_PITCH
+
+  return {
+    label,
+    labelX: x,
+    labelY: top + GRID_LABEL_HEIGHT - 1.5,
+    box: {
+      x,
+      y: boxTop,
+      width: digits * BUBBLE_PITCH + GRID_PADDING * 2,
+      height: bubblesTop + 10 * BUBBLE_PITCH + GRID_PADDING - boxTop,
+    },
+    writeIn: Array.from({ length: digits }, (_, column) => ({
+      x: columnX(column),
+      y: boxTop + GRID_PADDING,
+      width: BUBBLE_PITCH,
+      height: WRITE_IN_HEIGHT,
+    })),
+    columns: Array.from({ length: digits }, (_, column) =>
+      Array.from({ length: 10 }, (_, digit) => ({
+        x: columnX(column) + BUBBLE_PITCH / 2,
+        y: bubblesTop + BUBBLE_PITCH / 2 + digit * BUBBLE_PITCH,
+        r: BUBBLE_RADIUS,
+        value: digit.toString(),
+      }))
+    ),
+  }
+}
+
+/**
+ * Get the height of a digit grid including its label
+ */
+function digitGridHeight(): number {
+  return (
+    GRID_LABEL_HEIGHT + GRID_PADDING * 3 + WRITE_IN_HEIGHT + 10 * BUBBLE_PITCH
+  )
+}
+
+/**
+ * Get the question grid shape for a page
+ * @returns Columns, rows per column and column width
+ */
+function getQuestionGrid(
+  pageSize: PdfPageSize,
+  maxAnswers: number
+): { columns: number; rows: number; columnWidth: number; top: number } {
+  const { width, height } = OMR_PAGE_SIZES[pageSize]
+  const contentTop = MARGIN + FIDUCIAL_SIZE + FIDUCIAL_CLEARANCE
+  const top = contentTop + digitGridHeight() + GRID_GAP
+  const bottom = height - MARGIN - FIDUCIAL_SIZE - FIDUCIAL_CLEARANCE
+  const columnWidth = NUMBER_WIDTH + maxAnswers * BUBBLE_PITCH
+  const columns = Math.max(
+    1,
+    Math.floor((width - MARGIN * 2 + COLUMN_GAP) / (columnWidth + COLUMN_GAP))
+  )
+
+  let rows = 0
+  while (top + rowCenter(rows) + ROW_PITCH / 2 <= bottom) rows++
+  return { columns, rows, columnWidth, top }
+}
+
+/**
+ * Get the number of questions that fit on one sheet
+ * @param pageSize Paper size
+ * @param maxAnswers Bubbles per question
+ * @returns Question capacity
+ */
+export function getOmrCapacity(
+  pageSize: PdfPageSize,
+  maxAnswers: number
+): number {
+  const { columns, rows } = getQuestionGrid(pageSize, maxAnswers)
+  return columns * rows
+}
+
+/**
+ * Build the layout of a blank student answer sheet
+ * Questions fill columns top to bottom, left to right
+ * @param options Page size, questions, bubbles per question and grid sizes
+ * @returns Sheet layout (same options always give the same layout)
+ * @throws Error if the questions do not fit on one sheet
+ */
+export function buildOmrLayout(options: OmrLayoutOptions): OmrLayout {
+  const { pageSize, questionNumbers, maxAnswers } = options
+  const { width, height } = OMR_PAGE_SIZES[pageSize]
+  const grid = getQuestionGrid(pageSize, maxAnswers)
+
+  if (questionNumbers.length > grid.columns * grid.rows) {
+    throw new Error(
+      `At most ${grid.columns * grid.rows} questions with ${maxAnswers} options fit on one answer sheet`
+    )
+  }
+
+  const far = (size: number) => [MARGIN, width - MARGIN - size]
+  const fiducials = [MARGIN, height - MARGIN - FIDUCIAL_SIZE].flatMap(y =>
+    far(FIDUCIAL_SIZE).map(x => ({
+      x,
+      y,
+      width: FIDUCIAL_SIZE,
+      height: FIDUCIAL_SIZE,
+    }))
+  )
+
+  // Digit grids sit at the top right, student ID rightmost
+  const contentTop = MARGIN + FIDUCIAL_SIZE + FIDUCIAL_CLEARANCE
+  const idWidth = options.studentIdDigits * BUBBLE_PITCH + GRID_PADDING * 2
+  const codeWidth = options.examCodeDigits * BUBBLE_PITCH + GRID_PADDING * 2
+  const idX = width - MARGIN - idWidth
+  const codeX = idX - GRID_GAP - codeWidth
+  const studentId = buildDigitGrid(
+    'Student ID',
+    options.studentIdDigits,
+    idX,
+    contentTop
+  )
+  const examCode = buildDigitGrid(
+    'Exam code',
+    options.examCodeDigits,
+    codeX,
+    contentTop
+  )
+
+  const fieldWidth = codeX - GRID_GAP - MARGIN
+  const fields = ['Name', 'Class', 'Date'].map((label, index) => ({
+    label,
+    x: MARGIN,
+    y: contentTop + FIELD_PITCH * (index + 1),
+    width: fieldWidth,
+  }))
+
+  const letters = getAnswerLetters(maxAnswers)
+  const columnStep =
+    grid.columns > 1
+      ? (width - MARGIN * 2 - grid.columnWidth) / (grid.columns - 1)
+      : 0
+  const questions = questionNumbers.map((number, index) => {
+    const columnX = MARGIN + Math.floor(index / grid.rows) * columnStep
+    const y = grid.top + rowCenter(index % grid.rows)
+    return {
+      number,
+      labelX: columnX + NUMBER_WIDTH - 2,
+      labelY: y,
+      bubbles: letters.map((value, letter) => ({
+        x: columnX + NUMBER_WIDTH + BUBBLE_PITCH / 2 + letter * BUBBLE_PITCH,
+        y,
+        r: BUBBLE_RADIUS,
+        value,
+      })),
+    }
+  })
+
+  return {
+    version: OMR_LAYOUT_VERSION,
+    pageSize,
+    width,
+    height,
+    fiducials,
+    title: {
+      text: 'ANSWER SHEET',
+      x: width / 2,
+      y: MARGIN + FIDUCIAL_SIZE / 2,
+    },
+    fields,
+    studentId,
+    examCode,
+    questions,
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import { buildOmrLayout, type OmrBubble, type OmrLayout } from './omr-layout'
+import { readOmrSheet, type OmrImage } from './omr-reader'
+
+const layout = buildOmrLayout({
+  pageSize: 'a4',
+  questionNumbers: Array.from({ length: 10 }, (_, i) => i + 1),
+  maxAnswers: 4,
+  studentIdDigits: 4,
+  examCodeDigits: 3,
+})
+
+const PX_PER_MM = 4
+const ANGLE = (1.5 * Math.PI) / 180
+const OFFSET = { x: 30, y: 20 }
+
+/**
+ * Render a filled sheet as a slightly rotated scan
+ * @param marks Bubble fills by gray level (0 = black pencil)
+ */
+function renderScan(
+  sheet: OmrLayout,
+  marks: { bubble: OmrBubble; level: number }[]
+): OmrImage {
+  const width = Math.round(sheet.width * PX_PER_MM) + 60
+  const height = Math.round(sheet.height * PX_PER_MM) + 60
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  const cos = Math.cos(ANGLE)
+  const sin = Math.sin(ANGLE)
+
+  // Paint the pixels around a sheet area whose sheet coordinates pass a test
+  const paint = (
+    box: { x: number; y: number; width: number; height: number },
+    level: (x: number, y: number) => number | undefined
+  ) => {
+    const corners = [
+      [box.x, box.y],
+      [box.x + box.width, box.y + box.height],
+    ].map(([x = 0, y = 0]) => ({
+      x: OFFSET.x + PX_PER_MM * (x * cos - y * sin),
+      y: OFFSET.y + PX_PER_MM * (x * sin + y * cos),
+    }))
+    const pad = PX_PER_MM * 2
+    const [a = { x: 0, y: 0 }, b = { x: 0, y: 0 }] = corners
+    for (let py = Math.floor(a.y - pad); py <= b.y + pad; py++) {
+      for (
+        let px = Math.floor(Math.min(a.x, b.x) - pad);
+        px <= Math.max(a.x, b.x) + pad;
+        px++
+      ) {
+        const dx = (px - OFFSET.x) / PX_PER_MM
+        const dy = (py - OFFSET.y) / PX_PER_MM
+        const value = level(dx * cos + dy * sin, -dx * sin + dy * cos)
+        if (value === undefined) continue
+        const index = (py * width + px) * 4
+        data.fill(value, index, index + 3)
+      }
+    }
+  }
+
+  for (const mark of sheet.fiducials) {
+    paint(mark, (x, y) =>
+      x >= mark.x &&
+      x <= mark.x + mark.width &&
+      y >= mark.y &&
+      y <= mark.y + mark.height
+        ? 0
+        : undefined
+    )
+  }
+
+  const bubbles = [
+    ...sheet.questions.flatMap(question => question.bubbles),
+    ...sheet.studentId.columns.flat(),
+    ...sheet.examCode.columns.flat(),
+  ]
+  for (const bubble of bubbles) {
+    const fill = marks.find(mark => mark.bubble === bubble)?.level
+    const box = {
+      x: bubble.x - bubble.r,
+      y: bubble.y - bubble.r,
+      width: bubble.r * 2,
+      height: bubble.r * 2,
+    }
+    paint(box, (x, y) => {
+      const distance = Math.hypot(x - bubble.x, y - bubble.y)
+      if (Math.abs(distance - bubble.r) < 0.15) return 0
+      return fill !== undefined && distance < bubble.r ? fill : undefined
+    })
+  }
+
+  return { width, height, data }
+}
+
+function question(number: number, letter: string): OmrBubble {
+  const bubble = layout.questions
+    .find(q => q.number === number)
+    ?.bubbles.find(b => b.value === letter)
+  if (!bubble) throw new Error(`No bubble ${number}${letter}`)
+  return bubble
+}
+
+function digits(grid: 'studentId' | 'examCode', value: string): OmrBubble[] {
+  return [...value].flatMap(
+    (digit, column) =>
+      layout[grid].columns[column]?.filter(b => b.value === digit) ?? []
+  )
+}
+
+describe('readOmrSheet', () => {
+  it('reads marks, student ID and exam code from a tilted scan', () => {
+    const filled = [
+      question(1, 'A'),
+      question(2, 'C'),
+      question(3, 'B'),
+      question(3, 'D'),
+      question(10, 'D'),
+      ...digits('studentId', '2041'),
+      ...digits('examCode', '102'),
+    ]
+    const scan = renderScan(
+      layout,
+      filled.map(bubble => ({ bubble, level: 40 }))
+    )
+
+    const response = readOmrSheet(scan, layout)
+
+    expect(response.studentId).toBe('2041')
+    expect(response.examCode).toBe('102')
+    expect(response.answers[0]).toEqual({
+      number: 1,
+      marked: ['A'],
+      unclear: [],
+    })
+    expect(response.answers[2]?.marked).toEqual(['B', 'D'])
+    expect(response.answers[4]?.marked).toEqual([])
+    expect(response.answers[9]?.marked).toEqual(['D'])
+    expect(response.flags).toEqual([])
+  })
+
+  it('flags faint marks and double-marked digits for review', () => {
+    const scan = renderScan(layout, [
+      { bubble: question(4, 'B'), level: 150 },
+      ...[...digits('studentId', '12'), ...digits('studentId', '3')].map(
+        bubble => ({ bubble, level: 40 })
+      ),
+      ...digits('examCode', '101').map(bubble => ({ bubble, level: 40 })),
+    ])
+
+    const response = readOmrSheet(scan, layout)
+
+    expect(response.answers[3]).toEqual({
+      number: 4,
+      marked: [],
+      unclear: ['B'],
+    })
+    expect(response.studentId).toBe('?2')
+    expect(response.flags.map(flag => flag.field)).toEqual([
+      'studentId',
+      'question',
+    ])
+    expect(response.flags[1]?.questionNumber).toBe(4)
+  })
+
+  it('fails when the corner marks are missing', () => {
+    const scan = renderScan(layout, [])
+    const blank = new Uint8ClampedArray(scan.data.length).fill(255)
+    // Keep some ink so the scan has contrast
+    blank.fill(0, 0, scan.width * 4 * 2)
+
+    expect(() => readOmrSheet({ ...scan, data: blank }, layout)).toThrow(
+      /corner marks/
+    )
+  })
+})
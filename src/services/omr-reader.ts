@@ -0,0 +1,419 @@
+/**
+ * OMR Reader Service
+ * Reads filled student answer sheets (see buildOmrLayout) from scanned images
+ * Runs on the CPU with plain pixel arithmetic: find the four corner marks,
+ * map the sheet geometry onto the scan with a perspective transform, then
+ * measure how dark each bubble is. Marks that are neither clearly filled nor
+ * clearly empty are flagged for manual review instead of being guessed.
+ */
+
+import type { OmrBubble, OmrDigitGrid, OmrLayout } from './omr-layout'
+
+/** Mean darkness (0 = paper, 1 = ink) at which a bubble counts as filled */
+const FILLED_DARKNESS = 0.5
+/** Bubbles between this and FILLED_DARKNESS are flagged for review */
+const UNCLEAR_DARKNESS = 0.28
+/** Part of the bubble radius that is sampled (stays inside the printed ring) */
+const SAMPLE_RADIUS = 0.65
+/** Samples across the sampled radius */
+const SAMPLE_STEPS = 6
+/** Size of the areas searched for corner marks, as a share of the scan */
+const CORNER_AREA = 0.25
+
+/**
+ * Scanned page pixels (same layout as ImageData: RGBA, row by row)
+ */
+export interface OmrImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Bubbles read for one question
+ */
+export interface OmrQuestionResponse {
+  number: number
+  /** Letters clearly filled in */
+  marked: string[]
+  /** Letters with a partial mark (erased or faint) */
+  unclear: string[]
+}
+
+/**
+ * Something on a sheet that needs a human look
+ */
+export interface OmrReviewFlag {
+  field: 'studentId' | 'examCode' | 'question'
+  /** Question the flag is about (question flags only) */
+  questionNumber?: number
+  message: string
+}
+
+/**
+ * Everything read from one sheet
+ */
+export interface OmrSheetResponse {
+  /** Student ID digits ('?' for unreadable columns, blank columns skipped) */
+  studentId: string
+  /** Exam code digits (same rules as studentId) */
+  examCode: string
+  answers: OmrQuestionResponse[]
+  flags: OmrReviewFlag[]
+}
+
+/**
+ * Scan converted to gray levels, with its ink and paper levels
+ */
+interface GrayScan {
+  width: number
+  height: number
+  gray: Uint8Array
+  /** Gray levels at or below this are ink */
+  threshold: number
+  /** Mean gray level of ink and paper */
+  ink: number
+  paper: number
+}
+
+/**
+ * Convert RGBA pixels to gray and split ink from paper (Otsu's method)
+ */
+function toGrayScan(image: OmrImage): GrayScan {
+  const { width, height, data } = image
+  const gray = new Uint8Array(width * height)
+  const histogram = new Array<number>(256).fill(0)
+
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    const level = Math.round(
+      ((data[p] ?? 255) * 299 +
+        (data[p + 1] ?? 255) * 587 +
+        (data[p + 2] ?? 255) * 114) /
+        1000
+    )
+    gray[i] = level
+    histogram[level] = (histogram[level] ?? 0) + 1
+  }
+
+  const total = gray.length
+  const totalSum = histogram.reduce(
+    (sum, count, level) => sum + count * level,
+    0
+  )
+  let best = { threshold: 127, ink: 0, paper: 255, variance: -1 }
+  let darkCount = 0
+  let darkSum = 0
+
+  for (let level = 0; level < 255; level++) {
+    const count = histogram[level] ?? 0
+    darkCount += count
+    darkSum += count * level
+    const lightCount = total - darkCount
+    if (darkCount === 0 || lightCount === 0) continue
+
+    const ink = darkSum / darkCount
+    const paper = (totalSum - darkSum) / lightCount
+    const variance = darkCount * lightCount * (paper - ink) ** 2
+    if (variance > best.variance) {
+      best = { threshold: level, ink, paper, variance }
+    }
+  }
+
+  if (best.paper - best.ink < 32) {
+    throw new Error('Scan has too little contrast to read')
+  }
+  return { width, height, gray, ...best }
+}
+
+/**
+ * Find the corner mark nearest to a corner of the scan
+ * Looks for a solid, roughly square blob of ink of about the expected size
+ * @param corner Corner as 0/1 coordinates (e.g., {x: 1, y: 0} = top right)
+ * @param expectedSize Expected side of the mark in pixels
+ * @returns Center of the mark in pixels, or undefined if none was found
+ */
+function findCornerMark(
+  scan: GrayScan,
+  corner: Point,
+  expectedSize: number
+): Point | undefined {
+  const areaWidth = Math.round(scan.width * CORNER_AREA)
+  const areaHeight = Math.round(scan.height * CORNER_AREA)
+  const left = corner.x ? scan.width - areaWidth : 0
+  const top = corner.y ? scan.height - areaHeight : 0
+  const isInk = (x: number, y: number) =>
+    (scan.gray[(top + y) * scan.width + left + x] ?? 255) <= scan.threshold
+
+  const seen = new Uint8Array(areaWidth * areaHeight)
+  const stack: number[] = []
+  let best: { center: Point; distance: number } | undefined
+
+  for (let startY = 0; startY < areaHeight; startY++) {
+    for (let startX = 0; startX < areaWidth; startX++) {
+      const start = startY * areaWidth + startX
+      if (seen[start] || !isInk(startX, startY)) continue
+
+      // Flood fill the blob
+      seen[start] = 1
+      stack.push(start)
+      let count = 0
+      let sumX = 0
+      let sumY = 0
+      let minX = startX
+      let maxX = startX
+      let minY = startY
+      let maxY = startY
+      let index: number | undefined
+      while ((index = stack.pop()) !== undefined) {
+        const x = index % areaWidth
+        const y = (index - x) / areaWidth
+        count++
+        sumX += x
+        sumY += y
+        minX = Math.min(minX, x)
+        maxX = Math.max(maxX, x)
+        minY = Math.min(minY, y)
+        maxY = Math.max(maxY, y)
+
+        const neighbours: [number, number][] = [
+          [x - 1, y],
+          [x + 1, y],
+          [x, y - 1],
+          [x, y + 1],
+        ]
+        for (const [nx, ny] of neighbours) {
+          if (nx < 0 || ny < 0 || nx >= areaWidth || ny >= areaHeight) continue
+          const next = ny * areaWidth + nx
+          if (seen[next] || !isInk(nx, ny)) continue
+          seen[next] = 1
+          stack.push(next)
+        }
+      }
+
+      // Solid square of about the right size (tilted squares fill less of their box)
+      const boxWidth = maxX - minX + 1
+      const boxHeight = maxY - minY + 1
+      const side = Math.sqrt(count)
+      if (side < expectedSize * 0.6 || side > expectedSize * 1.6) continue
+      if (boxWidth > boxHeight * 1.5 || boxHeight > boxWidth * 1.5) continue
+      if (count < boxWidth * boxHeight * 0.6) continue
+
+      const center = { x: left + sumX / count, y: top + sumY / count }
+      const distance = Math.hypot(
+        center.x - corner.x * scan.width,
+        center.y - corner.y * scan.height
+      )
+      if (!best || distance < best.distance) best = { center, distance }
+    }
+  }
+
+  return best?.center
+}
+
+/**
+ * Solve a square linear system (Gauss-Jordan elimination with pivoting)
+ */
+function solveLinear(matrix: number[][], values: number[]): number[] {
+  const size = values.length
+  const rows = matrix.map((row, i) => [...row, values[i] ?? 0])
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(rows[r]?.[col] ?? 0) > Math.abs(rows[pivot]?.[col] ?? 0)) {
+        pivot = r
+      }
+    }
+    const pivotRow = rows[pivot]
+    const current = rows[col]
+    if (!pivotRow || !current) break
+    rows[pivot] = current
+    rows[col] = pivotRow
+
+    const divisor = pivotRow[col] ?? 0
+    if (Math.abs(divisor) < 1e-12) {
+      throw new Error('Corner marks are not in a usable position')
+    }
+    rows.forEach((row, r) => {
+      if (r === col) return
+      const factor = (row[col] ?? 0) / divisor
+      for (let c = col; c <= size; c++) {
+        row[c] = (row[c] ?? 0) - factor * (pivotRow[c] ?? 0)
+      }
+    })
+  }
+
+  return rows.map((row, i) => (row[size] ?? 0) / (row[i] ?? 1))
+}
+
+/**
+ * Get the perspective transform that maps four points onto four others
+ * @param from Source points (sheet millimetres)
+ * @param to Target points (scan pixels)
+ * @returns Function mapping a source point to a target point
+ */
+function getPerspectiveTransform(
+  from: Point[],
+  to: Point[]
+): (point: Point) => Point {
+  const matrix: number[][] = []
+  const values: number[] = []
+  from.forEach((source, i) => {
+    const target = to[i] ?? source
+    const { x: u, y: v } = source
+    matrix.push([u, v, 1, 0, 0, 0, -u * target.x, -v * target.x])
+    matrix.push([0, 0, 0, u, v, 1, -u * target.y, -v * target.y])
+    values.push(target.x, target.y)
+  })
+
+  const [a = 0, b = 0, c = 0, d = 0, e = 0, f = 0, g = 0, h = 0] = solveLinear(
+    matrix,
+    values
+  )
+  return ({ x, y }) => {
+    const w = g * x + h * y + 1
+    return { x: (a * x + b * y + c) / w, y: (d * x + e * y + f) / w }
+  }
+}
+
+/**
+ * Measure how dark the inside of a bubble is
+ * @returns Mean darkness from 0 (paper) to 1 (ink)
+ */
+function measureBubble(
+  scan: GrayScan,
+  toScan: (point: Point) => Point,
+  bubble: OmrBubble
+): number {
+  const radius = bubble.r * SAMPLE_RADIUS
+  const step = radius / SAMPLE_STEPS
+  const range = scan.paper - scan.ink
+  let total = 0
+  let count = 0
+
+  for (let i = -SAMPLE_STEPS; i <= SAMPLE_STEPS; i++) {
+    for (let j = -SAMPLE_STEPS; j <= SAMPLE_STEPS; j++) {
+      if (i * i + j * j > SAMPLE_STEPS * SAMPLE_STEPS) continue
+      const point = toScan({ x: bubble.x + j * step, y: bubble.y + i * step })
+      const x = Math.round(point.x)
+      const y = Math.round(point.y)
+      const inside = x >= 0 && y >= 0 && x < scan.width && y < scan.height
+      const level = inside
+        ? (scan.gray[y * scan.width + x] ?? scan.paper)
+        : scan.paper
+      total += Math.min(1, Math.max(0, (scan.paper - level) / range))
+      count++
+    }
+  }
+
+  return total / count
+}
+
+/**
+ * Split bubbles into filled and unclear ones
+ */
+function classifyBubbles(
+  bubbles: OmrBubble[],
+  measure: (bubble: OmrBubble) => number
+): { marked: string[]; unclear: string[] } {
+  const marked: string[] = []
+  const unclear: string[] = []
+  for (const bubble of bubbles) {
+    const darkness = measure(bubble)
+    if (darkness >= FILLED_DARKNESS) marked.push(bubble.value)
+    else if (darkness >= UNCLEAR_DARKNESS) unclear.push(bubble.value)
+  }
+  return { marked, unclear }
+}
+
+/**
+ * Read a digit grid: one filled bubble per column, blank columns are skipped
+ */
+function readDigitGrid(
+  grid: OmrDigitGrid,
+  field: 'studentId' | 'examCode',
+  measure: (bubble: OmrBubble) => number,
+  flags: OmrReviewFlag[]
+): string {
+  const digits = grid.columns.map((column, index) => {
+    const { marked, unclear } = classifyBubbles(column, measure)
+    if (unclear.length === 0 && marked.length <= 1) return marked[0] ?? ''
+
+    flags.push({
+      field,
+      message: `${grid.label} digit ${index + 1}: ${
+        marked.length > 1
+          ? `several digits marked (${marked.join(', ')})`
+          : 'unclear mark'
+      }`,
+    })
+    return '?'
+  })
+
+  const value = digits.join('')
+  if (!value) flags.push({ field, message: `${grid.label} is blank` })
+  return value
+}
+
+/**
+ * Read a scanned answer sheet
+ * @param image Scanned page (any resolution; the whole sheet must be visible)
+ * @param layout Layout the sheet was printed with
+ * @returns Student ID, exam code, marks per question and review flags
+ * @throws Error if the scan has no contrast or the corner marks are not found
+ */
+export function readOmrSheet(
+  image: OmrImage,
+  layout: OmrLayout
+): OmrSheetResponse {
+  const scan = toGrayScan(image)
+  const markSize = layout.fiducials[0]?.width ?? 0
+  const expectedSize = (markSize / layout.width) * scan.width
+  const corners = [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 1, y: 1 },
+  ]
+
+  const found = corners.map(corner =>
+    findCornerMark(scan, corner, expectedSize)
+  )
+  const marks = found.filter((mark): mark is Point => mark !== undefined)
+  if (marks.length < corners.length) {
+    throw new Error(
+      `Found ${marks.length} of 4 corner marks - check that the whole sheet is scanned`
+    )
+  }
+
+  const toScan = getPerspectiveTransform(
+    layout.fiducials.map(mark => ({
+      x: mark.x + mark.width / 2,
+      y: mark.y + mark.height / 2,
+    })),
+    marks
+  )
+  const measure = (bubble: OmrBubble) => measureBubble(scan, toScan, bubble)
+
+  const flags: OmrReviewFlag[] = []
+  const studentId = readDigitGrid(layout.studentId, 'studentId', measure, flags)
+  const examCode = readDigitGrid(layout.examCode, 'examCode', measure, flags)
+  const answers = layout.questions.map(question => {
+    const { marked, unclear } = classifyBubbles(question.bubbles, measure)
+    if (unclear.length > 0) {
+      flags.push({
+        field: 'question',
+        questionNumber: question.number,
+        message: `Question ${question.number}: unclear mark on ${unclear.join(', ')}`,
+      })
+    }
+    return { number: question.number, marked, unclear }
+  })
+
+  return { studentId, examCode, answers, flags }
+}
@@ -0,0 +1,474 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_EXAM_CONFIG, DEFAULT_FORMAT_SETTINGS } from '@/types/mcq'
+import { parseAnswerKey, parseMcq } from './parser'
+import {
+  generateAnswerKeyEntries,
+  generateExamHtml,
+  generateExamOutput,
+  summarizePoints,
+} from './generator'
+import { getLabelPresetSettings } from './label-presets'
+import { validateParsedMcq } from './validator'
+import { shuffle } from './shuffle'
+
+const EIGHT_OPTIONS = { ...DEFAULT_FORMAT_SETTINGS, maxOptions: 8 }
+
+const INPUT = `1. Pick the prime
+A. 4
+B. 6
+C. 8
+D. 9
+E. 10
+F. 12
+*G. 13
+H. 14`
+
+describe('parseMcq', () => {
+  it('parses answer letters up to the configured maximum', () => {
+    const rows = parseMcq(INPUT, EIGHT_OPTIONS)
+    const answers = rows.filter(row => row.type === 'answer')
+
+    expect(answers.map(row => row.label)).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+      'E',
+      'F',
+      'G',
+      'H',
+    ])
+    expect(answers.find(row => row.isKey)?.label).toBe('G')
+    expect(validateParsedMcq(rows, 8).isValid).toBe(true)
+  })
+
+  it('ignores letters beyond the maximum', () => {
+    const rows = parseMcq(INPUT, DEFAULT_FORMAT_SETTINGS)
+    const answers = rows.filter(row => row.type === 'answer')
+
+    expect(answers.map(row => row.label)).toEqual(['A', 'B', 'C', 'D', 'E'])
+  })
+})
+
+describe('parseMcq with configured label formats', () => {
+  it('parses "(1)" questions, "[A]" answers and a "#" correct marker', () => {
+    const settings = {
+      ...DEFAULT_FORMAT_SETTINGS,
+      questionPrefix: ['('],
+      questionPostfix: [')'],
+      answerPrefix: ['['],
+      answerPostfix: [']'],
+      correctPrefix: ['#'],
+    }
+
+    const rows = parseMcq(
+      '(1) First?\n[A] one\n#[B] two\n(2) Second?\n#[A] yes\n[B] no',
+      settings
+    )
+
+    expect(
+      rows.filter(row => row.type !== 'empty').map(row => row.label)
+    ).toEqual(['1', 'A', 'B', '2', 'A', 'B'])
+    expect(rows.filter(row => row.isKey).map(row => row.text)).toEqual([
+      'two',
+      'yes',
+    ])
+    expect(validateParsedMcq(rows).isValid).toBe(true)
+  })
+
+  it('parses "Câu 1:" and "Question 1 -" labels', () => {
+    const settings = {
+      ...DEFAULT_FORMAT_SETTINGS,
+      questionPrefix: ['Câu', 'Question'],
+      questionPostfix: [':', '-'],
+    }
+
+    const rows = parseMcq(
+      'Câu 1: Thủ đô?\nA. Hà Nội\nB. Huế\nQuestion 2 - Capital?\nA. Paris\nB. Lyon',
+      settings
+    )
+    const questions = rows.filter(row => row.type === 'question')
+
+    expect(questions.map(row => row.text)).toEqual(['Thủ đô?', 'Capital?'])
+    expect(rows.filter(row => row.type === 'answer')).toHaveLength(4)
+  })
+
+  it('still recognizes the built-in "1." and "A)" forms', () => {
+    const rows = parseMcq('1. Q?\nA) a\n*B) b', {
+      ...DEFAULT_FORMAT_SETTINGS,
+      questionPostfix: [':'],
+      answerPostfix: [']'],
+      correctPrefix: ['#'],
+    })
+
+    expect(rows.filter(row => row.type === 'answer')).toHaveLength(2)
+    expect(rows.find(row => row.isKey)?.text).toBe('b')
+  })
+})
+
+describe('validateParsedMcq', () => {
+  it('flags answers beyond the maximum option count', () => {
+    const rows = parseMcq(INPUT, EIGHT_OPTIONS)
+
+    const result = validateParsedMcq(rows, 5)
+
+    expect(result.isValid).toBe(false)
+    expect(
+      result.validatedRows.filter(row => row.type === 'error').length
+    ).toBeGreaterThan(0)
+  })
+  it('describes each problem with its source line', () => {
+    const rows = parseMcq(
+      `### Part one
+
+1. First
+A. a
+C. c
+
+2. Second`,
+      DEFAULT_FORMAT_SETTINGS
+    )
+
+    const { diagnostics } = validateParsedMcq(rows)
+
+    expect(
+      diagnostics.map(d => `${d.line}: ${d.severity} ${d.message}`)
+    ).toEqual([
+      '4: error Question 1 has answer C after A',
+      '5: error Question 1 has answer C after A',
+      '7: error Question 2 has no answers',
+    ])
+  })
+
+  it('re-checks rows flagged by an earlier run', () => {
+    const rows = validateParsedMcq(
+      parseMcq('1. First\nA. a\nC. c', DEFAULT_FORMAT_SETTINGS)
+    ).validatedRows
+    const fixed = rows.map(row =>
+      row.label === 'C' ? { ...row, label: 'B' } : row
+    )
+
+    expect(validateParsedMcq(fixed).isValid).toBe(true)
+  })
+})
+
+describe('source lines', () => {
+  it('records the input line each row starts on', () => {
+    const rows = parseMcq(
+      `
+
+### Part one
+1. First
+second line
+*A. a
+B. b
+  with more`,
+      DEFAULT_FORMAT_SETTINGS
+    )
+
+    expect(
+      rows
+        .filter(row => row.type !== 'empty')
+        .map(row => `${row.label}:${row.sourceLine}`)
+    ).toEqual(['S:3', '1:4', 'A:6', 'B:7'])
+  })
+})
+
+describe('parseAnswerKey', () => {
+  it('accepts letters up to the maximum and drops the rest', () => {
+    const key = parseAnswerKey('1. H\n2. A, F\n3. J', 8)
+
+    expect(key.get(1)).toEqual(['H'])
+    expect(key.get(2)).toEqual(['A', 'F'])
+    expect(key.has(3)).toBe(false)
+  })
+
+  it('defaults to five options', () => {
+    expect(parseAnswerKey('1. F').has(1)).toBe(false)
+  })
+})
+
+describe('shuffle with more than five options', () => {
+  it('reletters answers beyond E', () => {
+    const rows = parseMcq(INPUT, EIGHT_OPTIONS)
+
+    const shuffled = shuffle(rows, 'answers', 'seed')
+    const answers = shuffled.filter(row => row.type === 'answer')
+
+    expect(answers.map(row => row.label)).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+      'E',
+      'F',
+      'G',
+      'H',
+    ])
+    expect(answers.find(row => row.isKey)?.text).toBe('13')
+  })
+})
+
+describe('Vietnamese label preset', () => {
+  const VIETNAMESE = {
+    ...DEFAULT_FORMAT_SETTINGS,
+    ...getLabelPresetSettings('vietnamese'),
+  }
+  const SOURCE = `Phần I. Trắc nghiệm
+Câu 12: Thủ đô của Việt Nam?
+A. Hà Nội
+*B. Huế
+PHẦN II
+Câu 13. Chọn số nguyên tố
+A. 4
+*B. 5`
+
+  it('parses keyword questions and Roman-numeral sections', () => {
+    const rows = parseMcq(SOURCE, VIETNAMESE)
+
+    expect(
+      rows.filter(row => row.type === 'section').map(row => row.text)
+    ).toEqual(['Phần I. Trắc nghiệm', 'PHẦN II'])
+    expect(
+      rows.filter(row => row.type === 'question').map(row => row.text)
+    ).toEqual(['Thủ đô của Việt Nam?', 'Chọn số nguyên tố'])
+  })
+
+  it('keeps lines that only start with a keyword as text', () => {
+    const rows = parseMcq(
+      `Câu 1: Chọn đúng
+A. x
+Phần mềm là gì?
+*B. y
+Phần lớn là dữ liệu
+C. z
+Part a of the text`,
+      { ...VIETNAMESE, sectionKeywords: ['Phần', 'Part'] }
+    )
+
+    expect(rows.some(row => row.type === 'section')).toBe(false)
+    expect(
+      rows.filter(row => row.type === 'answer').map(row => row.text)
+    ).toEqual([
+      'x\nPhần mềm là gì?',
+      'y\nPhần lớn là dữ liệu',
+      'z\nPart a of the text',
+    ])
+  })
+
+  it('only treats keyword lines as sections when configured', () => {
+    const rows = parseMcq(
+      '1. Question\nA. x\nPhần II\n2. Question\nA. y',
+      DEFAULT_FORMAT_SETTINGS
+    )
+
+    expect(rows.some(row => row.type === 'section')).toBe(false)
+  })
+
+  it('emits the same style back, renumbering sections', () => {
+    const rows = parseMcq(SOURCE, VIETNAMESE)
+    const swapped = [...rows.slice(4), ...rows.slice(0, 4)]
+
+    const output = generateExamOutput(swapped, {
+      ...DEFAULT_EXAM_CONFIG,
+      format: VIETNAMESE,
+    })
+
+    expect(output).toContain('PHẦN I\n')
+    expect(output).toContain('Phần II. Trắc nghiệm')
+    expect(output).toContain('Câu 1. Chọn số nguyên tố')
+  })
+
+  it('adds keyword headings to ### sections', () => {
+    const rows = parseMcq('### Grammar\n1. Question\nA. x', VIETNAMESE)
+
+    expect(
+      generateExamOutput(rows, { ...DEFAULT_EXAM_CONFIG, format: VIETNAMESE })
+    ).toMatch(/^Phần I\. Grammar/)
+  })
+})
+
+describe('multi-line stems and answers', () => {
+  const SOURCE = `1. Read the code:
+
+for i in range(3):
+    print(i)
+
+What is printed last?
+A. 2
+*B. The numbers
+0, 1 and 2
+C. <nothing>
+2. Next question
+A. yes
+B. no`
+
+  it('keeps line breaks in stems and answers', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS)
+
+    expect(rows.find(row => row.type === 'question')?.text).toBe(
+      'Read the code:\n\nfor i in range(3):\n    print(i)\n\nWhat is printed last?'
+    )
+    const answers = rows.filter(row => row.type === 'answer')
+    expect(answers.map(row => row.text)).toEqual([
+      '2',
+      'The numbers\n0, 1 and 2',
+      '<nothing>',
+      'yes',
+      'no',
+    ])
+    expect(answers[1]?.isKey).toBe(true)
+  })
+
+  it('does not split answers on abbreviations such as "e.g."', () => {
+    const rows = parseMcq(
+      '1. Pick one\nA. a fruit, e.g. apple\nB. a stone',
+      DEFAULT_FORMAT_SETTINGS
+    )
+
+    expect(
+      rows.filter(row => row.type === 'answer').map(row => row.text)
+    ).toEqual(['a fruit, e.g. apple', 'a stone'])
+  })
+
+  it('indents continuation lines in text output', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS)
+
+    expect(generateExamOutput(rows, DEFAULT_EXAM_CONFIG)).toContain(
+      '   (B)The numbers\n      0, 1 and 2'
+    )
+  })
+
+  it('escapes HTML and converts line breaks', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS)
+    const html = generateExamHtml(rows, DEFAULT_EXAM_CONFIG)
+
+    expect(html).toContain('&nbsp;&nbsp;&nbsp;&nbsp;print(i)')
+    expect(html).toContain('The numbers<br>&nbsp;&nbsp;&nbsp;0, 1 and 2')
+    expect(html).toContain('&lt;nothing&gt;')
+  })
+})
+
+describe('question points', () => {
+  const SOURCE = `### Part one
+1. (0.2 Point)
+First?
+A. x
+*B. y
+2. (0,25 điểm) Second?
+*A. x
+B. y
+### Part two
+3. Third?
+A. x
+*B. y`
+
+  it('keeps the point value on the question', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS)
+    const questions = rows.filter(row => row.type === 'question')
+
+    expect(questions.map(row => row.points)).toEqual([0.2, 0.25, undefined])
+    expect(questions.map(row => row.text)).toEqual([
+      'First?',
+      'Second?',
+      'Third?',
+    ])
+  })
+
+  it('sums points per section and for the exam', () => {
+    const summary = summarizePoints(parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS))
+
+    expect(summary.total).toBeCloseTo(1.45)
+    expect(summary.defaultedCount).toBe(1)
+    expect(summary.sections.map(section => section.title)).toEqual([
+      'Part one',
+      'Part two',
+    ])
+    expect(summary.sections[0]?.points).toBeCloseTo(0.45)
+  })
+
+  it('prints points only when enabled and passes them to the answer key', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS)
+
+    expect(generateExamOutput(rows, DEFAULT_EXAM_CONFIG)).not.toContain('point')
+    expect(
+      generateExamOutput(rows, { ...DEFAULT_EXAM_CONFIG, showPoints: true })
+    ).toContain('(2)(0.25 points) Second?')
+    expect(generateAnswerKeyEntries(rows).map(entry => entry.points)).toEqual([
+      0.2, 0.25, 1,
+    ])
+  })
+})
+
+describe('passage groups', () => {
+  const SOURCE = `1. Warm up
+A. x
+B. y
+>>> Read the passage.
+The sun is a star.
+2. What is the sun?
+A. A star
+B. A planet
+3. Is it hot?
+A. Yes
+B. No
+<<<
+4. Last
+A. x
+B. y`
+
+  it('parses the passage and tags the questions of its group', () => {
+    const rows = parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS)
+    const group = rows.find(row => row.type === 'group')
+
+    expect(group?.text).toBe('Read the passage.\nThe sun is a star.')
+    expect(
+      rows
+        .filter(row => row.type === 'question')
+        .map(row => [row.label, row.groupId])
+    ).toEqual([
+      ['1', undefined],
+      ['2', group?.id],
+      ['3', group?.id],
+      ['4', undefined],
+    ])
+    expect(validateParsedMcq(rows).isValid).toBe(true)
+  })
+
+  it('renders the passage once before its questions', () => {
+    const output = generateExamOutput(
+      parseMcq(SOURCE, DEFAULT_FORMAT_SETTINGS),
+      DEFAULT_EXAM_CONFIG
+    )
+
+    expect(output.match(/The sun is a star/g)).toHaveLength(1)
+    expect(output).toContain('The sun is a star.\n\n(2)What is the sun?')
+  })
+})
+
+describe('anchor answers', () => {
+  it('locks answers starting with an anchor phrase', () => {
+    const rows = parseMcq(
+      `1. Pick
+A. Allium
+B. all of the above.
+C. Cả B và D
+D. Tất cả đều đúng
+E. None`,
+      DEFAULT_FORMAT_SETTINGS
+    )
+
+    expect(
+      rows.filter(row => row.type === 'answer').map(row => row.locked)
+    ).toEqual([false, true, true, true, false])
+  })
+
+  it('uses the configured phrases only', () => {
+    const rows = parseMcq('1. Pick\nA. x\nB. All of the above', {
+      ...DEFAULT_FORMAT_SETTINGS,
+      anchorPhrases: [],
+    })
+
+    expect(rows.some(row => row.locked)).toBe(false)
+  })
+})
@@ -3,7 +3,146 @@
  * Migrated from script.js - handles parsing of MCQ text input
  */
 
-import type { ParsedRow, FormatSettings } from '../types/mcq'
+import {
+  DEFAULT_FORMAT_SETTINGS,
+  type ParsedRow,
+  type FormatSettings,
+} from '../types/mcq'
+import { answerLetterClass, getAnswerLetters } from './answer-letters'
+
+/** Label forms that are always recognized ("1." / "1)", "A." / "A)", "*") */
+const BUILTIN_POSTFIXES = ['.', ')']
+const BUILTIN_CORRECT_MARKER = '*'
+
+/**
+ * Regex sources for labels, built from format settings
+ */
+export interface LabelPatterns {
+  /** Question label; group 1 captures the number (e.g., "Câu 1:") */
+  question: string
+  /** Answer label; group 1 captures the letter (e.g., "[A]") */
+  answer: string
+  /** Label of the first answer ("A" or "a"); group 1 captures the letter */
+  firstAnswer: string
+  /** Correct answer marker, non-capturing (e.g., "*" or "#") */
+  correct: string
+  /** Section heading, if section keywords are configured (see buildSectionPattern) */
+  section?: string
+}
+
+/**
+ * Escape a string for use inside a regex
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Escape a string for use inside a regex, matching its letters in either case
+ * without the `i` flag (e.g., "Phần" becomes "[pP][hH][ầẦ][nN]")
+ */
+function escapeAnyCase(value: string): string {
+  return [...value.normalize('NFC')]
+    .map(char => {
+      const lower = char.toLowerCase()
+      const upper = char.toUpperCase()
+      return lower === upper || lower.length > 1 || upper.length > 1
+        ? escapeRegex(char)
+        : `[${lower}${upper}]`
+    })
+    .join('')
+}
+
+/**
+ * Build a non-capturing alternation of affixes (longest first)
+ * Whitespace around affixes is ignored; empty affixes are kept only if allowed
+ */
+function alternation(values: string[], allowEmpty: boolean): string {
+  const unique = [...new Set(values.map(value => value.trim()))]
+    .filter(value => allowEmpty || value !== '')
+    .sort((a, b) => b.length - a.length)
+  return `(?:${unique.map(escapeAnyCase).join('|')})`
+}
+
+/**
+ * Build the regex source for keyword section headings
+ * Group 1 captures the keyword in any case, group 2 the upper-case Roman
+ * numeral, letter or number (e.g., "Phần I", "PHẦN A", "Part 2"), so that
+ * "Phần mềm…" or "Part a…" stay text. Use it without the `i` flag and with
+ * the `u` flag (the numeral must not run on into a letter such as "ề")
+ * @param keywords Section keywords
+ * @returns Regex source, or undefined when no keywords are configured
+ */
+export function buildSectionPattern(keywords: string[]): string | undefined {
+  const alternatives = keywords.map(keyword => keyword.trim()).filter(Boolean)
+  if (alternatives.length === 0) return undefined
+  return `(${alternatives.map(escapeAnyCase).join('|')})\\s+([IVXLCDM]+|[A-Z]|\\d{1,3})(?![\\p{L}\\p{N}])`
+}
+
+/**
+ * Build a matcher for anchor answers such as "All of the above"
+ * Phrases match at the start of the answer, ignoring case; a standalone
+ * letter in a phrase matches any answer letter ("Cả A và B" → "Cả B và D")
+ * @param phrases Anchor phrases
+ * @returns Function telling whether an answer text is an anchor
+ */
+export function createAnchorMatcher(
+  phrases: string[]
+): (text: string) => boolean {
+  const alternatives = phrases
+    .map(phrase => phrase.normalize('NFC').trim())
+    .filter(Boolean)
+    .map(phrase =>
+      phrase
+        .split(/(?<![\p{L}\p{N}])([A-J])(?![\p{L}\p{N}])/u)
+        .map((part, index) => (index % 2 === 1 ? '[A-J]' : escapeRegex(part)))
+        .join('')
+    )
+  if (alternatives.length === 0) return () => false
+
+  const pattern = new RegExp(
+    `^\\s*(?:${alternatives.join('|')})(?=$|[\\s.,;:!?)])`,
+    'iu'
+  )
+  return text => pattern.test(text.normalize('NFC'))
+}
+
+/**
+ * Build label regex sources from format settings
+ * Configured prefixes, postfixes and correct markers are accepted in any
+ * combination, alongside the built-in "1.", "1)", "A.", "A)" and "*" forms
+ * @param formatSettings Format settings
+ * @returns Regex sources for question labels, answer labels and correct markers
+ */
+export function buildLabelPatterns(
+  formatSettings: FormatSettings
+): LabelPatterns {
+  const letterClass = answerLetterClass(formatSettings.maxOptions)
+  const questionPrefix = alternation(
+    ['', ...formatSettings.questionPrefix],
+    true
+  )
+  const questionPostfix = alternation(
+    [...BUILTIN_POSTFIXES, ...formatSettings.questionPostfix],
+    false
+  )
+  const answerPrefix = alternation(['', ...formatSettings.answerPrefix], true)
+  const answerPostfix = alternation(
+    [...BUILTIN_POSTFIXES, ...formatSettings.answerPostfix],
+    false
+  )
+
+  return {
+    question: `${questionPrefix}\\s*(\\d{1,3})\\s*${questionPostfix}`,
+    answer: `${answerPrefix}([${letterClass}])${answerPostfix}`,
+    firstAnswer: `${answerPrefix}([Aa])${answerPostfix}`,
+    correct: alternation(
+      [BUILTIN_CORRECT_MARKER, ...formatSettings.correctPrefix],
+      false
+    ),
+    section: buildSectionPattern(formatSettings.sectionKeywords),
+  }
+}
 
 /**
  * Parse MCQ text input into structured rows
@@ -11,6 +150,12 @@ import type { ParsedRow, FormatSettings } from '../types/mcq'
  * - Simple: "1. Question? A. answer B. answer"
  * - With points: "1. (0.2 Point)\nQuestion text\na. answer\nb. answer"
  * - Mixed case: supports both "A." and "a."
+ * - Configured labels: "(1)", "Câu 1:", "[A]", "#" correct marker (see buildLabelPatterns)
+ * - Keyword sections: "Phần I", "PHẦN A" (see FormatSettings.sectionKeywords)
+ * - Passage groups: ">>> passage" up to "<<<" (or the next section/group);
+ *   the questions in between share the passage and shuffle as one block
+ * - Anchor answers ("All of the above", see FormatSettings.anchorPhrases) are locked
+ * Answer letters are limited to formatSettings.maxOptions (e.g., A-E for 5)
  *
  * @param input Raw text input from user
  * @param formatSettings Format settings for parsing
@@ -18,24 +163,38 @@ import type { ParsedRow, FormatSettings } from '../types/mcq'
  */
 export function parseMcq(
   input: string,
-  _formatSettings: FormatSettings
+  formatSettings: FormatSettings
 ): ParsedRow[] {
-  // Normalize line endings
-  const normalized = input
-    .trim()
+  // Normalize line endings (and composed Vietnamese diacritics for keywords)
+  const unified = input
+    .normalize('NFC')
+    .replace(/\r\n/g, '\n')
     // eslint-disable-next-line no-control-regex
     .replace(/[\u000a\u000b\u000c\u000d\u0085\u2028\u2029]/g, '\n')
+  const normalized = unified.trim()
 
   if (!normalized) return []
 
+  // Line of the trimmed text's first character in the original input
+  const firstLine = lineAt(unified, 0)
+
   const rows: ParsedRow[] = []
   let rowId = 0
-
-  // Match "1." or "1)" for questions, OR "### Header" for sections
-  const blockStartPattern = /^\s*(?:(\d{1,3})[.)]|(###.*))/gm
+  const patterns = buildLabelPatterns(formatSettings)
+  const isAnchor = createAnchorMatcher(formatSettings.anchorPhrases)
+
+  // Match question labels (e.g., "1." or "1)"), OR "### Header" / keyword
+  // headings (e.g., "Phần I") for sections, OR ">>>" / "<<<" around groups
+  const sectionAlternative = patterns.section
+    ? `|(${patterns.section.normalize('NFC')}.*)`
+    : ''
+  const blockStartPattern = new RegExp(
+    `^\\s*(?:${patterns.question}|(###.*)|(>>>.*)|(<<<.*)${sectionAlternative})`,
+    'gmu'
+  )
 
   // Split by blocks
-  const blocks: { text: string; type: 'question' | 'section'; match: RegExpExecArray }[] = []
+  const blocks: { text: string; type: 'question' | 'section' | 'group' | 'group-end'; match: RegExpExecArray; line: number }[] = []
   let match: RegExpExecArray | null
 
   while ((match = blockStartPattern.exec(normalized)) !== null) {
@@ -43,7 +202,12 @@ export function parseMcq(
       // Text before first block = implicit first section header
       const headerText = normalized.substring(0, match.index).trim()
       if (headerText) {
-        rows.push(createRow(++rowId, 'section', 'S', headerText))
+        rows.push(
+          withSourceLine(
+            createRow(++rowId, 'section', 'S', headerText),
+            firstLine
+          )
+        )
         rows.push(createRow(++rowId, 'empty', '', ''))
       }
     }
@@ -57,12 +221,21 @@ export function parseMcq(
     }
 
     const blockText = normalized.substring(match.index, end)
-    const isSection = !!match[2] // Group 2 is the ### section
+    const isSection = !!match[2] || !!match[5] // Group 2 is ###, 5 a keyword heading
     
     blocks.push({
       text: blockText,
-      type: isSection ? 'section' : 'question',
-      match
+      type: isSection
+        ? 'section'
+        : match[3]
+          ? 'group'
+          : match[4]
+            ? 'group-end'
+            : 'question',
+      match,
+      // Line the block text starts on (may be blank lines before the label)
+      line:
+        firstLine + normalized.substring(0, match.index).split('\n').length - 1,
     })
     
     if (!nextMatch) break
@@ -72,31 +245,74 @@ export function parseMcq(
   if (blocks.length === 0) {
     // Check if there's any text at all
     if (normalized.trim()) {
-      rows.push(createRow(++rowId, 'section', 'S', normalized))
+      rows.push(
+        withSourceLine(
+          createRow(++rowId, 'section', 'S', normalized),
+          firstLine
+        )
+      )
       rows.push(createRow(++rowId, 'empty', '', ''))
     }
     return rows
   }
 
   // Process blocks
+  let groupId: number | undefined
   blocks.forEach(block => {
+    const blockLine = lineAt(block.text, 0, block.line)
     if (block.type === 'section') {
-      // Strip the ### prefix
-      const sectionTitle = block.match[2]?.replace(/^###\s*/, '').trim() || ''
-      rows.push(createRow(++rowId, 'section', 'S', sectionTitle))
+      // Strip the ### prefix (keyword headings are kept as written); lines
+      // after the heading (e.g., "Grade 10") belong to the title
+      const sectionTitle = cleanMultilineText(
+        block.match[2] ? block.text.replace(/^\s*###[ \t]*/, '') : block.text
+      )
+      rows.push(
+        withSourceLine(
+          createRow(++rowId, 'section', 'S', sectionTitle),
+          blockLine
+        )
+      )
+      rows.push(createRow(++rowId, 'empty', '', ''))
+      groupId = undefined
+    } else if (block.type === 'group') {
+      // Passage runs from ">>>" up to the first question of the group
+      const passage = cleanMultilineText(block.text.replace(/^\s*>>>/, ''))
+      rows.push(
+        withSourceLine(createRow(++rowId, 'group', 'P', passage), blockLine)
+      )
       rows.push(createRow(++rowId, 'empty', '', ''))
+      groupId = rowId - 1
+    } else if (block.type === 'group-end') {
+      groupId = undefined
     } else {
       // Question block
       try {
-        const questionRows = parseQuestionBlockFlexible(block.text, rowId)
+        const questionRows = parseQuestionBlockFlexible(
+          block.text,
+          rowId,
+          patterns,
+          block.line
+        )
         questionRows.forEach(row => {
           rowId++
           row.id = rowId
+          if (row.type === 'question' && groupId !== undefined) {
+            row.groupId = groupId
+          }
+          // Pin anchor answers to their position when shuffling
+          if (row.type === 'answer' && isAnchor(row.text)) {
+            row.locked = true
+          }
           rows.push(row)
         })
         rows.push(createRow(++rowId, 'empty', '', ''))
       } catch {
-        rows.push(createRow(++rowId, 'error', 'error', block.text))
+        rows.push(
+          withSourceLine(
+            createRow(++rowId, 'error', 'error', block.text),
+            blockLine
+          )
+        )
         rows.push(createRow(++rowId, 'empty', '', ''))
       }
     }
@@ -111,54 +327,71 @@ export function parseMcq(
  * - "1. Question? A. ans B. ans" (inline)
  * - "1. (0.2 Point)\nQuestion\na. ans\nb. ans" (multiline with points)
  * - Mixed uppercase/lowercase answer letters
+ * - Stems and answers spanning several lines (kept with their line breaks)
+ * Rows get the input line they start on, counting from blockLine
  */
 function parseQuestionBlockFlexible(
   block: string,
-  startId: number
+  startId: number,
+  patterns: LabelPatterns,
+  blockLine: number
 ): ParsedRow[] {
   const rows: ParsedRow[] = []
 
   // Extract question number - matches "1." or "1)" with optional (points)
-  const questionMatch = block.match(/^\s*(\d{1,3})[.)]\s*(\([^)]*\))?\s*/)
+  const questionMatch = block.match(
+    new RegExp(`^\\s*${patterns.question}\\s*(\\([^)]*\\))?\\s*`, 'i')
+  )
   if (!questionMatch?.[1] || !questionMatch[0])
     throw new Error('Invalid question format')
 
   const questionNumber = questionMatch[1]
+  const points = parsePoints(questionMatch[2])
   const remainingText = block.substring(questionMatch[0].length)
 
   // Find where answers start - look for "A." or "a." pattern
-  const answerStartPattern = /\s*[*]?\s*[Aa][.)]\s+/
+  const answerStartPattern = new RegExp(
+    `\\s*${patterns.correct}?\\s*${patterns.firstAnswer}\\s+`
+  )
   const answerStartMatch = remainingText.match(answerStartPattern)
 
   let questionText: string
   let answersText: string
+  let answersOffset = block.length
 
   if (answerStartMatch?.index !== undefined) {
-    questionText = remainingText.substring(0, answerStartMatch.index).trim()
+    questionText = cleanMultilineText(
+      remainingText.substring(0, answerStartMatch.index)
+    )
     answersText = remainingText.substring(answerStartMatch.index)
+    answersOffset = questionMatch[0].length + answerStartMatch.index
   } else {
     // No answers found, entire text is question
-    questionText = remainingText.trim()
+    questionText = cleanMultilineText(remainingText)
     answersText = ''
   }
 
   // Add question row
-  rows.push(
-    createRow(
-      startId + rows.length + 1,
-      'question',
-      questionNumber,
-      questionText,
-      parseInt(questionNumber)
-    )
+  const questionRow = createRow(
+    startId + rows.length + 1,
+    'question',
+    questionNumber,
+    questionText,
+    parseInt(questionNumber)
   )
+  if (points !== undefined) {
+    questionRow.points = points
+  }
+  rows.push(withSourceLine(questionRow, lineAt(block, 0, blockLine)))
 
   // Parse answers - flexible pattern matching both "A." and "a."
   if (answersText) {
     // Pattern matches optional * prefix, then letter, then separator, then content
-    // Uses negative lookahead to stop at next answer marker
-    const answerPattern =
-      /([*])?\s*([A-Ea-e])[.)]\s+((?:(?!\s[*]?\s*[A-Ea-e][.)]).)+)/g
+    // Uses negative lookahead to stop at next answer marker; content may span lines
+    const answerPattern = new RegExp(
+      `(${patterns.correct})?\\s*${patterns.answer}\\s+((?:(?!\\s${patterns.correct}?\\s*${patterns.answer}\\s)[\\s\\S])+)`,
+      'g'
+    )
     let answerMatch: RegExpExecArray | null
 
     while ((answerMatch = answerPattern.exec(answersText)) !== null) {
@@ -166,7 +399,7 @@ function parseQuestionBlockFlexible(
 
       const isCorrect = !!answerMatch[1] // Check if * group exists
       const answerLetter = answerMatch[2].toUpperCase()
-      const answerText = answerMatch[3].trim()
+      const answerText = cleanMultilineText(answerMatch[3])
 
       const row = createRow(
         startId + rows.length + 1,
@@ -177,13 +410,64 @@ function parseQuestionBlockFlexible(
       if (isCorrect) {
         row.isKey = true
       }
-      rows.push(row)
+      rows.push(
+        withSourceLine(
+          row,
+          lineAt(block, answersOffset + answerMatch.index, blockLine)
+        )
+      )
     }
   }
 
   return rows
 }
 
+/**
+ * Parse a point value group such as "(0.2 Point)" or "(0,25 điểm)"
+ * @param group Parenthesized text after the question number
+ * @returns Point value, or undefined if the group has no number
+ */
+export function parsePoints(group: string | undefined): number | undefined {
+  const match = group?.match(/\d+(?:[.,]\d+)?/)
+  if (!match) return undefined
+  const points = parseFloat(match[0].replace(',', '.'))
+  return Number.isFinite(points) ? points : undefined
+}
+
+/**
+ * Trim a multi-line text while keeping its line breaks
+ * Trailing spaces are removed from every line; indentation of continuation
+ * lines (e.g., code snippets) is kept
+ */
+function cleanMultilineText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim()
+}
+
+/**
+ * Get the line of the first non-whitespace character at or after an index
+ * @param text Text to look in
+ * @param index Character index
+ * @param firstLine Line number of the text's first line
+ * @returns Line number
+ */
+function lineAt(text: string, index: number, firstLine = 1): number {
+  let start = index
+  while (start < text.length && /\s/.test(text.charAt(start))) start++
+  return firstLine + text.substring(0, start).split('\n').length - 1
+}
+
+/**
+ * Set the source line of a row
+ */
+function withSourceLine(row: ParsedRow, line: number): ParsedRow {
+  row.sourceLine = line
+  return row
+}
+
 /**
  * Create a parsed row object
  */
@@ -209,27 +493,36 @@ function createRow(
  * Parse answer key text into question-answer mappings
  * Format: "1. B" or "1) B" or "1 B" etc.
  * @param input Answer key text
+ * @param maxOptions Maximum answer options (letters beyond it are ignored)
  * @returns Map of question number to correct answer letters
  */
-export function parseAnswerKey(input: string): Map<number, string[]> {
+export function parseAnswerKey(
+  input: string,
+  maxOptions = DEFAULT_FORMAT_SETTINGS.maxOptions
+): Map<number, string[]> {
   const answerKey = new Map<number, string[]>()
 
   if (!input.trim()) return answerKey
 
   const lines = input.split('\n').filter(line => line.trim())
+  const letters: string[] = getAnswerLetters(maxOptions)
+  const linePattern = new RegExp(
+    `(\\d+)[.):\\s]+([${answerLetterClass(maxOptions)},\\s]+)`
+  )
 
   for (const line of lines) {
     // Match patterns like: "1. B", "1) B", "1 B", "1. A, C", "1) ABC", etc.
-    const match = line.match(/(\d+)[.):\s]+([A-Ea-e,\s]+)/)
+    const match = line.match(linePattern)
     if (!match?.[1] || !match[2]) continue
 
     const questionNum = parseInt(match[1])
-    const answersStr = match[2].toUpperCase().replace(/[^A-E]/g, '') // Remove everything except A-E
-
-    if (answersStr.length === 0) continue
+    // Keep only allowed answer letters
+    const answers = match[2]
+      .toUpperCase()
+      .split('')
+      .filter(c => letters.includes(c))
 
-    // Split into individual letters
-    const answers = answersStr.split('').filter(c => /[A-E]/.test(c))
+    if (answers.length === 0) continue
 
     answerKey.set(questionNum, answers)
   }
@@ -247,26 +540,19 @@ export function applyAnswerKey(
   rows: ParsedRow[],
   answerKey: Map<number, string[]>
 ): ParsedRow[] {
-  // First, reset all keys
-  rows.forEach(row => {
-    if (row.type === 'answer') {
-      row.isKey = false
-    }
-  })
-
-  // Find current question number for each answer row
+  // Track the current question number for each answer row
   let currentQuestionNum: number | null = null
 
-  for (const row of rows) {
+  // New row objects, so earlier snapshots (undo history) keep their keys
+  return rows.map(row => {
     if (row.type === 'question') {
       currentQuestionNum = parseInt(row.label)
-    } else if (row.type === 'answer' && currentQuestionNum !== null) {
-      const correctAnswers = answerKey.get(currentQuestionNum) || []
-      if (correctAnswers.includes(row.label)) {
-        row.isKey = true
-      }
+      return row
     }
-  }
+    if (row.type !== 'answer') return row
 
-  return rows
+    const correctAnswers =
+      currentQuestionNum === null ? [] : answerKey.get(currentQuestionNum) || []
+    return { ...row, isKey: correctAnswers.includes(row.label) }
+  })
 }
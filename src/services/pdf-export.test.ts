@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import fontkit from '@pdf-lib/fontkit'
+import { PDFDocument, PageSizes } from 'pdf-lib'
+import {
+  buildAnswerSheetPdf,
+  buildExamPdf,
+  buildOmrSheetPdf,
+  wrapText,
+} from './pdf-export'
+import { getAnswerSheetQuestions } from './generator'
+import { buildOmrLayout } from './omr-layout'
+import { parseMcq } from './parser'
+import { DEFAULT_EXAM_CONFIG, type ExamConfig } from '../types/mcq'
+
+const fontDir = resolve(__dirname, '../../node_modules/dejavu-fonts-ttf/ttf')
+const fonts = {
+  regular: new Uint8Array(readFileSync(resolve(fontDir, 'DejaVuSans.ttf'))),
+  bold: new Uint8Array(readFileSync(resolve(fontDir, 'DejaVuSans-Bold.ttf'))),
+}
+
+const input = Array.from(
+  { length: 40 },
+  (_, i) =>
+    `${i + 1}. Câu hỏi số ${i + 1} về sinh học?\nA. Đáp án một\n*B. Đáp án hai\nC. Đáp án ba\nD. Đáp án bốn`
+).join('\n')
+const rows = parseMcq(input, DEFAULT_EXAM_CONFIG.format)
+
+function configWith(pdf: Partial<ExamConfig['pdf']>): ExamConfig {
+  return { ...DEFAULT_EXAM_CONFIG, pdf: { ...DEFAULT_EXAM_CONFIG.pdf, ...pdf } }
+}
+
+// jsdom's Blob has no arrayBuffer(), so read it with FileReader
+async function loadPdf(blob: Blob): Promise<PDFDocument> {
+  const data = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+  return PDFDocument.load(data)
+}
+
+describe('wrapText', () => {
+  it('wraps words and keeps explicit line breaks', async () => {
+    const doc = await PDFDocument.create()
+    doc.registerFontkit(fontkit)
+    const font = await doc.embedFont(fonts.regular)
+
+    const lines = wrapText('one two three four\nfive', font, 11, 60)
+
+    expect(lines.length).toBeGreaterThan(2)
+    expect(lines[lines.length - 1]).toBe('five')
+    lines.forEach(line =>
+      expect(font.widthOfTextAtSize(line, 11)).toBeLessThanOrEqual(60)
+    )
+  })
+
+  it('splits words longer than a line', async () => {
+    const doc = await PDFDocument.create()
+    doc.registerFontkit(fontkit)
+    const font = await doc.embedFont(fonts.regular)
+
+    const lines = wrapText('x'.repeat(50), font, 11, 40)
+
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.join('')).toBe('x'.repeat(50))
+  })
+})
+
+describe('buildExamPdf', () => {
+  it('uses the configured page size', async () => {
+    const a4 = await loadPdf(
+      await buildExamPdf(rows, configWith({ pageSize: 'a4' }), { fonts })
+    )
+    const letter = await loadPdf(
+      await buildExamPdf(rows, configWith({ pageSize: 'letter' }), { fonts })
+    )
+
+    expect(a4.getPage(0).getSize().height).toBeCloseTo(PageSizes.A4[1])
+    expect(letter.getPage(0).getSize().height).toBeCloseTo(PageSizes.Letter[1])
+  })
+
+  it('flows long exams over several pages', async () => {
+    const doc = await loadPdf(
+      await buildExamPdf(rows, configWith({}), { fonts })
+    )
+
+    expect(doc.getPageCount()).toBeGreaterThan(1)
+  })
+
+  it('appends an answer key page when enabled', async () => {
+    const without = await loadPdf(
+      await buildExamPdf(rows, configWith({ includeAnswerKey: false }), {
+        fonts,
+      })
+    )
+    const withKey = await loadPdf(
+      await buildExamPdf(rows, configWith({ includeAnswerKey: true }), {
+        fonts,
+      })
+    )
+
+    expect(withKey.getPageCount()).toBe(without.getPageCount() + 1)
+  })
+})
+
+describe('buildAnswerSheetPdf', () => {
+  it('builds a sheet for every question', async () => {
+    const { questions, maxAnswers } = getAnswerSheetQuestions(rows)
+
+    const doc = await loadPdf(
+      await buildAnswerSheetPdf(questions, maxAnswers, configWith({}), {
+        fonts,
+      })
+    )
+
+    expect(questions).toHaveLength(40)
+    expect(maxAnswers).toBe(4)
+    expect(doc.getPageCount()).toBeGreaterThanOrEqual(1)
+  })
+})
+
+describe('buildOmrSheetPdf', () => {
+  it('uses the exact page size of the layout', async () => {
+    const layout = buildOmrLayout({
+      pageSize: 'letter',
+      questionNumbers: [1, 2, 3],
+      maxAnswers: 4,
+      studentIdDigits: 6,
+      examCodeDigits: 3,
+    })
+
+    const doc = await loadPdf(await buildOmrSheetPdf(layout, { fonts }))
+    const page = doc.getPage(0)
+
+    expect(doc.getPageCount()).toBe(1)
+    expect(page.getWidth()).toBeCloseTo(612, 0)
+    expect(page.getHeight()).toBeCloseTo(792, 0)
+  })
+})
@@ -0,0 +1,916 @@
+/**
+ * PDF Export Service
+ * Builds print-ready vector PDFs of exams and answer sheets (fully offline)
+ *
+ * Text uses the bundled DejaVu Sans font so Vietnamese diacritics render
+ * correctly. Question blocks are never split from their answers unless a
+ * single block is taller than a page.
+ */
+
+import fontkit from '@pdf-lib/fontkit'
+import {
+  PageSizes,
+  PDFDocument,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from 'pdf-lib'
+import regularFontUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url'
+import boldFontUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url'
+import type {
+  AnswerKeyEntry,
+  ExamConfig,
+  ParsedRow,
+  RowAttachment,
+} from '../types/mcq'
+import { getAnswerLetters } from './answer-letters'
+import {
+  formatAnswerLabel,
+  formatQuestionLabel,
+  formatQuestionPoints,
+  formatSectionTitle,
+  generateAnswerKeyEntries,
+  type AnswerSheetQuestion,
+} from './generator'
+import type { OmrBubble, OmrLayout, OmrRect } from './omr-layout'
+
+/** Points per millimetre */
+const PT_PER_MM = 72 / 25.4
+
+/** Points per CSS pixel */
+const PT_PER_PX = 0.75
+
+const FONT_SIZE = 11
+const LINE_HEIGHT = 1.35
+const QUESTION_INDENT = 22
+const ANSWER_INDENT = 36
+const BLACK = rgb(0, 0, 0)
+const WHITE = rgb(1, 1, 1)
+
+const PAGE_SIZES = {
+  a4: PageSizes.A4,
+  letter: PageSizes.Letter,
+}
+
+/**
+ * Font files used for PDF text
+ */
+export interface PdfFontData {
+  regular: Uint8Array | ArrayBuffer
+  bold: Uint8Array | ArrayBuffer
+}
+
+/**
+ * Options for a single exported PDF
+ */
+export interface PdfExportOptions {
+  /** Exam code printed in the header and footer (omitted when empty) */
+  examCode?: string
+  /** Font files (defaults to the bundled DejaVu Sans) */
+  fonts?: PdfFontData
+}
+
+interface PdfFonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+/**
+ * Something drawn at the current position, with a known height
+ */
+interface LayoutItem {
+  height: number
+  draw: (page: PDFPage, top: number) => void
+}
+
+/**
+ * Load the bundled font files
+ */
+async function loadBundledFonts(): Promise<PdfFontData> {
+  const [regular, bold] = await Promise.all(
+    [regularFontUrl, boldFontUrl].map(async url => {
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`Failed to load font: ${url}`)
+      return response.arrayBuffer()
+    })
+  )
+  return { regular: regular as ArrayBuffer, bold: bold as ArrayBuffer }
+}
+
+/**
+ * Create a PDF document with embedded fonts
+ */
+async function createDocument(
+  options: PdfExportOptions
+): Promise<{ doc: PDFDocument; fonts: PdfFonts }> {
+  const doc = await PDFDocument.create()
+  doc.registerFontkit(fontkit)
+  const data = options.fonts ?? (await loadBundledFonts())
+  const fonts = {
+    regular: await doc.embedFont(data.regular, { subset: true }),
+    bold: await doc.embedFont(data.bold, { subset: true }),
+  }
+  return { doc, fonts }
+}
+
+/**
+ * Serialize a document as a PDF blob
+ */
+async function toBlob(doc: PDFDocument): Promise<Blob> {
+  const bytes = await doc.save()
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' })
+}
+
+/**
+ * Replace characters the font cannot lay out (tabs, control characters)
+ */
+function sanitize(text: string): string {
+  return (
+    text
+      .replace(/\t/g, '    ')
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0009\u000b-\u001f]/g, '')
+  )
+}
+
+/**
+ * Wrap text into lines that fit a width
+ * Explicit line breaks are kept; words longer than a line are split
+ * @param text Text to wrap
+ * @param font Font used for measuring
+ * @param size Font size in points
+ * @param maxWidth Maximum line width in points
+ * @returns Wrapped lines
+ */
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const width = (value: string) => font.widthOfTextAtSize(value, size)
+  const lines: string[] = []
+
+  for (const paragraph of sanitize(text).split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/(?<=\s)/)) {
+      if (width(line + word) <= maxWidth || !line) {
+        line += word
+      } else {
+        lines.push(line.trimEnd())
+        line = word
+      }
+      // Split words that are wider than a whole line
+      while (width(line.trimEnd()) > maxWidth && line.length > 1) {
+        let cut = line.length - 1
+        while (cut > 1 && width(line.slice(0, cut)) > maxWidth) cut--
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    }
+    lines.push(line.trimEnd())
+  }
+
+  return lines
+}
+
+/**
+ * Flows layout items over pages, starting a new page when needed
+ */
+class PageWriter {
+  private page: PDFPage
+  private y: number
+  readonly pages: PDFPage[] = []
+  readonly left: number
+  readonly contentWidth: number
+  private readonly top: number
+  private readonly bottom: number
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly config: ExamConfig
+  ) {
+    const [width, height] = PAGE_SIZES[config.pdf.pageSize]
+    const margin = config.pdf.marginMm * PT_PER_MM
+    this.left = margin
+    this.contentWidth = width - margin * 2
+    this.top = height - margin
+    // Leave room for the footer
+    this.bottom = margin + FONT_SIZE * 2
+    this.page = this.addPage()
+    this.y = this.top
+  }
+
+  addPage(): PDFPage {
+    this.page = this.doc.addPage(PAGE_SIZES[this.config.pdf.pageSize])
+    this.pages.push(this.page)
+    this.y = this.top
+    return this.page
+  }
+
+  /**
+   * Draw items as one block, moving to a new page first if the block would
+   * be split (blocks taller than a page flow item by item)
+   */
+  drawBlock(items: LayoutItem[]): void {
+    const height = items.reduce((sum, item) => sum + item.height, 0)
+    if (height > this.y - this.bottom && this.y < this.top) {
+      this.addPage()
+    }
+    for (const item of items) {
+      if (item.height > this.y - this.bottom && this.y < this.top) {
+        this.addPage()
+      }
+      item.draw(this.page, this.y)
+      this.y -= item.height
+    }
+  }
+}
+
+/**
+ * Text item with a hanging label (e.g., "1. " followed by wrapped text)
+ */
+function labelledText(
+  label: string,
+  text: string,
+  fonts: PdfFonts,
+  options: { x: number; width: number; indent: number; bold?: boolean }
+): LayoutItem {
+  const font = options.bold ? fonts.bold : fonts.regular
+  const lineHeight = FONT_SIZE * LINE_HEIGHT
+  // Long labels (e.g., "100. ") push the text further right
+  const indent = Math.max(
+    options.indent,
+    label ? fonts.bold.widthOfTextAtSize(sanitize(label), FONT_SIZE) + 2 : 0
+  )
+  const textX = options.x + indent
+  const lines = wrapText(text, font, FONT_SIZE, options.width - indent)
+
+  return {
+    height: lines.length * lineHeight,
+    draw: (page, top) => {
+      const baseline = top - FONT_SIZE
+      if (label) {
+        page.drawText(sanitize(label), {
+          x: options.x,
+          y: baseline,
+          size: FONT_SIZE,
+          font: fonts.bold,
+        })
+      }
+      lines.forEach((line, index) => {
+        page.drawText(line, {
+          x: textX,
+          y: baseline - index * lineHeight,
+          size: FONT_SIZE,
+          font,
+        })
+      })
+    },
+  }
+}
+
+/**
+ * Centered single-line text item
+ */
+function centeredText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  x: number,
+  width: number
+): LayoutItem {
+  const value = sanitize(text)
+  return {
+    height: size * LINE_HEIGHT,
+    draw: (page, top) => {
+      page.drawText(value, {
+        x: x + (width - font.widthOfTextAtSize(value, size)) / 2,
+        y: top - size,
+        size,
+        font,
+      })
+    },
+  }
+}
+
+/**
+ * Line with text on the left and (optionally) on the right
+ */
+function splitLine(
+  leftText: string,
+  rightText: string,
+  fonts: PdfFonts,
+  x: number,
+  width: number
+): LayoutItem {
+  return {
+    height: FONT_SIZE * LINE_HEIGHT,
+    draw: (page, top) => {
+      const y = top - FONT_SIZE
+      page.drawText(sanitize(leftText), {
+        x,
+        y,
+        size: FONT_SIZE,
+        font: fonts.regular,
+      })
+      if (rightText) {
+        const value = sanitize(rightText)
+        page.drawText(value, {
+          x: x + width - fonts.bold.widthOfTextAtSize(value, FONT_SIZE),
+          y,
+          size: FONT_SIZE,
+          font: fonts.bold,
+        })
+      }
+    },
+  }
+}
+
+function spacer(height: number): LayoutItem {
+  return { height, draw: () => undefined }
+}
+
+/**
+ * Embed a data URL image (PNG or JPEG only)
+ */
+async function embedImage(
+  doc: PDFDocument,
+  src: string
+): Promise<PDFImage | null> {
+  const match = /^data:image\/(png|jpe?g);base64,(.*)$/.exec(src)
+  if (!match?.[2]) return null
+  const bytes = Uint8Array.from(atob(match[2]), c => c.charCodeAt(0))
+  return match[1] === 'png' ? doc.embedPng(bytes) : doc.embedJpg(bytes)
+}
+
+/**
+ * Layout items for row attachments (images scaled to fit, bordered tables)
+ */
+async function attachmentItems(
+  attachments: RowAttachment[] | undefined,
+  doc: PDFDocument,
+  fonts: PdfFonts,
+  x: number,
+  width: number
+): Promise<LayoutItem[]> {
+  const items: LayoutItem[] = []
+
+  for (const attachment of attachments ?? []) {
+    if (attachment.type === 'image') {
+      const image = await embedImage(doc, attachment.src)
+      if (!image) continue
+      const scale = Math.min(1, width / (attachment.width * PT_PER_PX))
+      const imageWidth = attachment.width * PT_PER_PX * scale
+      const imageHeight = attachment.height * PT_PER_PX * scale
+      items.push({
+        height: imageHeight + 4,
+        draw: (page, top) =>
+          page.drawImage(image, {
+            x,
+            y: top - imageHeight - 2,
+            width: imageWidth,
+            height: imageHeight,
+          }),
+      })
+      continue
+    }
+
+    const columns = Math.max(1, ...attachment.cells.map(row => row.length))
+    const cellWidth = width / columns
+    const padding = 3
+    const lineHeight = FONT_SIZE * LINE_HEIGHT
+    for (const cells of attachment.cells) {
+      const wrapped = cells.map(cell =>
+        wrapText(cell, fonts.regular, FONT_SIZE, cellWidth - padding * 2)
+      )
+      const rowHeight =
+        Math.max(1, ...wrapped.map(lines => lines.length)) * lineHeight +
+        padding * 2
+      items.push({
+        height: rowHeight,
+        draw: (page, top) => {
+          for (let column = 0; column < columns; column++) {
+            const cellX = x + column * cellWidth
+            page.drawRectangle({
+              x: cellX,
+              y: top - rowHeight,
+              width: cellWidth,
+              height: rowHeight,
+              borderColor: BLACK,
+              borderWidth: 0.75,
+            })
+            wrapped[column]?.forEach((line, index) =>
+              page.drawText(line, {
+                x: cellX + padding,
+                y: top - padding - FONT_SIZE - index * lineHeight,
+                size: FONT_SIZE,
+                font: fonts.regular,
+              })
+            )
+          }
+        },
+      })
+    }
+    items.push(spacer(4))
+  }
+
+  return items
+}
+
+/**
+ * Header block items (school, subject, duration, exam code, student line)
+ */
+function headerItems(
+  config: ExamConfig,
+  fonts: PdfFonts,
+  x: number,
+  width: number,
+  examCode?: string
+): LayoutItem[] {
+  const { header } = config
+  const items: LayoutItem[] = []
+
+  if (header.schoolName) {
+    items.push(
+      centeredText(header.schoolName.toUpperCase(), fonts.bold, 12, x, width)
+    )
+  }
+  if (header.subject) {
+    items.push(centeredText(header.subject, fonts.bold, 14, x, width))
+  }
+  if (header.duration || examCode) {
+    items.push(
+      splitLine(
+        header.duration ? `Duration: ${header.duration}` : '',
+        examCode ? `Exam code: ${examCode}` : '',
+        fonts,
+        x,
+        width
+      )
+    )
+  }
+  if (header.showStudentLine) {
+    items.push(
+      spacer(FONT_SIZE * 0.5),
+      splitLine(
+        'Full name: ..............................................',
+        '',
+        fonts,
+        x,
+        width
+      ),
+      splitLine('Student ID: ....................', '', fonts, x, width)
+    )
+  }
+  if (items.length > 0) items.push(spacer(FONT_SIZE * LINE_HEIGHT))
+
+  return items
+}
+
+/**
+ * Draw the answer key page(s) as a grid of "1. B" entries
+ */
+function drawAnswerKey(
+  writer: PageWriter,
+  entries: AnswerKeyEntry[],
+  fonts: PdfFonts,
+  examCode?: string
+): void {
+  writer.addPage()
+  writer.drawBlock([
+    centeredText(
+      examCode ? `ANSWER KEY – EXAM CODE ${examCode}` : 'ANSWER KEY',
+      fonts.bold,
+      14,
+      writer.left,
+      writer.contentWidth
+    ),
+    spacer(FONT_SIZE),
+  ])
+
+  const columns = 5
+  const columnWidth = writer.contentWidth / columns
+  for (let start = 0; start < entries.length; start += columns) {
+    const rowEntries = entries.slice(start, start + columns)
+    writer.drawBlock([
+      {
+        height: FONT_SIZE * LINE_HEIGHT * 1.2,
+        draw: (page, top) =>
+          rowEntries.forEach((entry, column) =>
+            page.drawText(
+              `${entry.questionNumber}. ${entry.correctAnswers.join(', ') || '—'}`,
+              {
+                x: writer.left + column * columnWidth,
+                y: top - FONT_SIZE,
+                size: FONT_SIZE,
+                font: fonts.regular,
+              }
+            )
+          ),
+      },
+    ])
+  }
+}
+
+/**
+ * Draw "Page X / Y" footers on every page
+ */
+function drawFooters(
+  pages: PDFPage[],
+  fonts: PdfFonts,
+  marginMm: number,
+  examCode?: string
+): void {
+  const margin = marginMm * PT_PER_MM
+  pages.forEach((page, index) => {
+    const text = `Page ${index + 1} / ${pages.length}${examCode ? ` – Exam code ${examCode}` : ''}`
+    const size = FONT_SIZE - 2
+    page.drawText(text, {
+      x: (page.getWidth() - fonts.regular.widthOfTextAtSize(text, size)) / 2,
+      y: margin,
+      size,
+      font: fonts.regular,
+    })
+  })
+}
+
+/**
+ * Build a PDF of one exam
+ * @param rows Parsed and potentially shuffled rows
+ * @param config Exam configuration (format, header block and PDF page setup)
+ * @param options Export options
+ * @returns .pdf file blob
+ */
+export async function buildExamPdf(
+  rows: ParsedRow[],
+  config: ExamConfig,
+  options: PdfExportOptions = {}
+): Promise<Blob> {
+  const { doc, fonts } = await createDocument(options)
+  const writer = new PageWriter(doc, config)
+  const x = writer.left
+  const width = writer.contentWidth
+
+  writer.drawBlock(headerItems(config, fonts, x, width, options.examCode))
+
+  // Sections and blank lines are kept with the question that follows
+  let block: LayoutItem[] = []
+  let blockHasQuestion = false
+  const flush = () => {
+    if (block.length > 0) writer.drawBlock(block)
+    block = []
+    blockHasQuestion = false
+  }
+  let currentQuestionNum = config.startNumber
+  let currentSectionNum = 1
+
+  for (const row of rows) {
+    if (row.type === 'section') {
+      flush()
+      const title = formatSectionTitle(
+        row.text,
+        currentSectionNum++,
+        config.format
+      )
+      block.push(
+        labelledText('', title, fonts, { x, width, indent: 0, bold: true }),
+        spacer(FONT_SIZE * 0.5)
+      )
+    } else if (row.type === 'group') {
+      // Passage is kept with the first question of its group
+      if (blockHasQuestion) flush()
+      block.push(
+        labelledText('', row.text, fonts, { x, width, indent: 0 }),
+        ...(await attachmentItems(row.attachments, doc, fonts, x, width))
+      )
+    } else if (row.type === 'question') {
+      if (blockHasQuestion) flush()
+      blockHasQuestion = true
+      const label = formatQuestionLabel(currentQuestionNum, config.format)
+      block.push(
+        labelledText(
+          label,
+          formatQuestionPoints(row, config) + row.text,
+          fonts,
+          {
+            x,
+            width,
+            indent: QUESTION_INDENT,
+          }
+        ),
+        ...(await attachmentItems(
+          row.attachments,
+          doc,
+          fonts,
+          x + QUESTION_INDENT,
+          width - QUESTION_INDENT
+        ))
+      )
+      currentQuestionNum++
+    } else if (row.type === 'answer') {
+      const label = formatAnswerLabel(row.label, config.format)
+      block.push(
+        labelledText(label, row.text, fonts, {
+          x: x + QUESTION_INDENT,
+          width: width - QUESTION_INDENT,
+          indent: ANSWER_INDENT - QUESTION_INDENT,
+        }),
+        ...(await attachmentItems(
+          row.attachments,
+          doc,
+          fonts,
+          x + ANSWER_INDENT,
+          width - ANSWER_INDENT
+        ))
+      )
+    } else if (row.type === 'empty') {
+      block.push(spacer(FONT_SIZE * 0.6))
+    }
+  }
+  flush()
+
+  if (config.pdf.includeAnswerKey) {
+    drawAnswerKey(
+      writer,
+      generateAnswerKeyEntries(rows, config.startNumber),
+      fonts,
+      options.examCode
+    )
+  }
+
+  drawFooters(writer.pages, fonts, config.pdf.marginMm, options.examCode)
+  return toBlob(doc)
+}
+
+/**
+ * Build a PDF of the bubble answer sheet
+ * Same layout as the on-screen sheet: 4 column pairs of questionsPerColumn
+ * rows, repeated for longer exams. Correct answers are filled.
+ * @param questions Answer sheet questions
+ * @param maxAnswers Number of bubbles per question
+ * @param config Exam configuration (sheet layout and PDF page setup)
+ * @param options Export options
+ * @returns .pdf file blob
+ */
+export async function buildAnswerSheetPdf(
+  questions: AnswerSheetQuestion[],
+  maxAnswers: number,
+  config: ExamConfig,
+  options: PdfExportOptions = {}
+): Promise<Blob> {
+  const { doc, fonts } = await createDocument(options)
+  const writer = new PageWriter(doc, config)
+  const x = writer.left
+  const width = writer.contentWidth
+
+  writer.drawBlock([
+    centeredText('ANSWER SHEET', fonts.bold, 16, x, width),
+    centeredText(
+      'Fill in the circle(s) for the correct answer(s)',
+      fonts.regular,
+      FONT_SIZE - 1,
+      x,
+      width
+    ),
+    spacer(FONT_SIZE * 0.5),
+    splitLine(
+      'Name: ______________________________',
+      options.examCode ? `Exam code: ${options.examCode}` : '',
+      fonts,
+      x,
+      width
+    ),
+    splitLine('Date: ______________________________', '', fonts, x, width),
+    spacer(FONT_SIZE),
+  ])
+
+  const columnPairs = 4
+  const rowsPerGrid = Math.max(1, config.questionsPerColumn)
+  const numberWidth = 30
+  const answersWidth = width / columnPairs - numberWidth
+  const padding = 4
+  // Bubbles shrink when they don't fit the column
+  const bubble = Math.min(
+    config.bubbleSize * PT_PER_PX,
+    (answersWidth - padding * 2) / (maxAnswers * 1.2)
+  )
+  const gap = bubble * 0.2
+  const rowHeight = bubble + padding * 2
+  const letters = getAnswerLetters(maxAnswers)
+
+  const cell = (page: PDFPage, cellX: number, top: number, w: number) =>
+    page.drawRectangle({
+      x: cellX,
+      y: top - rowHeight,
+      width: w,
+      height: rowHeight,
+      borderColor: BLACK,
+      borderWidth: 0.75,
+    })
+
+  const centered = (
+    page: PDFPage,
+    text: string,
+    font: PDFFont,
+    size: number,
+    centerX: number,
+    centerY: number,
+    color = BLACK
+  ) =>
+    page.drawText(text, {
+      x: centerX - font.widthOfTextAtSize(text, size) / 2,
+      y: centerY - size * 0.35,
+      size,
+      font,
+      color,
+    })
+
+  const perGrid = columnPairs * rowsPerGrid
+  for (let start = 0; start < questions.length; start += perGrid) {
+    const grid = questions.slice(start, start + perGrid)
+    const items: LayoutItem[] = []
+
+    if (config.showColumnHeaders) {
+      items.push({
+        height: rowHeight,
+        draw: (page, top) => {
+          for (let pair = 0; pair < columnPairs; pair++) {
+            const pairX = x + pair * (numberWidth + answersWidth)
+            cell(page, pairX, top, numberWidth)
+            cell(page, pairX + numberWidth, top, answersWidth)
+            const centerY = top - rowHeight / 2
+            centered(
+              page,
+              'Q#',
+              fonts.bold,
+              FONT_SIZE - 1,
+              pairX + numberWidth / 2,
+              centerY
+            )
+            centered(
+              page,
+              'Answers',
+              fonts.bold,
+              FONT_SIZE - 1,
+              pairX + numberWidth + answersWidth / 2,
+              centerY
+            )
+          }
+        },
+      })
+    }
+
+    for (let row = 0; row < rowsPerGrid; row++) {
+      items.push({
+        height: rowHeight,
+        draw: (page, top) => {
+          const centerY = top - rowHeight / 2
+          for (let pair = 0; pair < columnPairs; pair++) {
+            const pairX = x + pair * (numberWidth + answersWidth)
+            cell(page, pairX, top, numberWidth)
+            cell(page, pairX + numberWidth, top, answersWidth)
+
+            const question = grid[pair * rowsPerGrid + row]
+            if (!question) continue
+
+            centered(
+              page,
+              String(question.number),
+              fonts.regular,
+              FONT_SIZE,
+              pairX + numberWidth / 2,
+              centerY
+            )
+
+            const bubblesWidth = letters.length * (bubble + gap) - gap
+            let bubbleX =
+              pairX + numberWidth + (answersWidth - bubblesWidth) / 2
+            for (const letter of letters) {
+              const isCorrect = question.correctAnswers.includes(letter)
+              const centerX = bubbleX + bubble / 2
+              page.drawCircle({
+                x: centerX,
+                y: centerY,
+                size: bubble * 0.4,
+                color: isCorrect ? BLACK : WHITE,
+                borderColor: BLACK,
+                borderWidth: 0.75,
+              })
+              centered(
+                page,
+                letter,
+                fonts.bold,
+                bubble * 0.4,
+                centerX,
+                centerY,
+                isCorrect ? WHITE : BLACK
+              )
+              bubbleX += bubble + gap
+            }
+          }
+        },
+      })
+    }
+
+    items.push(spacer(FONT_SIZE))
+    writer.drawBlock(items)
+  }
+
+  drawFooters(writer.pages, fonts, config.pdf.marginMm, options.examCode)
+  return toBlob(doc)
+}
+
+/**
+ * Build a PDF of a blank student answer sheet
+ * Drawn at the exact millimetre geometry of the layout so scans can be read
+ * back with the same layout (no scaling or page margins are applied)
+ * @param layout Student sheet layout (see buildOmrLayout)
+ * @param options Export options (the exam code is printed in the title)
+ * @returns .pdf file blob
+ */
+export async function buildOmrSheetPdf(
+  layout: OmrLayout,
+  options: PdfExportOptions = {}
+): Promise<Blob> {
+  const { doc, fonts } = await createDocument(options)
+  const page = doc.addPage([
+    layout.width * PT_PER_MM,
+    layout.height * PT_PER_MM,
+  ])
+  const toX = (mm: number) => mm * PT_PER_MM
+  const toY = (mm: number) => (layout.height - mm) * PT_PER_MM
+  const stroke = 0.25 * PT_PER_MM
+
+  const text = (
+    value: string,
+    font: PDFFont,
+    sizeMm: number,
+    x: number,
+    baseline: number,
+    align: 'start' | 'middle' | 'end' = 'start'
+  ) => {
+    const size = sizeMm * PT_PER_MM
+    const width = font.widthOfTextAtSize(value, size)
+    const shift = align === 'middle' ? width / 2 : align === 'end' ? width : 0
+    page.drawText(value, { x: toX(x) - shift, y: toY(baseline), size, font })
+  }
+  const rect = (box: OmrRect, fill: boolean) =>
+    page.drawRectangle({
+      x: toX(box.x),
+      y: toY(box.y + box.height),
+      width: box.width * PT_PER_MM,
+      height: box.height * PT_PER_MM,
+      ...(fill
+        ? { color: BLACK }
+        : { borderColor: BLACK, borderWidth: stroke }),
+    })
+  const bubble = (circle: OmrBubble) => {
+    page.drawCircle({
+      x: toX(circle.x),
+      y: toY(circle.y),
+      size: circle.r * PT_PER_MM,
+      borderColor: BLACK,
+      borderWidth: stroke,
+    })
+    text(circle.value, fonts.regular, 2.2, circle.x, circle.y + 0.8, 'middle')
+  }
+
+  layout.fiducials.forEach(mark => rect(mark, true))
+  const title = options.examCode
+    ? `${layout.title.text} - ${options.examCode}`
+    : layout.title.text
+  text(title, fonts.bold, 5, layout.title.x, layout.title.y + 1.5, 'middle')
+
+  for (const field of layout.fields) {
+    text(`${field.label}:`, fonts.regular, 3.5, field.x, field.y)
+    page.drawLine({
+      start: { x: toX(field.x + 14), y: toY(field.y + 0.5) },
+      end: { x: toX(field.x + field.width), y: toY(field.y + 0.5) },
+      thickness: stroke,
+      color: BLACK,
+    })
+  }
+
+  for (const grid of [layout.examCode, layout.studentId]) {
+    text(grid.label, fonts.bold, 3, grid.labelX, grid.labelY)
+    rect(grid.box, false)
+    grid.writeIn.forEach(box => rect(box, false))
+    grid.columns.flat().forEach(bubble)
+  }
+
+  for (const question of layout.questions) {
+    text(
+      question.number.toString(),
+      fonts.bold,
+      3,
+      question.labelX,
+      question.labelY + 1.1,
+      'end'
+    )
+    question.bubbles.forEach(bubble)
+  }
+
+  return toBlob(doc)
+}
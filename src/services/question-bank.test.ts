@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_EXAM_CONFIG } from '@/types/mcq'
+import { EMPTY_QUESTION_BANK } from '@/types/question-bank'
+import { parseMcq } from './parser'
+import { serializeRows } from './row-editing'
+import {
+  addQuestionsToBank,
+  buildExamFromBank,
+  recordBankUsage,
+  searchBank,
+} from './question-bank'
+
+const SOURCE = `1. (0.5 points) Thủ đô của Việt Nam? *A. Hà Nội B. Huế
+
+>>> Read the passage about photosynthesis.
+
+2. What do plants need? A. Salt *B. Light
+
+3. What do plants make? *A. Sugar B. Iron
+
+<<<
+
+4. 2 + 2 = ? A. 3 *B. 4`
+
+const details = {
+  subject: 'Mixed',
+  chapter: 'Review',
+  difficulty: 'easy' as const,
+  tags: ['quiz'],
+}
+
+function bankOf(source = SOURCE) {
+  return addQuestionsToBank(
+    EMPTY_QUESTION_BANK,
+    parseMcq(source, DEFAULT_EXAM_CONFIG.format),
+    details,
+    '2026-01-01T00:00:00.000Z'
+  ).bank
+}
+
+describe('addQuestionsToBank', () => {
+  it('stores questions with answers, points, passage and details', () => {
+    const [first, second] = bankOf().questions
+
+    expect(first).toMatchObject({
+      id: 1,
+      text: 'Thủ đô của Việt Nam?',
+      points: 0.5,
+      answers: [
+        { text: 'Hà Nội', isKey: true },
+        { text: 'Huế', isKey: false },
+      ],
+      subject: 'Mixed',
+      tags: ['quiz'],
+      usage: [],
+    })
+    expect(second?.passage).toBe('Read the passage about photosynthesis.')
+  })
+
+  it('skips questions already in the bank', () => {
+    const result = addQuestionsToBank(
+      bankOf(),
+      parseMcq(
+        `1. 2  +  2 = ? A. 3 *B. 4\n\n2. New? *A. Yes B. No`,
+        DEFAULT_EXAM_CONFIG.format
+      ),
+      details
+    )
+
+    expect(result.added).toBe(1)
+    expect(result.duplicates).toBe(1)
+    expect(result.bank.questions.at(-1)?.id).toBe(5)
+  })
+
+  it('keeps questions that share a stem but not their answers', () => {
+    const result = addQuestionsToBank(
+      EMPTY_QUESTION_BANK,
+      parseMcq(
+        [
+          '1. Choose the correct answer. *A. Cats B. Dogs',
+          '2. Choose the correct answer. A. Red *B. Blue',
+          '3. Choose  the correct answer. A. Dogs *B. Cats',
+        ].join('\n\n'),
+        DEFAULT_EXAM_CONFIG.format
+      ),
+      details
+    )
+
+    expect(result.added).toBe(2)
+    expect(result.duplicates).toBe(1)
+  })
+})
+
+describe('searchBank', () => {
+  it('matches every word, ignoring case and diacritics', () => {
+    const { questions } = bankOf()
+
+    expect(searchBank(questions, 'thu do').map(q => q.id)).toEqual([1])
+    expect(searchBank(questions, 'PLANTS light').map(q => q.id)).toEqual([2])
+    expect(searchBank(questions, 'photosynthesis').length).toBe(2)
+    expect(searchBank(questions, 'quiz', { difficulty: 'hard' })).toEqual([])
+  })
+})
+
+describe('buildExamFromBank', () => {
+  it('keeps passage questions together and numbers from the start', () => {
+    const { questions } = bankOf()
+    const picked = [3, 4, 2, 1].map(id => questions.find(q => q.id === id))
+    const { rows, questionIds } = buildExamFromBank(
+      picked.filter(question => question !== undefined),
+      5
+    )
+
+    expect(questionIds).toEqual([3, 2, 4, 1])
+    expect(
+      rows.filter(row => row.type === 'question').map(row => row.label)
+    ).toEqual(['5', '6', '7', '8'])
+
+    // The built-in text format reads the rows back unchanged
+    const reparsed = parseMcq(serializeRows(rows), DEFAULT_EXAM_CONFIG.format)
+    expect(reparsed.filter(row => row.type === 'group')).toHaveLength(1)
+    expect(
+      reparsed.filter(row => row.isKey).map(row => `${row.label}. ${row.text}`)
+    ).toEqual(['A. Sugar', 'B. Light', 'B. 4', 'A. Hà Nội'])
+  })
+
+  it('keeps answer locks and locks anchor answers', () => {
+    const rows = parseMcq(
+      `1. Pick one
+A. Red
+B. Blue
+C. All of the above`,
+      // Not locked when added (e.g., saved before anchors were configured)
+      { ...DEFAULT_EXAM_CONFIG.format, anchorPhrases: [] }
+    ).map(row => (row.text === 'Red' ? { ...row, locked: true } : row))
+    const { questions } = addQuestionsToBank(
+      EMPTY_QUESTION_BANK,
+      rows,
+      details
+    ).bank
+
+    const built = buildExamFromBank(
+      questions,
+      1,
+      DEFAULT_EXAM_CONFIG.format.anchorPhrases
+    ).rows
+    expect(
+      built
+        .filter(row => row.type === 'answer')
+        .map(row => `${row.text} ${row.locked}`)
+    ).toEqual(['Red true', 'Blue false', 'All of the above true'])
+  })
+})
+
+describe('recordBankUsage', () => {
+  it('adds the exam and question number to each used question', () => {
+    const bank = recordBankUsage(
+      bankOf(),
+      [4, 1],
+      'Midterm',
+      1,
+      '2026-02-01T00:00:00.000Z'
+    )
+
+    expect(bank.questions.find(q => q.id === 1)?.usage).toEqual([
+      {
+        usedAt: '2026-02-01T00:00:00.000Z',
+        exam: 'Midterm',
+        questionNumber: 2,
+      },
+    ])
+    expect(bank.questions.find(q => q.id === 2)?.usage).toEqual([])
+  })
+})
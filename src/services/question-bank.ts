@@ -0,0 +1,416 @@
+/**
+ * Question Bank Service
+ * Keeps questions across exams, with subject, chapter, difficulty, tags and
+ * the exams each question was used in. Questions are searched and picked to
+ * build a new exam.
+ *
+ * The bank is saved by the Tauri backend as question-bank.json in the app data
+ * directory, or in localStorage when running in a browser.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { invoke } from '@tauri-apps/api/core'
+import { toast } from 'sonner'
+import { logger } from '@/lib/logger'
+import { isTauri } from '@/lib/tauri'
+import { ANSWER_LETTERS, type ParsedRow } from '../types/mcq'
+import { createAnchorMatcher } from './parser'
+import {
+  EMPTY_QUESTION_BANK,
+  type BankDifficulty,
+  type BankQuestion,
+  type QuestionBank,
+} from '../types/question-bank'
+
+/** localStorage key of the web fallback */
+const STORAGE_KEY = 'question-bank'
+
+/**
+ * Details given to questions when they are added (or edited)
+ */
+export type BankQuestionDetails = Pick<
+  BankQuestion,
+  'subject' | 'chapter' | 'difficulty' | 'tags'
+>
+
+/**
+ * Filters of a bank search (unset filters match every question)
+ */
+export interface BankFilters {
+  subject?: string
+  chapter?: string
+  difficulty?: BankDifficulty
+  tag?: string
+}
+
+/**
+ * Normalize text for searching: lowercase, without diacritics ("Câu" → "cau")
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase()
+}
+
+/**
+ * Key that identifies the same question added twice
+ * Answers are part of the key, so questions sharing a generic stem such as
+ * "Choose the correct answer" with different options are kept apart
+ */
+function questionKey(
+  question: Pick<BankQuestion, 'text' | 'passage' | 'answers'>
+) {
+  const clean = (text: string) =>
+    normalizeText(text).replace(/\s+/g, ' ').trim()
+  return [
+    clean(question.passage ?? ''),
+    clean(question.text),
+    ...question.answers.map(answer => clean(answer.text)).sort(),
+  ].join('\n')
+}
+
+/**
+ * Add the questions of parsed rows to the bank
+ * Questions already in the bank (same passage, text and answers) are skipped
+ * @param bank Question bank
+ * @param rows Parsed rows of an exam
+ * @param details Subject, chapter, difficulty and tags of the new questions
+ * @param addedAt Date the questions are added (ISO)
+ * @returns Updated bank and the number of questions added and skipped
+ */
+export function addQuestionsToBank(
+  bank: QuestionBank,
+  rows: ParsedRow[],
+  details: BankQuestionDetails,
+  addedAt = new Date().toISOString()
+): { bank: QuestionBank; added: number; duplicates: number } {
+  const passages = new Map<number, string>()
+  const extracted: Omit<BankQuestion, 'id'>[] = []
+
+  for (const row of rows) {
+    if (row.type === 'group') {
+      passages.set(row.id, row.text)
+    } else if (row.type === 'question') {
+      extracted.push({
+        text: row.text,
+        answers: [],
+        points: row.points,
+        passage:
+          row.groupId === undefined ? undefined : passages.get(row.groupId),
+        attachments: row.attachments,
+        ...details,
+        tags: [...details.tags],
+        addedAt,
+        usage: [],
+      })
+    } else if (row.type === 'answer') {
+      extracted.at(-1)?.answers.push({
+        text: row.text,
+        isKey: row.isKey ?? false,
+        ...(row.locked && { locked: true }),
+        attachments: row.attachments,
+      })
+    }
+  }
+
+  const keys = new Set(bank.questions.map(questionKey))
+  let nextId = Math.max(0, ...bank.questions.map(question => question.id)) + 1
+  const added: BankQuestion[] = []
+  for (const question of extracted) {
+    const key = questionKey(question)
+    if (keys.has(key)) continue
+    keys.add(key)
+    added.push({ id: nextId++, ...question })
+  }
+
+  return {
+    bank: { ...bank, questions: [...bank.questions, ...added] },
+    added: added.length,
+    duplicates: extracted.length - added.length,
+  }
+}
+
+/**
+ * Change the details of bank questions
+ * @param bank Question bank
+ * @param ids IDs of the questions to change
+ * @param changes Details to set
+ * @returns Updated bank
+ */
+export function updateBankQuestions(
+  bank: QuestionBank,
+  ids: number[],
+  changes: Partial<BankQuestionDetails>
+): QuestionBank {
+  return {
+    ...bank,
+    questions: bank.questions.map(question =>
+      ids.includes(question.id) ? { ...question, ...changes } : question
+    ),
+  }
+}
+
+/**
+ * Remove questions from the bank
+ * @param bank Question bank
+ * @param ids IDs of the questions to remove
+ * @returns Updated bank
+ */
+export function removeBankQuestions(
+  bank: QuestionBank,
+  ids: number[]
+): QuestionBank {
+  return {
+    ...bank,
+    questions: bank.questions.filter(question => !ids.includes(question.id)),
+  }
+}
+
+/**
+ * Get the subjects, chapters and tags used in the bank (for filters)
+ * @param questions Bank questions
+ * @returns Sorted unique values
+ */
+export function getBankFacets(questions: BankQuestion[]): {
+  subjects: string[]
+  chapters: string[]
+  tags: string[]
+} {
+  const unique = (values: string[]) =>
+    [...new Set(values.filter(value => value.trim() !== ''))].sort((a, b) =>
+      a.localeCompare(b)
+    )
+  return {
+    subjects: unique(questions.map(question => question.subject)),
+    chapters: unique(questions.map(question => question.chapter)),
+    tags: unique(questions.flatMap(question => question.tags)),
+  }
+}
+
+/**
+ * Search the bank
+ * Every word of the query must appear in the question, its answers, passage,
+ * subject, chapter or tags (case and diacritics are ignored)
+ * @param questions Bank questions
+ * @param query Search text
+ * @param filters Subject, chapter, difficulty and tag filters
+ * @returns Matching questions, most recently added first
+ */
+export function searchBank(
+  questions: BankQuestion[],
+  query: string,
+  filters: BankFilters = {}
+): BankQuestion[] {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean)
+
+  return questions
+    .filter(question => {
+      if (filters.subject && question.subject !== filters.subject) return false
+      if (filters.chapter && question.chapter !== filters.chapter) return false
+      if (filters.difficulty && question.difficulty !== filters.difficulty) {
+        return false
+      }
+      if (filters.tag && !question.tags.includes(filters.tag)) return false
+      if (words.length === 0) return true
+
+      const text = normalizeText(
+        [
+          question.text,
+          ...question.answers.map(answer => answer.text),
+          question.passage ?? '',
+          question.subject,
+          question.chapter,
+          ...question.tags,
+        ].join('\n')
+      )
+      return words.every(word => text.includes(word))
+    })
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt) || b.id - a.id)
+}
+
+/**
+ * Build exam rows from bank questions
+ * Questions keep the picked order, except that questions of one passage are
+ * moved next to the first of them and share one passage group. Answers keep
+ * their locks, and anchor answers are locked as parseMcq does
+ * @param questions Picked questions
+ * @param startNumber Starting question number
+ * @param anchorPhrases Anchor phrases (e.g., "All of the above")
+ * @returns Parsed rows and the IDs of the questions in exam order
+ */
+export function buildExamFromBank(
+  questions: BankQuestion[],
+  startNumber = 1,
+  anchorPhrases: string[] = []
+): { rows: ParsedRow[]; questionIds: number[] } {
+  const isAnchor = createAnchorMatcher(anchorPhrases)
+  const ordered: BankQuestion[] = []
+  for (const question of questions) {
+    if (ordered.includes(question)) continue
+    ordered.push(
+      ...(question.passage === undefined
+        ? [question]
+        : questions.filter(other => other.passage === question.passage))
+    )
+  }
+
+  const rows: ParsedRow[] = []
+  let rowId = 0
+  let groupId: number | undefined
+  let passage: string | undefined
+
+  ordered.forEach((question, index) => {
+    if (question.passage !== passage) {
+      passage = question.passage
+      groupId = undefined
+      if (passage !== undefined) {
+        groupId = ++rowId
+        rows.push({
+          id: groupId,
+          type: 'group',
+          label: 'P',
+          text: passage,
+          locked: false,
+        })
+        rows.push({
+          id: ++rowId,
+          type: 'empty',
+          label: '',
+          text: '',
+          locked: false,
+        })
+      }
+    }
+
+    const number = startNumber + index
+    rows.push({
+      id: ++rowId,
+      type: 'question',
+      label: number.toString(),
+      text: question.text,
+      isKey: false,
+      locked: false,
+      originalNumber: number,
+      ...(question.points !== undefined && { points: question.points }),
+      ...(groupId !== undefined && { groupId }),
+      ...(question.attachments && { attachments: question.attachments }),
+    })
+    question.answers.forEach((answer, answerIndex) => {
+      rows.push({
+        id: ++rowId,
+        type: 'answer',
+        label: ANSWER_LETTERS[answerIndex] ?? '?',
+        text: answer.text,
+        isKey: answer.isKey,
+        locked: answer.locked === true || isAnchor(answer.text),
+        ...(answer.attachments && { attachments: answer.attachments }),
+      })
+    })
+    rows.push({
+      id: ++rowId,
+      type: 'empty',
+      label: '',
+      text: '',
+      locked: false,
+    })
+  })
+
+  return { rows, questionIds: ordered.map(question => question.id) }
+}
+
+/**
+ * Record that bank questions were used in an exam
+ * @param bank Question bank
+ * @param questionIds IDs of the questions in exam order
+ * @param exam Exam name
+ * @param startNumber Number of the first question in the exam
+ * @param usedAt Date of use (ISO)
+ * @returns Updated bank
+ */
+export function recordBankUsage(
+  bank: QuestionBank,
+  questionIds: number[],
+  exam: string,
+  startNumber = 1,
+  usedAt = new Date().toISOString()
+): QuestionBank {
+  return {
+    ...bank,
+    questions: bank.questions.map(question => {
+      const index = questionIds.indexOf(question.id)
+      if (index === -1) return question
+      return {
+        ...question,
+        usage: [
+          ...question.usage,
+          { usedAt, exam, questionNumber: startNumber + index },
+        ],
+      }
+    }),
+  }
+}
+
+// Query keys for the question bank
+export const questionBankQueryKeys = {
+  all: ['question-bank'] as const,
+  bank: () => [...questionBankQueryKeys.all] as const,
+}
+
+/**
+ * Load the question bank (empty if none was saved yet)
+ */
+export function useQuestionBank() {
+  return useQuery({
+    queryKey: questionBankQueryKeys.bank(),
+    queryFn: async (): Promise<QuestionBank> => {
+      logger.debug('Loading question bank')
+
+      if (isTauri()) {
+        const bank = await invoke<QuestionBank | null>('load_question_bank')
+        return bank ?? EMPTY_QUESTION_BANK
+      }
+
+      // Web fallback
+      const item = localStorage.getItem(STORAGE_KEY)
+      return item ? (JSON.parse(item) as QuestionBank) : EMPTY_QUESTION_BANK
+    },
+    staleTime: Infinity,
+  })
+}
+
+/**
+ * Save the question bank
+ */
+export function useSaveQuestionBank() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (bank: QuestionBank) => {
+      try {
+        logger.debug('Saving question bank', {
+          questions: bank.questions.length,
+        })
+
+        if (isTauri()) {
+          await invoke('save_question_bank', { bank })
+        } else {
+          // Web fallback
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(bank))
+        }
+
+        logger.info('Question bank saved')
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Unknown error occurred'
+        logger.error('Failed to save question bank', { error })
+        toast.error('Failed to save question bank', { description: message })
+        throw error
+      }
+    },
+    onSuccess: (_, bank) => {
+      queryClient.setQueryData(questionBankQueryKeys.bank(), bank)
+    },
+  })
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_FORMAT_SETTINGS, type ParsedRow } from '@/types/mcq'
+import { parseMcq } from './parser'
+import { validateParsedMcq } from './validator'
+import { serializeRows, serializeRowsWithLines } from './row-editing'
+import { applyQuickFix, applySafeFixes } from './quick-fixes'
+import { diffLines } from './text-diff'
+
+const validate = (input: string) =>
+  validateParsedMcq(parseMcq(input, DEFAULT_FORMAT_SETTINGS))
+const labels = (rows: ParsedRow[]) =>
+  rows.filter(row => row.type !== 'empty').map(row => row.label)
+
+describe('quick fixes', () => {
+  it('reletters answers labelled out of order', () => {
+    const { validatedRows, diagnostics } = validate(
+      '1. First\nA. a\nB. b\na. c'
+    )
+    const diagnostic = diagnostics[0]
+    expect(diagnostic?.message).toBe('Question 1 has answer A after B')
+    expect(diagnostic?.fixes?.[0]).toMatchObject({
+      id: 'reletter-answers',
+      safe: true,
+    })
+    if (!diagnostic) return
+
+    const fixed = applyQuickFix(validatedRows, diagnostic, 'reletter-answers')
+
+    expect(labels(fixed)).toEqual(['1', 'A', 'B', 'C'])
+    expect(validateParsedMcq(fixed).isValid).toBe(true)
+  })
+
+  it('fixes all safe issues, including stray number lines', () => {
+    const { validatedRows, diagnostics } = validate(
+      '1. First\nA. a\nC. b\n2.\n3. Third\nA. c\nA. d'
+    )
+
+    const { rows, count } = applySafeFixes(validatedRows, diagnostics)
+
+    expect(count).toBe(diagnostics.length)
+    expect(validateParsedMcq(rows).isValid).toBe(true)
+    expect(serializeRows(rows)).toBe(
+      '1. First\nA. a\nB. b\n\n2. Third\nA. c\nB. d'
+    )
+  })
+
+  it('changes only the fixed lines of the input', () => {
+    const settings = {
+      ...DEFAULT_FORMAT_SETTINGS,
+      questionPrefix: ['Câu ', ''],
+      questionPostfix: [': ', '. '],
+    }
+    const input = 'Câu 1: First\n(A) a\n(C) b\n\nCâu 2: Second\n(A) c\n(B) d'
+    const { validatedRows, diagnostics } = validateParsedMcq(
+      parseMcq(input, settings)
+    )
+
+    const { rows } = applySafeFixes(validatedRows, diagnostics)
+    const { text } = serializeRowsWithLines(rows, [], {
+      formatSettings: settings,
+      base: { text: input, rows: validatedRows },
+    })
+
+    expect(diffLines(input, text).filter(line => line.type !== 'same')).toEqual(
+      [
+        { type: 'removed', text: '(C) b' },
+        { type: 'added', text: '(B) b' },
+      ]
+    )
+  })
+
+  it('only offers unsafe fixes when text would be lost', () => {
+    const { diagnostics } = validate('1. First\nA. a\nB. b\n2. Lost stem')
+
+    expect(diagnostics[0]?.fixes).toEqual([
+      { id: 'delete-row', label: 'Delete Question 2', safe: false },
+    ])
+    expect(applySafeFixes([], diagnostics).count).toBe(0)
+  })
+})
+
+describe('diffLines', () => {
+  it('marks removed and added lines', () => {
+    expect(diffLines('1. Q\nA. a\nC. b\nend', '1. Q\nA. a\nB. b\nend')).toEqual(
+      [
+        { type: 'same', text: '1. Q' },
+        { type: 'same', text: 'A. a' },
+        { type: 'removed', text: 'C. b' },
+        { type: 'added', text: 'B. b' },
+        { type: 'same', text: 'end' },
+      ]
+    )
+  })
+})
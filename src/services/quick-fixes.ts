@@ -0,0 +1,71 @@
+/**
+ * Quick Fixes Service
+ * Applies the fixes validateParsedMcq offers for its diagnostics
+ */
+
+import type { ParsedRow } from '../types/mcq'
+import {
+  getRowType,
+  type Diagnostic,
+  type QuickFix,
+  type QuickFixId,
+} from './validator'
+import { deleteRow, insertEmptyRow, reletterAnswers } from './row-editing'
+
+/**
+ * Apply a quick fix
+ * Rows flagged by validation get their type back first, so the result can be
+ * validated again
+ * @param rows Parsed rows
+ * @param diagnostic Diagnostic the fix belongs to
+ * @param fixId Fix to apply
+ * @returns Updated rows
+ */
+export function applyQuickFix(
+  rows: ParsedRow[],
+  diagnostic: Diagnostic,
+  fixId: QuickFixId
+): ParsedRow[] {
+  const typedRows = rows.map(row =>
+    row.type === 'error' ? { ...row, type: getRowType(row) } : row
+  )
+
+  switch (fixId) {
+    case 'reletter-answers':
+      return reletterAnswers(typedRows, diagnostic.rowId)
+    case 'insert-empty-line':
+      return insertEmptyRow(typedRows, diagnostic.rowId)
+    case 'delete-row':
+      return deleteRow(typedRows, diagnostic.rowId)
+  }
+}
+
+/**
+ * Get the safe fix of a diagnostic (used by "fix all")
+ */
+export function getSafeFix(diagnostic: Diagnostic): QuickFix | undefined {
+  return diagnostic.fixes?.find(fix => fix.safe)
+}
+
+/**
+ * Apply the safe fix of every diagnostic that has one
+ * Fixes are applied in order; each one checks the rows again, so fixes
+ * reported on several rows of a question are applied once
+ * @param rows Parsed rows
+ * @param diagnostics Diagnostics from validateParsedMcq
+ * @returns Updated rows and the number of diagnostics fixed
+ */
+export function applySafeFixes(
+  rows: ParsedRow[],
+  diagnostics: Diagnostic[]
+): { rows: ParsedRow[]; count: number } {
+  let result = rows
+  let count = 0
+  for (const diagnostic of diagnostics) {
+    const fix = getSafeFix(diagnostic)
+    if (!fix) continue
+    result = applyQuickFix(result, diagnostic, fix.id)
+    count++
+  }
+  return { rows: result, count }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseResponsesCsv } from './response-import'
+
+describe('parseCsv', () => {
+  it('handles quotes, semicolons and CRLF line endings', () => {
+    const text = '\uFEFFID;Name\r\n1;"Nguyễn; ""Văn"" A"\r\n\r\n2;B\r\n'
+
+    expect(parseCsv(text)).toEqual([
+      ['ID', 'Name'],
+      ['1', 'Nguyễn; "Văn" A'],
+      ['2', 'B'],
+    ])
+  })
+})
+
+describe('parseResponsesCsv', () => {
+  it('reads one column per question', () => {
+    const text = [
+      'Student ID,Mã đề,Câu 1,Q2,3',
+      '2041,101,b,"A, c",',
+      '2042,102,?,-,D',
+    ].join('\n')
+
+    const [first, second] = parseResponsesCsv(text, 'form.csv')
+
+    expect(first).toEqual({
+      source: 'form.csv (row 1)',
+      studentId: '2041',
+      examCode: '101',
+      answers: [
+        { questionNumber: 1, marked: ['B'] },
+        { questionNumber: 2, marked: ['A', 'C'] },
+        { questionNumber: 3, marked: [] },
+      ],
+      flags: [],
+    })
+    expect(second?.answers[0]).toEqual({
+      questionNumber: 1,
+      marked: [],
+      unclear: ['?'],
+    })
+    expect(second?.flags).toEqual(['Question 1: unreadable "?"'])
+  })
+
+  it('reads an answers column with one letter per question', () => {
+    const [response] = parseResponsesCsv(
+      'SBD,Answers\n2041,BC-A',
+      'scanner.csv',
+      5
+    )
+
+    expect(response?.examCode).toBe('')
+    expect(response?.answers.map(a => [a.questionNumber, a.marked])).toEqual([
+      [5, ['B']],
+      [6, ['C']],
+      [7, []],
+      [8, ['A']],
+    ])
+  })
+
+  it('requires a student ID and answer columns', () => {
+    expect(() => parseResponsesCsv('Name,Q1\nA,B', 'x.csv')).toThrow(
+      /student ID/
+    )
+    expect(() => parseResponsesCsv('ID,Name\n1,A', 'x.csv')).toThrow(
+      /answer columns/
+    )
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Response Import Service
+ * Reads student responses from CSV exports of third-party scanners and online
+ * forms: one row per student with the student ID, exam code and the letters
+ * marked per question
+ *
+ * Columns are found by their headers:
+ * - Student ID: "Student ID", "ID", "SBD", "MSSV", ...
+ * - Exam code: "Exam Code", "Code", "Version", "Mã đề", ...
+ * - One column per question: "1", "Q1", "Question 1", "Câu 1"; cells hold the
+ *   marked letters ("B", "AC", "A;C"), empty or "-" when blank
+ * - Or a single "Answers" column with one letter per question ("BCA-D")
+ */
+
+import type { ResponseAnswer, StudentResponse } from '../types/mcq'
+
+/** Cell values that mean the question was left blank */
+const BLANK_MARKS = /^[-_.]*$/
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ * The delimiter (comma, semicolon or tab) is taken from the first line
+ * @param text CSV text
+ * @returns Rows of fields, empty lines skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+/**
+ * Read the marked letters of a cell
+ * @returns Letters, or undefined if the cell holds anything else
+ */
+function parseLetters(cell: string): string[] | undefined {
+  const text = cell.trim().toUpperCase()
+  if (BLANK_MARKS.test(text)) return []
+  const letters = text.replace(/[\s,;/|+]/g, '')
+  if (!/^[A-Z]+$/.test(letters)) return undefined
+  return [...new Set(letters)].sort()
+}
+
+/**
+ * Import student responses from CSV
+ * @param text CSV text with a header row
+ * @param source Name shown for the responses (e.g., the file name)
+ * @param startNumber Number of the first question in an "Answers" column
+ * @returns Responses in row order; unreadable cells are flagged for review
+ * @throws Error if the header has no student ID or no answer columns
+ */
+export function parseResponsesCsv(
+  text: string,
+  source: string,
+  startNumber = 1
+): Omit<StudentResponse, 'id'>[] {
+  const [header = [], ...rows] = parseCsv(text)
+  const names = header.map(name => name.trim().toLowerCase())
+  const findColumn = (pattern: RegExp) =>
+    names.findIndex(name => pattern.test(name))
+
+  const idColumn = findColumn(
+    /^(student\s*id|student|id|sbd|mssv|số báo danh|mã (số )?(học sinh|sinh viên))$/
+  )
+  const codeColumn = findColumn(
+    /^(exam\s*code|code|version|mã đề( thi)?|made)$/
+  )
+  const answersColumn = findColumn(/^(answers|responses|đáp án|bài làm)$/)
+  const questionColumns = names.flatMap((name, column) => {
+    const match = /^(?:q|question|câu|cau)?\s*\.?\s*(\d+)$/.exec(name)
+    return match ? [{ column, questionNumber: Number(match[1]) }] : []
+  })
+
+  if (idColumn === -1) {
+    throw new Error('No student ID column found (e.g., "Student ID")')
+  }
+  if (questionColumns.length === 0 && answersColumn === -1) {
+    throw new Error('No answer columns found (e.g., "Q1", "Q2" or "Answers")')
+  }
+
+  return rows.map((row, index) => {
+    const flags: string[] = []
+    const answers: ResponseAnswer[] = []
+    const addAnswer = (questionNumber: number, cell: string) => {
+      const marked = parseLetters(cell)
+      if (marked) {
+        answers.push({ questionNumber, marked })
+        return
+      }
+      // Held for review like an unclear mark on a scanned sheet
+      flags.push(`Question ${questionNumber}: unreadable "${cell}"`)
+      answers.push({ questionNumber, marked: [], unclear: [cell.trim()] })
+    }
+
+    if (questionColumns.length > 0) {
+      for (const { column, questionNumber } of questionColumns) {
+        addAnswer(questionNumber, row[column] ?? '')
+      }
+    } else {
+      const letters = [...(row[answersColumn] ?? '').trim()]
+      letters.forEach((cell, offset) => addAnswer(startNumber + offset, cell))
+    }
+
+    const studentId = row[idColumn]?.trim() ?? ''
+    if (!studentId) flags.push('Student ID is blank')
+
+    return {
+      source: `${source} (row ${index + 1})`,
+      studentId,
+      examCode: codeColumn === -1 ? '' : (row[codeColumn]?.trim() ?? ''),
+      answers,
+      flags,
+    }
+  })
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_FORMAT_SETTINGS, type ParsedRow } from '@/types/mcq'
+import { getLabelPresetSettings } from './label-presets'
+import { carryOverLocks, toggleRowLock } from './locks'
+import { parseMcq } from './parser'
+import { validateParsedMcq } from './validator'
+import {
+  deleteRow,
+  insertAnswer,
+  insertQuestion,
+  moveRow,
+  serializeRows,
+  serializeRowsWithLines,
+  updateRow,
+} from './row-editing'
+
+const SETTINGS = { ...DEFAULT_FORMAT_SETTINGS, anchorPhrases: [] }
+const ROWS = parseMcq(
+  `### Part one
+1. (0.5 Point) First
+second line
+A. a
+*B. b
+>>> Passage
+2. Second
+A. c
+*B. d
+<<<
+3. Third
+*A. e
+B. f`,
+  SETTINGS
+)
+
+const idOf = (rows: ParsedRow[], text: string) =>
+  rows.find(row => row.text === text)?.id ?? -1
+const summary = (rows: ParsedRow[]) =>
+  rows
+    .filter(row => row.type !== 'empty')
+    .map(row => `${row.label}${row.isKey ? '*' : ''} ${row.text}`)
+
+describe('serializeRows', () => {
+  it('writes text that parses back into the same rows', () => {
+    const reparsed = parseMcq(serializeRows(ROWS), SETTINGS)
+
+    expect(summary(reparsed)).toEqual(summary(ROWS))
+    expect(reparsed.map(row => row.groupId !== undefined)).toEqual(
+      ROWS.map(row => row.groupId !== undefined)
+    )
+    expect(reparsed.find(row => row.type === 'question')?.points).toBe(0.5)
+  })
+
+  it('keeps keys toggled in the table', () => {
+    const rows = updateRow(ROWS, idOf(ROWS, 'a'), { isKey: true })
+    const reparsed = parseMcq(serializeRows(rows), SETTINGS)
+
+    expect(reparsed.filter(row => row.isKey).map(row => row.text)).toEqual([
+      'a',
+      'b',
+      'd',
+      'e',
+    ])
+  })
+
+  it('points rows at the lines they were written to', () => {
+    const { text, rows } = serializeRowsWithLines(ROWS)
+    const lines = text.split('\n')
+
+    for (const row of rows.filter(row => row.type !== 'empty')) {
+      expect(lines[(row.sourceLine ?? 0) - 1]).toContain(
+        row.text.split('\n')[0]
+      )
+    }
+    expect(rows.find(row => row.text === 'Third')?.sourceLine).toBe(
+      lines.indexOf('3. Third') + 1
+    )
+  })
+})
+
+describe('serializeRows with the input text', () => {
+  const settings = {
+    ...SETTINGS,
+    ...getLabelPresetSettings('vietnamese'),
+    answerPrefix: ['', ''],
+    answerPostfix: ['. ', '). '],
+  }
+  const input = `Phần I. Trắc nghiệm
+Thời gian: 45 phút
+
+Câu 1: First
+A. a
+*B. b
+
+### MATH EXAM
+Grade 10
+
+Câu 2: Second
+A. c
+*B. d`
+  const rows = parseMcq(input, settings)
+  const base = { text: input, rows }
+
+  it('reads back section titles, labels and locks', () => {
+    const locked = toggleRowLock(rows, idOf(rows, 'Second'))
+    const text = serializeRows(locked, [], { formatSettings: settings })
+    const reparsed = carryOverLocks(locked, parseMcq(text, settings))
+
+    expect(text).toContain('Câu 2. Second')
+    expect(summary(reparsed)).toEqual(summary(rows))
+    expect(
+      reparsed.filter(row => row.type === 'section').map(row => row.text)
+    ).toEqual([
+      'Phần I. Trắc nghiệm\nThời gian: 45 phút',
+      'MATH EXAM\nGrade 10',
+    ])
+    expect(reparsed.find(row => row.text === 'Second')?.locked).toBe(true)
+  })
+
+  it('changes only the edited lines', () => {
+    const edited = updateRow(rows, idOf(rows, 'c'), { text: 'changed' })
+    const { text, rows: written } = serializeRowsWithLines(edited, [], {
+      formatSettings: settings,
+      base,
+    })
+
+    expect(text).toBe(input.replace('A. c', 'A. changed'))
+    expect(written.find(row => row.text === 'changed')?.sourceLine).toBe(12)
+  })
+
+  it('renumbers questions in their own labels', () => {
+    const inserted = insertQuestion(rows, idOf(rows, 'First'))
+    const text = serializeRows(inserted, [], { formatSettings: settings, base })
+
+    expect(text).toContain('Câu 1: First')
+    expect(text).toContain('Câu 2. New question\nA. New answer\nB. New answer')
+    expect(text).toContain('Câu 3: Second')
+    expect(
+      parseMcq(text, settings)
+        .filter(row => row.type === 'question')
+        .map(row => row.label)
+    ).toEqual(['1', '2', '3'])
+  })
+
+  it('rewrites text that no longer matches its rows', () => {
+    const text = serializeRows(rows, [], {
+      formatSettings: settings,
+      base: { text: 'Câu 1: Something else', rows },
+    })
+
+    expect(text).toContain('Câu 1. First')
+  })
+})
+
+describe('row edits', () => {
+  it('inserts answers and questions with fresh labels', () => {
+    const withAnswer = insertAnswer(ROWS, idOf(ROWS, 'a'))
+    expect(
+      withAnswer.filter(row => row.type === 'answer').map(row => row.label)
+    ).toEqual(['A', 'B', 'C', 'A', 'B', 'A', 'B'])
+
+    const withQuestion = insertQuestion(ROWS, idOf(ROWS, 'a'))
+    expect(
+      withQuestion.filter(row => row.type === 'question').map(row => row.label)
+    ).toEqual(['1', '2', '3', '4'])
+    expect(validateParsedMcq(withQuestion).isValid).toBe(true)
+  })
+
+  it('inserts rows that read back from the written text', () => {
+    const rows = insertAnswer(
+      insertQuestion(ROWS, idOf(ROWS, 'Second')),
+      idOf(ROWS, 'Third')
+    )
+    const reparsed = parseMcq(serializeRows(rows), SETTINGS)
+
+    expect(summary(reparsed)).toEqual(summary(rows))
+    expect(reparsed.map(row => row.groupId !== undefined)).toEqual(
+      rows.map(row => row.groupId !== undefined)
+    )
+  })
+
+  it('deletes a question with its answers and renumbers', () => {
+    const rows = deleteRow(ROWS, idOf(ROWS, 'Second'))
+
+    expect(summary(rows)).toEqual([
+      'S Part one',
+      '1 First\nsecond line',
+      'A a',
+      'B* b',
+      'P Passage',
+      '2 Third',
+      'A* e',
+      'B f',
+    ])
+  })
+
+  it('moves questions and answers', () => {
+    const questions = moveRow(
+      ROWS,
+      idOf(ROWS, 'Third'),
+      idOf(ROWS, 'First\nsecond line')
+    )
+    expect(
+      questions.filter(row => row.type === 'question').map(row => row.text)
+    ).toEqual(['Third', 'First\nsecond line', 'Second'])
+    expect(validateParsedMcq(questions).isValid).toBe(true)
+
+    const answers = moveRow(ROWS, idOf(ROWS, 'b'), idOf(ROWS, 'a'))
+    expect(summary(answers).slice(2, 4)).toEqual(['A* b', 'B a'])
+  })
+
+  it('moves questions into and out of passage groups', () => {
+    const groupId = ROWS.find(row => row.type === 'group')?.id
+    const grouped = (rows: ParsedRow[]) =>
+      rows
+        .filter(row => row.type === 'question')
+        .map(row => `${row.text} ${row.groupId !== undefined}`)
+
+    const into = moveRow(ROWS, idOf(ROWS, 'Third'), idOf(ROWS, 'Second'))
+    expect(into.find(row => row.text === 'Third')?.groupId).toBe(groupId)
+
+    const out = moveRow(
+      ROWS,
+      idOf(ROWS, 'Second'),
+      idOf(ROWS, 'First\nsecond line')
+    )
+    expect(grouped(out)).toEqual([
+      'Second false',
+      'First\nsecond line false',
+      'Third false',
+    ])
+
+    for (const rows of [into, out]) {
+      expect(grouped(parseMcq(serializeRows(rows), SETTINGS))).toEqual(
+        grouped(rows)
+      )
+    }
+  })
+})
@@ -0,0 +1,708 @@
+/**
+ * Row Editing Service
+ * Edit, insert, delete and reorder parsed rows, and write them back as text
+ * that parseMcq reads into the same rows
+ */
+
+import {
+  ANSWER_LETTERS,
+  type FormatSettings,
+  type ParsedRow,
+  type RowAttachment,
+} from '../types/mcq'
+import { buildLabelPatterns, buildSectionPattern } from './parser'
+import { getRowType } from './validator'
+
+/**
+ * Text of inserted questions and answers; a bare label would not read back
+ * as the same row
+ */
+const NEW_QUESTION_TEXT = 'New question'
+const NEW_ANSWER_TEXT = 'New answer'
+
+/**
+ * Get the next free row ID
+ */
+function nextRowId(rows: ParsedRow[]): number {
+  return Math.max(0, ...rows.map(row => row.id)) + 1
+}
+
+/**
+ * Create a row of the given type
+ */
+function newRow(
+  id: number,
+  type: ParsedRow['type'],
+  label = '',
+  text = ''
+): ParsedRow {
+  return { id, type, label, text, isKey: false, locked: false }
+}
+
+/**
+ * Get the index range [start, end) of the unit a row moves and deletes with
+ * - Section and group headers: the header and its empty row
+ * - Question: the question with its answers and trailing empty row
+ * - Answer, empty and error rows: the row itself
+ * @param rows Parsed rows
+ * @param index Row index
+ * @returns Start and end index
+ */
+function getUnitRange(rows: ParsedRow[], index: number): [number, number] {
+  const row = rows[index]
+  if (!row) return [index, index]
+
+  if (row.type === 'section' || row.type === 'group') {
+    return [index, rows[index + 1]?.type === 'empty' ? index + 2 : index + 1]
+  }
+  if (row.type !== 'question') return [index, index + 1]
+
+  let end = index + 1
+  while (rows[end]?.type === 'answer') end++
+  if (rows[end]?.type === 'empty') end++
+  return [index, end]
+}
+
+/**
+ * Get the passage group of a question placed at an index: the group of the
+ * nearest preceding question or group header, none after a section
+ * @param rows Parsed rows
+ * @param index Index the question is placed at
+ * @returns Group row ID, or undefined outside groups
+ */
+function getGroupIdAt(rows: ParsedRow[], index: number): number | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    const row = rows[i]
+    if (row?.type === 'group') return row.id
+    if (row?.type === 'question') return row.groupId
+    if (row?.type === 'section') return undefined
+  }
+  return undefined
+}
+
+/**
+ * Reletter answers (A, B, C...) and renumber questions after a structural edit
+ * Numbering starts from the first question's current number
+ * @param rows Parsed rows
+ * @returns Relabelled rows (unchanged rows keep their identity)
+ */
+function relabelRows(rows: ParsedRow[]): ParsedRow[] {
+  const firstQuestion = rows.find(row => row.type === 'question')
+  let questionNum = parseInt(firstQuestion?.label ?? '') || 1
+  let letterIndex = 0
+
+  return rows.map(row => {
+    let label = row.label
+    if (row.type === 'question') {
+      label = (questionNum++).toString()
+      letterIndex = 0
+    } else if (row.type === 'answer') {
+      label = ANSWER_LETTERS[letterIndex++] ?? row.label
+    }
+    return label === row.label ? row : { ...row, label }
+  })
+}
+
+/**
+ * Update fields of a single row
+ * @param rows Parsed rows
+ * @param rowId Row ID
+ * @param changes Fields to change (e.g., text or label)
+ * @returns Updated rows
+ */
+export function updateRow(
+  rows: ParsedRow[],
+  rowId: number,
+  changes: Partial<Pick<ParsedRow, 'text' | 'label' | 'isKey' | 'points'>>
+): ParsedRow[] {
+  return rows.map(row => (row.id === rowId ? { ...row, ...changes } : row))
+}
+
+/**
+ * Insert a placeholder answer
+ * Placed after the given answer, or after the last answer of the given question
+ * @param rows Parsed rows
+ * @param rowId Question or answer row ID
+ * @returns Updated rows (answers relettered)
+ */
+export function insertAnswer(rows: ParsedRow[], rowId: number): ParsedRow[] {
+  const index = rows.findIndex(row => row.id === rowId)
+  const row = rows[index]
+  if (!row || (row.type !== 'question' && row.type !== 'answer')) return rows
+
+  let insertAt = index + 1
+  if (row.type === 'question') {
+    while (rows[insertAt]?.type === 'answer') insertAt++
+  }
+
+  const result = [...rows]
+  result.splice(
+    insertAt,
+    0,
+    newRow(nextRowId(rows), 'answer', 'A', NEW_ANSWER_TEXT)
+  )
+  return relabelRows(result)
+}
+
+/**
+ * Insert a placeholder question with two answers
+ * Placed after the question (or section / group header) the given row belongs to,
+ * in the same passage group
+ * @param rows Parsed rows
+ * @param rowId Row ID to insert after (end of the list if not found)
+ * @returns Updated rows (questions renumbered)
+ */
+export function insertQuestion(rows: ParsedRow[], rowId?: number): ParsedRow[] {
+  let index = rows.findIndex(row => row.id === rowId)
+  // Answers insert after their question
+  while (index > 0 && rows[index]?.type === 'answer') index--
+
+  const anchor = rows[index]
+  const insertAt = anchor ? getUnitRange(rows, index)[1] : rows.length
+  const groupId = anchor?.type === 'group' ? anchor.id : anchor?.groupId
+
+  const id = nextRowId(rows)
+  const question = newRow(id, 'question', '1', NEW_QUESTION_TEXT)
+  if (groupId !== undefined) question.groupId = groupId
+  const block = [
+    question,
+    newRow(id + 1, 'answer', 'A', NEW_ANSWER_TEXT),
+    newRow(id + 2, 'answer', 'B', NEW_ANSWER_TEXT),
+    newRow(id + 3, 'empty'),
+  ]
+
+  const result = [...rows]
+  result.splice(insertAt, 0, ...block)
+  return relabelRows(result)
+}
+
+/**
+ * Insert an empty row before a row (unless one is already there)
+ * @param rows Parsed rows
+ * @param rowId Row ID to insert before
+ * @returns Updated rows
+ */
+export function insertEmptyRow(rows: ParsedRow[], rowId: number): ParsedRow[] {
+  const index = rows.findIndex(row => row.id === rowId)
+  if (index <= 0 || rows[index - 1]?.type === 'empty') return rows
+
+  const result = [...rows]
+  result.splice(index, 0, newRow(nextRowId(rows), 'empty'))
+  return result
+}
+
+/**
+ * Reletter the answers of a question A, B, C... in their current order
+ * @param rows Parsed rows
+ * @param rowId Question row ID, or ID of one of its answers
+ * @returns Updated rows
+ */
+export function reletterAnswers(rows: ParsedRow[], rowId: number): ParsedRow[] {
+  let start = rows.findIndex(row => row.id === rowId)
+  while (start > 0 && rows[start]?.type === 'answer') start--
+  if (rows[start]?.type !== 'question') return rows
+
+  const result = [...rows]
+  for (
+    let index = start + 1, letter = 0;
+    result[index]?.type === 'answer';
+    index++, letter++
+  ) {
+    const row = result[index]
+    const label = ANSWER_LETTERS[letter]
+    if (row && label && row.label !== label) result[index] = { ...row, label }
+  }
+  return result
+}
+
+/**
+ * Delete a row
+ * Questions are deleted with their answers; deleting a group header keeps its
+ * questions (they are no longer grouped)
+ * @param rows Parsed rows
+ * @param rowId Row ID
+ * @returns Updated rows (relabelled)
+ */
+export function deleteRow(rows: ParsedRow[], rowId: number): ParsedRow[] {
+  const index = rows.findIndex(row => row.id === rowId)
+  const row = rows[index]
+  if (!row) return rows
+
+  const [start, end] = getUnitRange(rows, index)
+  const result = [...rows.slice(0, start), ...rows.slice(end)].map(other =>
+    row.type === 'group' && other.groupId === row.id
+      ? { ...other, groupId: undefined }
+      : other
+  )
+  return relabelRows(result)
+}
+
+/**
+ * Move a row (with its unit, see getUnitRange) before another row
+ * Answers can be moved within or between questions; questions, sections and
+ * groups are placed before the unit of the target row. A moved question joins
+ * the passage group at its new place (see getGroupIdAt)
+ * @param rows Parsed rows
+ * @param rowId Row ID to move
+ * @param targetId Row ID to move before
+ * @returns Updated rows (relabelled)
+ */
+export function moveRow(
+  rows: ParsedRow[],
+  rowId: number,
+  targetId: number
+): ParsedRow[] {
+  const index = rows.findIndex(row => row.id === rowId)
+  const row = rows[index]
+  let targetIndex = rows.findIndex(target => target.id === targetId)
+  if (!row || targetIndex < 0 || rowId === targetId) return rows
+
+  if (row.type === 'answer') {
+    const target = rows[targetIndex]
+    // Dropping an answer on a question adds it as that question's first answer
+    if (target?.type === 'question') targetIndex++
+    else if (target?.type !== 'answer') return rows
+  } else {
+    // Other units can only be dropped at the start of another unit
+    while (targetIndex > 0 && rows[targetIndex]?.type === 'answer') {
+      targetIndex--
+    }
+  }
+
+  const [start, end] = getUnitRange(rows, index)
+  if (targetIndex > start && targetIndex < end) return rows
+
+  const unit = rows.slice(start, end)
+  const rest = [...rows.slice(0, start), ...rows.slice(end)]
+  const insertAt = targetIndex > start ? targetIndex - unit.length : targetIndex
+  if (row.type === 'question') {
+    const groupId = getGroupIdAt(rest, insertAt)
+    if (groupId !== row.groupId) unit[0] = { ...row, groupId }
+  }
+  rest.splice(insertAt, 0, ...unit)
+  return relabelRows(rest)
+}
+
+/**
+ * Options for writing rows back as text
+ */
+export interface SerializeOptions {
+  /** Labels to write (first prefix and postfix); built-in "1." / "A." / "*" when unset */
+  formatSettings?: FormatSettings
+  /**
+   * Text the rows were last read from, with those rows
+   * Unchanged questions and headers keep their lines as written (custom labels,
+   * spacing), so only edited lines differ; ignored if the rows do not match it
+   */
+  base?: { text: string; rows: ParsedRow[] }
+}
+
+/**
+ * Lines of a unit of rows (see getUnitRange)
+ */
+interface TextPiece {
+  /** First row ID */
+  id?: number
+  /** Row lines (an entry may hold several lines of a row's text) */
+  body: string[]
+  /** Blank lines and group end markers after the rows */
+  trailing: string[]
+  /** Entry index in body of each row */
+  offsets: Map<number, number>
+  /** First row ID of the unit that followed in the base text */
+  nextId?: number
+}
+
+/**
+ * Unit of rows in the text they were parsed from
+ */
+interface BaseUnit {
+  rows: ParsedRow[]
+  /** Lines from the first row up to the next unit */
+  lines: string[]
+  /** First row ID of the next unit */
+  nextId?: number
+}
+
+/** Line breaks the parser splits lines on */
+// eslint-disable-next-line no-control-regex
+const LINE_BREAK = /\r\n|[\n\u000b\u000c\r\u0085\u2028\u2029]/
+
+/** Group end marker line ("<<<") */
+const GROUP_END = /^\s*<<</
+
+/**
+ * Label forms of written rows
+ */
+interface LabelStyle {
+  question: (label: string) => string
+  answer: (label: string) => string
+  correct: string
+  /** Keyword section headings (written as is, without "###") */
+  section?: RegExp
+}
+
+/**
+ * Get the label forms of written rows
+ * @param formatSettings Format settings (first prefix, first non-empty postfix)
+ * @returns Label forms (e.g., "Câu 1: "), built-in "1. " / "A. " / "*" by default
+ */
+function getLabelStyle(formatSettings?: FormatSettings): LabelStyle {
+  if (!formatSettings) {
+    return {
+      question: label => `${label}. `,
+      answer: label => `${label}. `,
+      correct: '*',
+    }
+  }
+
+  const firstOf = (values: string[], fallback: string) =>
+    values.map(value => value.trim()).find(Boolean) ?? fallback
+  const questionPostfix = firstOf(formatSettings.questionPostfix, '.')
+  const answerPostfix = firstOf(formatSettings.answerPostfix, '.')
+  const section = buildSectionPattern(formatSettings.sectionKeywords)
+
+  return {
+    question: label =>
+      `${formatSettings.questionPrefix[0] ?? ''}${label}${questionPostfix} `,
+    answer: label =>
+      `${formatSettings.answerPrefix[0] ?? ''}${formatSettings.answerLowercase ? label.toLowerCase() : label}${answerPostfix} `,
+    correct: firstOf(formatSettings.correctPrefix, '*'),
+    section: section
+      ? new RegExp(`^\\s*${section.normalize('NFC')}`, 'u')
+      : undefined,
+  }
+}
+
+/**
+ * Split rows into the units they move and delete with
+ */
+function splitUnits(rows: ParsedRow[]): ParsedRow[][] {
+  const units: ParsedRow[][] = []
+  for (let index = 0; index < rows.length; ) {
+    const end = Math.max(getUnitRange(rows, index)[1], index + 1)
+    units.push(rows.slice(index, end))
+    index = end
+  }
+  return units
+}
+
+/**
+ * Write a row with the given labels
+ * @param row Row (not empty)
+ * @param attachments Attachments the tokens refer to
+ * @param style Label forms
+ * @returns Row text (may hold several lines)
+ */
+function writeRow(
+  row: ParsedRow,
+  attachments: RowAttachment[],
+  style: LabelStyle
+): string {
+  const tokens = (row.attachments ?? [])
+    .map(attachment => attachments.indexOf(attachment))
+    .filter(index => index >= 0)
+    .map(index => ` {{attachment:${index}}}`)
+    .join('')
+
+  // Rows flagged by validation are written as what their label says
+  const type = getRowType(row)
+  if (type === 'section') {
+    const isHeading = style.section?.test(row.text.normalize('NFC'))
+    return isHeading ? row.text : `### ${row.text}`
+  }
+  if (type === 'group') return `>>> ${row.text}${tokens}`
+  if (type === 'question') {
+    const points = row.points === undefined ? '' : `(${row.points} points) `
+    return `${style.question(row.label)}${points}${row.text}${tokens}`
+  }
+  if (type === 'answer') {
+    const marker = row.isKey ? style.correct : ''
+    return `${marker}${style.answer(row.label)}${row.text}${tokens}`
+  }
+  return row.text
+}
+
+/**
+ * Check whether a row is unchanged apart from its question number
+ * (locks and passage groups are not written as row text)
+ */
+function isSameRow(before: ParsedRow, after: ParsedRow): boolean {
+  const attachments = before.attachments ?? []
+  const otherAttachments = after.attachments ?? []
+  return (
+    getRowType(before) === getRowType(after) &&
+    before.text === after.text &&
+    (before.type === 'question' || before.label === after.label) &&
+    before.isKey === after.isKey &&
+    before.points === after.points &&
+    attachments.length === otherAttachments.length &&
+    attachments.every((attachment, i) => attachment === otherAttachments[i])
+  )
+}
+
+/**
+ * Read the lines of each unit from the text the rows were parsed from
+ * A unit runs from its first row's source line up to the next unit
+ * @param base Text with the rows read from it
+ * @returns Lines before the first unit and the units with their lines (by
+ * first row ID), or undefined if the rows do not match the text (e.g., the
+ * text was edited without parsing it again)
+ */
+function readBaseUnits(base: {
+  text: string
+  rows: ParsedRow[]
+}): { head: string[]; units: Map<number, BaseUnit> } | undefined {
+  const lines = base.text.split(LINE_BREAK)
+  const units = splitUnits(base.rows).filter(unit =>
+    unit.some(row => row.type !== 'empty')
+  )
+  const starts = units.map(unit => unit[0]?.sourceLine ?? 0)
+  if (
+    units.length === 0 ||
+    starts.some((start, index) => start <= (starts[index - 1] ?? 0))
+  ) {
+    return undefined
+  }
+
+  const compact = (text: string) =>
+    text.normalize('NFC').replace(/\s+/g, ' ').trim()
+  const result = new Map<number, BaseUnit>()
+  for (const [index, unit] of units.entries()) {
+    const start = starts[index] ?? 0
+    const next = starts[index + 1]
+    const unitLines = lines.slice(
+      start - 1,
+      next === undefined ? next : next - 1
+    )
+    // Every row must still be in the lines it was read from
+    const written = compact(unitLines.join(' '))
+    const matches = unit.every(row =>
+      written.includes(compact(row.text.split('\n')[0] ?? ''))
+    )
+    const first = unit[0]
+    if (!first || unitLines.length === 0 || !matches) return undefined
+    result.set(first.id, {
+      rows: unit,
+      lines: unitLines,
+      nextId: units[index + 1]?.[0]?.id,
+    })
+  }
+
+  return { head: lines.slice(0, (starts[0] ?? 1) - 1), units: result }
+}
+
+/**
+ * Get the index of the blank lines and group end markers ending a unit's lines
+ */
+function getTrailingStart(lines: string[]): number {
+  let end = lines.length
+  while (end > 0 && /^\s*(?:<<<.*)?$/.test(lines[end - 1] ?? '')) end--
+  return end
+}
+
+/**
+ * Split the lines of a base unit by row
+ * @param base Unit rows with their lines
+ * @returns Lines by row ID (none if rows share a line, e.g., inline answers)
+ */
+function getRowLines(base: BaseUnit): Map<number, string[]> {
+  const start = base.rows[0]?.sourceLine ?? 0
+  const end = getTrailingStart(base.lines)
+  const written = base.rows.filter(row => row.type !== 'empty')
+  const result = new Map<number, string[]>()
+
+  for (const [index, row] of written.entries()) {
+    const from = (row.sourceLine ?? 0) - start
+    const next = written[index + 1]?.sourceLine
+    const to = next === undefined ? end : next - start
+    if (from < 0 || to <= from) return new Map()
+    result.set(row.id, base.lines.slice(from, to))
+  }
+  return result
+}
+
+/**
+ * Write a unit of rows, keeping the base text lines of unchanged rows
+ * @param unit Rows of the unit
+ * @param attachments Attachments the tokens refer to
+ * @param style Label forms
+ * @param base Same unit in the base text (by first row ID)
+ * @param questionPattern Question label pattern (to renumber kept questions)
+ * @returns Lines of the unit
+ */
+function writeUnit(
+  unit: ParsedRow[],
+  attachments: RowAttachment[],
+  style: LabelStyle,
+  base?: BaseUnit,
+  questionPattern?: RegExp
+): TextPiece {
+  const piece: TextPiece = {
+    id: unit[0]?.id,
+    body: [],
+    trailing: [],
+    offsets: new Map(),
+    nextId: base?.nextId,
+  }
+  const baseRows = new Map(base?.rows.map(row => [row.id, row]))
+  const baseLines = base ? getRowLines(base) : new Map<number, string[]>()
+
+  for (const row of unit) {
+    if (row.type === 'empty') {
+      piece.trailing.push('')
+      continue
+    }
+
+    piece.offsets.set(row.id, piece.body.length)
+    const baseRow = baseRows.get(row.id)
+    const lines = baseLines.get(row.id)
+    if (baseRow && lines && isSameRow(baseRow, row)) {
+      const kept = [...lines]
+      if (row.label === baseRow.label) {
+        piece.body.push(...kept)
+        continue
+      }
+      // Renumbered question: replace the number in its own label
+      const line = kept[0]?.normalize('NFC') ?? ''
+      const label = questionPattern?.exec(line)?.[0]
+      if (label) {
+        kept[0] =
+          label.replace(/\d+(?=\D*$)/, row.label) + line.slice(label.length)
+        piece.body.push(...kept)
+        continue
+      }
+    }
+    piece.body.push(writeRow(row, attachments, style))
+  }
+
+  // Blank lines and the group end after the unit are kept as well
+  if (base) piece.trailing = base.lines.slice(getTrailingStart(base.lines))
+  return piece
+}
+
+/**
+ * Write parsed rows back as text
+ * ("### Section", ">>> Passage" ... "<<<", "1. (0.5 points) Question", "*A. Answer")
+ * Images and tables found in the attachment list are written as
+ * "{{attachment:N}}" tokens so attachImportedMedia restores them
+ * @param rows Parsed rows
+ * @param attachments Attachments the tokens refer to (e.g., from a DOCX import)
+ * @param options Labels to write and the text to keep unchanged lines of
+ * @returns Text that parseMcq reads back into the same rows
+ */
+export function serializeRows(
+  rows: ParsedRow[],
+  attachments: RowAttachment[] = [],
+  options: SerializeOptions = {}
+): string {
+  return serializeRowsWithLines(rows, attachments, options).text
+}
+
+/**
+ * Write parsed rows back as text (see serializeRows) and point each row's
+ * sourceLine at the line it was written to
+ * @param rows Parsed rows
+ * @param attachments Attachments the tokens refer to
+ * @param options Labels to write and the text to keep unchanged lines of
+ * @returns Text and the rows with updated source lines
+ */
+export function serializeRowsWithLines(
+  rows: ParsedRow[],
+  attachments: RowAttachment[] = [],
+  options: SerializeOptions = {}
+): { text: string; rows: ParsedRow[] } {
+  const { formatSettings } = options
+  const style = getLabelStyle(formatSettings)
+  const base = options.base && readBaseUnits(options.base)
+  const questionPattern = formatSettings
+    ? new RegExp(`^\\s*${buildLabelPatterns(formatSettings).question}`, 'i')
+    : undefined
+
+  const baseRowIds = new Set(base ? options.base?.rows.map(row => row.id) : [])
+
+  const pieces: TextPiece[] = []
+  let openGroupId: number | undefined
+
+  for (const unit of splitUnits(rows)) {
+    const first = unit[0]
+    if (!first) continue
+    // Blank lines of the base text are kept with the unit before them
+    if (unit.every(row => row.type === 'empty' && baseRowIds.has(row.id))) {
+      continue
+    }
+    const piece = writeUnit(
+      unit,
+      attachments,
+      style,
+      base?.units.get(first.id),
+      questionPattern
+    )
+
+    // Passage groups end at "<<<" (or the next section/group header)
+    const type = getRowType(first)
+    const previous = pieces.at(-1)
+    const leavesGroup =
+      type === 'section' ||
+      type === 'group' ||
+      (type === 'question' && first.groupId !== openGroupId)
+    if (previous && openGroupId !== undefined) {
+      const hasEnd = previous.trailing.some(line => GROUP_END.test(line))
+      if (!leavesGroup && type === 'question' && hasEnd) {
+        previous.trailing = previous.trailing.filter(
+          line => !GROUP_END.test(line)
+        )
+      } else if (leavesGroup && !hasEnd && (!base || type === 'question')) {
+        closeGroup(previous)
+      }
+    }
+    if (previous && base && previous.nextId !== piece.id) {
+      // Keep moved and inserted units apart
+      if (previous.trailing.length === 0) previous.trailing.push('')
+    }
+    if (type === 'section' || leavesGroup) openGroupId = undefined
+    if (type === 'group') openGroupId = first.id
+
+    pieces.push(piece)
+  }
+  const last = pieces.at(-1)
+  if (!base && last && openGroupId !== undefined) closeGroup(last)
+
+  // Number the lines; entries may hold several lines (multi-line text)
+  const lines: string[] = base ? [...base.head] : []
+  const lineIndexes = new Map<number, number>()
+  for (const piece of pieces) {
+    for (const [id, offset] of piece.offsets) {
+      lineIndexes.set(id, lines.length + offset)
+    }
+    lines.push(...piece.body, ...piece.trailing)
+  }
+
+  const text = lines.join('\n')
+  // Rewritten text has its leading blank lines trimmed
+  const leadingBreaks = base ? 0 : text.length - text.trimStart().length
+  const lineNumbers: number[] = []
+  let lineNumber =
+    1 - (text.substring(0, leadingBreaks).match(/\n/g)?.length ?? 0)
+  for (const line of lines) {
+    lineNumbers.push(lineNumber)
+    lineNumber += line.split('\n').length
+  }
+
+  return {
+    text: base ? text : text.trim(),
+    rows: rows.map(row => {
+      const index = lineIndexes.get(row.id)
+      const sourceLine = index === undefined ? undefined : lineNumbers[index]
+      return sourceLine === row.sourceLine ? row : { ...row, sourceLine }
+    }),
+  }
+}
+
+/**
+ * End a passage group after a piece: "<<<" replaces its last blank line
+ */
+function closeGroup(piece: TextPiece): void {
+  if (piece.trailing.at(-1) === '') piece.trailing.pop()
+  piece.trailing.push('<<<', '')
+}
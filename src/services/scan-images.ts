@@ -0,0 +1,157 @@
+/**
+ * Scan Images Service
+ * Turns scanned answer sheets (PNG, JPEG or PDF) into pixels for the OMR
+ * reader, fully offline
+ *
+ * PDF pages are not rendered: scanners store each page as one image, so the
+ * largest image on the page is decoded instead (JPEG, or 8-bit gray/RGB).
+ */
+
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+} from 'pdf-lib'
+import type { OmrImage } from './omr-reader'
+
+/** Longest side scans are scaled down to (plenty for 5 mm bubbles) */
+const MAX_SCAN_SIDE = 2000
+
+/**
+ * One scanned page
+ */
+export interface ScanPage {
+  /** File name, with the page number for multi-page PDFs */
+  name: string
+  image: OmrImage
+}
+
+/**
+ * Decode an image and read its pixels, scaled down if very large
+ */
+async function readPixels(source: Blob | ImageData): Promise<OmrImage> {
+  const bitmap = await createImageBitmap(source)
+  const scale = Math.min(
+    1,
+    MAX_SCAN_SIDE / Math.max(bitmap.width, bitmap.height)
+  )
+  const width = Math.round(bitmap.width * scale)
+  const height = Math.round(bitmap.height * scale)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available')
+
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  return { width, height, data: context.getImageData(0, 0, width, height).data }
+}
+
+/**
+ * Decode an image stream of a PDF
+ */
+async function readPdfImage(stream: PDFRawStream): Promise<OmrImage> {
+  const { dict } = stream
+  const filter = dict.lookup(PDFName.of('Filter'))
+  const filters =
+    filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : []
+
+  if (filters.length === 1 && filters[0] === PDFName.of('DCTDecode')) {
+    return readPixels(
+      new Blob([new Uint8Array(stream.contents)], { type: 'image/jpeg' })
+    )
+  }
+
+  const width = dict.lookup(PDFName.of('Width'), PDFNumber).asNumber()
+  const height = dict.lookup(PDFName.of('Height'), PDFNumber).asNumber()
+  const bits = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'))
+  const channels =
+    colorSpace === PDFName.of('DeviceGray')
+      ? 1
+      : colorSpace === PDFName.of('DeviceRGB')
+        ? 3
+        : 0
+  const isFlate =
+    filters.length === 0 ||
+    (filters.length === 1 && filters[0] === PDFName.of('FlateDecode'))
+
+  if (!isFlate || bits?.asNumber() !== 8 || channels === 0) {
+    throw new Error('Unsupported scan image format - scan as JPEG or PNG')
+  }
+
+  const pixels = decodePDFRawStream(stream).decode()
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) {
+      rgba[i * 4 + c] = pixels[i * channels + (channels === 3 ? c : 0)] ?? 255
+    }
+    rgba[i * 4 + 3] = 255
+  }
+  return readPixels(new ImageData(rgba, width, height))
+}
+
+/**
+ * Get the largest image drawn on each page of a scanned PDF
+ */
+async function readPdfPages(
+  name: string,
+  data: Uint8Array
+): Promise<ScanPage[]> {
+  const doc = await PDFDocument.load(data, { ignoreEncryption: true })
+  const pages: ScanPage[] = []
+
+  for (const [index, page] of doc.getPages().entries()) {
+    const xObjects = page.node
+      .Resources()
+      ?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+
+    let largest: { stream: PDFRawStream; area: number } | undefined
+    for (const [, ref] of xObjects?.entries() ?? []) {
+      const stream = doc.context.lookup(ref)
+      if (!(stream instanceof PDFRawStream)) continue
+      if (stream.dict.lookup(PDFName.of('Subtype')) !== PDFName.of('Image')) {
+        continue
+      }
+      const size = (key: string) =>
+        stream.dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() ?? 0
+      const area = size('Width') * size('Height')
+      if (!largest || area > largest.area) largest = { stream, area }
+    }
+
+    const pageName = `${name} (page ${index + 1})`
+    if (!largest) throw new Error(`${pageName} has no scanned image`)
+    pages.push({ name: pageName, image: await readPdfImage(largest.stream) })
+  }
+
+  return pages
+}
+
+/**
+ * Read the pages of a scanned file
+ * @param name File name (the extension decides how it is read)
+ * @param data File contents
+ * @returns One page per image, or per PDF page
+ * @throws Error if a PDF page holds no image in a supported format
+ */
+export async function readScanPages(
+  name: string,
+  data: Uint8Array
+): Promise<ScanPage[]> {
+  const extension = name.split('.').pop()?.toLowerCase()
+  if (extension === 'pdf') return readPdfPages(name, data)
+
+  const type = extension === 'png' ? 'image/png' : 'image/jpeg'
+  return [
+    {
+      name,
+      image: await readPixels(new Blob([new Uint8Array(data)], { type })),
+    },
+  ]
+}
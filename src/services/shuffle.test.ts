@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest'
+import type { ParsedRow } from '@/types/mcq'
+import { DEFAULT_EXAM_CONFIG } from '@/types/mcq'
+import {
+  createSeededRandom,
+  getConfiguredShuffleModes,
+  runShufflePipeline,
+  shuffle,
+} from './shuffle'
+
+function row(
+  id: number,
+  type: ParsedRow['type'],
+  label: string,
+  text = '',
+  locked = false
+): ParsedRow {
+  return { id, type, label, text, locked, isKey: false }
+}
+
+const ROWS: ParsedRow[] = [
+  row(1, 'question', '1', 'Q1'),
+  row(2, 'answer', 'A', 'a1'),
+  row(3, 'answer', 'B', 'b1'),
+  row(4, 'answer', 'C', 'c1'),
+  row(5, 'answer', 'D', 'd1', true),
+  row(6, 'empty', ''),
+  row(7, 'question', '2', 'Q2'),
+  row(8, 'answer', 'A', 'a2'),
+  row(9, 'answer', 'B', 'b2'),
+  row(10, 'empty', ''),
+  row(11, 'question', '3', 'Q3'),
+  row(12, 'answer', 'A', 'a3'),
+  row(13, 'answer', 'B', 'b3'),
+  row(14, 'empty', ''),
+]
+
+describe('createSeededRandom', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = createSeededRandom('seed')
+    const b = createSeededRandom('seed')
+    const c = createSeededRandom('other')
+
+    const sequenceA = [a(), a(), a()]
+    expect([b(), b(), b()]).toEqual(sequenceA)
+    expect([c(), c(), c()]).not.toEqual(sequenceA)
+    sequenceA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+})
+
+describe('shuffle', () => {
+  it('is reproducible when given a seed', () => {
+    expect(shuffle(ROWS, 'questions', 'x')).toEqual(
+      shuffle(ROWS, 'questions', 'x')
+    )
+    expect(shuffle(ROWS, 'answers', 'x')).toEqual(shuffle(ROWS, 'answers', 'x'))
+  })
+
+  it('keeps locked answers in place and reletters the rest', () => {
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const result = shuffle(ROWS, 'answers', seed)
+      const locked = result.find(r => r.id === 5)
+
+      expect(result.indexOf(locked as ParsedRow)).toBe(4)
+      expect(result.slice(1, 5).map(r => r.label)).toEqual(['A', 'B', 'C', 'D'])
+    }
+  })
+})
+
+describe('runShufflePipeline', () => {
+  it('applies configured steps in sections → questions → answers order', () => {
+    expect(
+      getConfiguredShuffleModes({
+        shuffleAnswers: true,
+        shuffleSections: true,
+        shuffleQuestions: false,
+      })
+    ).toEqual(['sections', 'answers'])
+  })
+
+  it('leaves rows untouched when no step is enabled', () => {
+    expect(runShufflePipeline(ROWS, DEFAULT_EXAM_CONFIG, 'x')).toEqual(ROWS)
+  })
+
+  it('matches running each step with its derived seed', () => {
+    const config = {
+      ...DEFAULT_EXAM_CONFIG,
+      shuffleQuestions: true,
+      shuffleAnswers: true,
+    }
+    const expected = shuffle(
+      shuffle(ROWS, 'questions', 's/questions'),
+      'answers',
+      's/answers'
+    )
+    expect(runShufflePipeline(ROWS, config, 's')).toEqual(expected)
+  })
+})
+
+describe('passage groups', () => {
+  const grouped = (groupId: number, base: ParsedRow): ParsedRow => ({
+    ...base,
+    groupId,
+  })
+  const GROUP_ROWS: ParsedRow[] = [
+    row(1, 'question', '1', 'Q1'),
+    row(2, 'answer', 'A', 'a1'),
+    row(3, 'answer', 'B', 'b1'),
+    row(4, 'empty', ''),
+    row(5, 'group', 'P', 'Passage'),
+    row(6, 'empty', ''),
+    grouped(5, row(7, 'question', '2', 'Q2')),
+    row(8, 'answer', 'A', 'a2'),
+    row(9, 'answer', 'B', 'b2'),
+    row(10, 'empty', ''),
+    grouped(5, row(11, 'question', '3', 'Q3')),
+    row(12, 'answer', 'A', 'a3'),
+    row(13, 'answer', 'B', 'b3'),
+    row(14, 'empty', ''),
+    grouped(5, row(15, 'question', '4', 'Q4')),
+    row(16, 'answer', 'A', 'a4'),
+    row(17, 'answer', 'B', 'b4'),
+    row(18, 'empty', ''),
+    row(19, 'question', '5', 'Q5'),
+    row(20, 'answer', 'A', 'a5'),
+    row(21, 'empty', ''),
+  ]
+  const texts = (rows: ParsedRow[]) =>
+    rows.filter(r => r.type !== 'empty').map(r => r.text)
+
+  it('moves the passage and its questions as one block', () => {
+    for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+      const result = texts(shuffle(GROUP_ROWS, 'questions', seed))
+      const start = result.indexOf('Passage')
+
+      expect(result.slice(start, start + 10)).toEqual(
+        texts(GROUP_ROWS.slice(4, 18))
+      )
+    }
+  })
+
+  it('shuffles questions inside the group behind the passage when enabled', () => {
+    const orders = new Set<string>()
+    for (const seed of ['a', 'b', 'c', 'd', 'e', 'f']) {
+      const result = shuffle(GROUP_ROWS, 'questions', seed, {
+        shuffleGroupQuestions: true,
+      })
+      const questions = result.filter(r => r.groupId === 5).map(r => r.text)
+      const passage = result.findIndex(r => r.type === 'group')
+
+      expect(result[passage + 2]?.groupId).toBe(5)
+      expect([...questions].sort()).toEqual(['Q2', 'Q3', 'Q4'])
+      orders.add(questions.join())
+    }
+    expect(orders.size).toBeGreaterThan(1)
+  })
+
+  it('keeps answers within their own question', () => {
+    const result = shuffle(GROUP_ROWS, 'answers', 'x')
+    const q3 = result.findIndex(r => r.text === 'Q3')
+
+    expect(
+      result
+        .slice(q3 + 1, q3 + 3)
+        .map(r => r.text)
+        .sort()
+    ).toEqual(['a3', 'b3'])
+  })
+})
+
+describe('anchor answers', () => {
+  const ANCHOR_ROWS: ParsedRow[] = [
+    row(1, 'question', '1', 'Q1'),
+    row(2, 'answer', 'A', 'one'),
+    row(3, 'answer', 'B', 'two'),
+    row(4, 'answer', 'C', 'three'),
+    row(5, 'answer', 'D', 'Both A and C', true),
+    row(6, 'empty', ''),
+  ]
+
+  it('rewrites letter references after relettering', () => {
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const result = shuffle(ANCHOR_ROWS, 'answers', seed)
+      const letterOf = (text: string) =>
+        result.find(r => r.text === text)?.label
+
+      expect(result[4]?.text).toBe(
+        `Both ${letterOf('one')} and ${letterOf('three')}`
+      )
+    }
+  })
+
+  it('rewrites single letters after an option word', () => {
+    const rows: ParsedRow[] = [
+      row(1, 'question', '1', 'Q1'),
+      row(2, 'answer', 'A', 'one'),
+      row(3, 'answer', 'B', 'two'),
+      row(4, 'answer', 'C', 'Only A is correct', true),
+      row(5, 'answer', 'D', 'Đáp án B', true),
+      row(6, 'answer', 'E', 'A bit of both'),
+      row(7, 'empty', ''),
+    ]
+
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const result = shuffle(rows, 'answers', seed)
+      const letterOf = (label: string) =>
+        result.find(r => r.originalLabel === label)?.label
+      const texts = result.map(r => r.text)
+
+      expect(texts).toContain(`Only ${letterOf('A')} is correct`)
+      expect(texts).toContain(`Đáp án ${letterOf('B')}`)
+      expect(texts).toContain('A bit of both')
+    }
+  })
+
+  it('leaves letters in unlocked answers alone', () => {
+    const rows: ParsedRow[] = [
+      row(1, 'question', '1', 'Q1'),
+      row(2, 'answer', 'A', 'Vitamin A and D'),
+      row(3, 'answer', 'B', 'Type A or B'),
+      row(4, 'answer', 'C', 'Not A'),
+      row(5, 'answer', 'D', 'none'),
+      row(6, 'empty', ''),
+    ]
+
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      expect(
+        shuffle(rows, 'answers', seed)
+          .map(r => r.text)
+          .sort()
+      ).toEqual(['', 'Not A', 'Q1', 'Type A or B', 'Vitamin A and D', 'none'])
+    }
+  })
+})
@@ -3,15 +3,88 @@
  * Migrated from script.js - handles shuffling of sections, questions, and answers
  */
 
-import type { ParsedRow } from '../types/mcq'
+import { ANSWER_LETTERS, type ExamConfig, type ParsedRow } from '../types/mcq'
+import { rewriteLetterReferences } from './answer-letters'
+
+/**
+ * Shuffle step
+ */
+export type ShuffleMode = 'sections' | 'questions' | 'answers'
+
+/**
+ * Order in which configured shuffle steps are applied
+ */
+export const SHUFFLE_PIPELINE_ORDER: ShuffleMode[] = [
+  'sections',
+  'questions',
+  'answers',
+]
+
+/**
+ * Options for the questions shuffle step
+ */
+export interface ShuffleOptions {
+  /** Whether to shuffle questions inside passage groups */
+  shuffleGroupQuestions?: boolean
+}
+
+/**
+ * Random number source returning values in [0, 1), like Math.random
+ */
+export type RandomSource = () => number
+
+/**
+ * Create a deterministic random source from a seed string
+ * Same seed always yields the same sequence (mulberry32 over a string hash)
+ * @param seed Seed string
+ * @returns Seeded random source
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  // FNV-1a hash of the seed string
+  let state = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i)
+    state = Math.imul(state, 0x01000193)
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generate a new random seed (short, easy to write down)
+ * @returns Seed string (e.g., "k3j9x2qa")
+ */
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 36 ** 8)
+    .toString(36)
+    .padStart(8, '0')
+}
+
+/**
+ * Resolve the random source for a shuffle call
+ * @param seed Optional seed (Math.random is used when omitted)
+ */
+function getRandomSource(seed?: string): RandomSource {
+  return seed === undefined ? Math.random : createSeededRandom(seed)
+}
 
 /**
  * Fisher-Yates shuffle algorithm with locked indices support
  * Shuffles array in place, preserving locked elements at their original positions
  * @param array Array to shuffle
  * @param lockedIndexes Indexes that should not be shuffled
+ * @param random Random number source
  */
-function shuffleArray<T>(array: T[], lockedIndexes: number[]): void {
+function shuffleArray<T>(
+  array: T[],
+  lockedIndexes: number[],
+  random: RandomSource
+): void {
   const sorted = [...lockedIndexes].sort((a, b) => a - b)
   const lockedElements: T[] = []
 
@@ -33,7 +106,7 @@ function shuffleArray<T>(array: T[], lockedIndexes: number[]): void {
 
   // Shuffle remaining unlocked elements (Fisher-Yates)
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     const temp = array[i]
     const swap = array[j]
     if (temp !== undefined && swap !== undefined) {
@@ -80,9 +153,22 @@ function splitIntoSections(rows: ParsedRow[]): ParsedRow[][] {
   return sections
 }
 
+/**
+ * Check if a question row continues the passage group of a block
+ */
+function isInGroup(row: ParsedRow, block: ParsedRow[] | undefined): boolean {
+  return (
+    row.groupId !== undefined &&
+    block?.[0]?.type === 'group' &&
+    block[0].id === row.groupId
+  )
+}
+
 /**
  * Split a section into questions
  * Structure: [S]=[[header],[Q],[Q]...]  where [Q]=[row,row,row,row...]
+ * A passage group and all of its questions form a single block:
+ * [G]=[group row, empty row, Q rows...]
  * @param section Section rows
  * @returns Array of question blocks (first element is section header if exists)
  */
@@ -96,7 +182,13 @@ function splitSectionIntoQuestions(section: ParsedRow[]): ParsedRow[][] {
 
     // Process remaining rows
     section.slice(2).forEach(row => {
-      if (row.type === 'question') {
+      if (row.type === 'group') {
+        // Start new group block
+        questions.push([row])
+      } else if (
+        row.type === 'question' &&
+        !isInGroup(row, questions[questions.length - 1])
+      ) {
         // Start new question block
         questions.push([row])
       } else {
@@ -112,7 +204,11 @@ function splitSectionIntoQuestions(section: ParsedRow[]): ParsedRow[][] {
   } else {
     // No section header, process all rows
     section.forEach(row => {
-      if (row.type === 'question') {
+      if (
+        row.type === 'group' ||
+        (row.type === 'question' &&
+          !isInGroup(row, questions[questions.length - 1]))
+      ) {
         questions.push([row])
       } else if (questions.length > 0) {
         const currentQuestion = questions[questions.length - 1]
@@ -126,6 +222,27 @@ function splitSectionIntoQuestions(section: ParsedRow[]): ParsedRow[][] {
   return questions
 }
 
+/**
+ * Split a passage group block into its questions
+ * Structure: [G]=[[header],[Q],[Q]...]  where [header]=[group row, empty row]
+ * @param group Group block rows
+ * @returns Array of blocks (first element is the group header)
+ */
+function splitGroupIntoQuestions(group: ParsedRow[]): ParsedRow[][] {
+  const questions: ParsedRow[][] = [group.slice(0, 2)]
+
+  group.slice(2).forEach(row => {
+    const currentQuestion = questions[questions.length - 1]
+    if (row.type === 'question' || questions.length === 1) {
+      questions.push([row])
+    } else if (currentQuestion) {
+      currentQuestion.push(row)
+    }
+  })
+
+  return questions
+}
+
 /**
  * Split all sections into questions
  * Structure: [[S],[S],[S]...]  where [S]=[[header],[Q],[Q]...]  where [Q]=[row,row,row,row...]
@@ -138,37 +255,56 @@ function splitIntoSectionsAndQuestions(rows: ParsedRow[]): ParsedRow[][][] {
 }
 
 /**
- * Reletter answers to A, B, C, D, E after shuffling
+ * Reletter answers to A, B, C... after shuffling
+ * Letter references such as "Both A and C" are rewritten to the new letters
+ * in locked answers only (anchors are locked when parsed); in other answers
+ * "Vitamin A and D" is content, and lint flags possible references instead
  * @param rows Parsed rows
  * @returns Updated rows with correct answer letters
  */
 function reletterAnswers(rows: ParsedRow[]): ParsedRow[] {
-  const letters = ['A', 'B', 'C', 'D', 'E']
+  const letters = ANSWER_LETTERS
   let letterIndex = 0
+  // Old letter → new letter, one map per question
+  const mappings: Map<string, string>[] = []
 
   const result = rows.map(row => {
     if (row.type === 'question') {
       letterIndex = 0 // Reset for new question
+      mappings.push(new Map())
       return row
     } else if (row.type === 'answer') {
-      const letter = letters[letterIndex]
-      const newRow = { ...row, label: letter || 'A' }
+      const letter = letters[letterIndex] || 'A'
+      mappings[mappings.length - 1]?.set(row.label, letter)
+      const newRow = {
+        ...row,
+        label: letter,
+        originalLabel: row.originalLabel ?? row.label,
+      }
       letterIndex++
       return newRow
     }
     return row
   })
 
-  return result
+  let questionIndex = -1
+  return result.map(row => {
+    if (row.type === 'question') questionIndex++
+    const mapping = mappings[questionIndex]
+    if (row.type !== 'answer' || !row.locked || !mapping) return row
+    const text = rewriteLetterReferences(row.text, mapping)
+    return text === row.text ? row : { ...row, text }
+  })
 }
 
 /**
  * Shuffle sections
  * Keeps question order within each section intact
  * @param rows Parsed rows
+ * @param seed Optional seed for reproducible output
  * @returns Shuffled rows
  */
-export function shuffleSections(rows: ParsedRow[]): ParsedRow[] {
+export function shuffleSections(rows: ParsedRow[], seed?: string): ParsedRow[] {
   const sections = splitIntoSections(rows)
 
   // Find locked section indexes
@@ -180,7 +316,7 @@ export function shuffleSections(rows: ParsedRow[]): ParsedRow[] {
   })
 
   // Shuffle sections
-  shuffleArray(sections, lockedIndexes)
+  shuffleArray(sections, lockedIndexes, getRandomSource(seed))
 
   // Flatten back to rows
   return sections.flat()
@@ -188,12 +324,20 @@ export function shuffleSections(rows: ParsedRow[]): ParsedRow[] {
 
 /**
  * Shuffle questions within each section
- * Keeps section order and answer order intact
+ * Keeps section order and answer order intact; passage groups move as one
+ * block and keep their question order unless options.shuffleGroupQuestions
  * @param rows Parsed rows
+ * @param seed Optional seed for reproducible output
+ * @param options Shuffle options
  * @returns Shuffled rows
  */
-export function shuffleQuestions(rows: ParsedRow[]): ParsedRow[] {
+export function shuffleQuestions(
+  rows: ParsedRow[],
+  seed?: string,
+  options: ShuffleOptions = {}
+): ParsedRow[] {
   const sectionsByQuestion = splitIntoSectionsAndQuestions(rows)
+  const random = getRandomSource(seed)
 
   // Shuffle questions within each section
   sectionsByQuestion.forEach(section => {
@@ -212,26 +356,50 @@ export function shuffleQuestions(rows: ParsedRow[]): ParsedRow[] {
       }
     })
 
-    shuffleArray(section, lockedIndexes)
+    shuffleArray(section, lockedIndexes, random)
   })
 
+  // Shuffle questions inside each passage group (the passage stays first)
+  const shuffled = sectionsByQuestion.map(section =>
+    section.map(block => {
+      if (!options.shuffleGroupQuestions || block[0]?.type !== 'group') {
+        return block
+      }
+      const groupQuestions = splitGroupIntoQuestions(block)
+      const lockedIndexes = [0]
+      groupQuestions.forEach((questionBlock, index) => {
+        if (index > 0 && questionBlock[0]?.locked) lockedIndexes.push(index)
+      })
+      shuffleArray(groupQuestions, lockedIndexes, random)
+      return groupQuestions.flat()
+    })
+  )
+
   // Flatten back to rows
-  return sectionsByQuestion.flat(2)
+  return shuffled.flat(2)
 }
 
 /**
  * Shuffle answers within each question
  * Keeps section and question order intact
  * @param rows Parsed rows
+ * @param seed Optional seed for reproducible output
  * @returns Shuffled rows with relettered answers
  */
-export function shuffleAnswers(rows: ParsedRow[]): ParsedRow[] {
-  const sectionsByQuestion = splitIntoSectionsAndQuestions(rows)
-  const allQuestions = sectionsByQuestion.flat()
+export function shuffleAnswers(rows: ParsedRow[], seed?: string): ParsedRow[] {
+  // Passage groups are split so answers only move within their own question
+  const allQuestions = splitIntoSectionsAndQuestions(rows)
+    .flat()
+    .flatMap(block =>
+      block[0]?.type === 'group' ? splitGroupIntoQuestions(block) : [block]
+    )
+  const random = getRandomSource(seed)
 
   // Shuffle answers within each question
   allQuestions.forEach(questionBlock => {
-    if (questionBlock[0]?.type === 'section') return // Skip section headers
+    // Skip section and group headers
+    if (questionBlock[0]?.type === 'section') return
+    if (questionBlock[0]?.type === 'group') return
 
     const questionRow = 0
     const emptyRow = questionBlock.length - 1
@@ -244,37 +412,87 @@ export function shuffleAnswers(rows: ParsedRow[]): ParsedRow[] {
       }
     })
 
-    shuffleArray(questionBlock, lockedIndexes)
+    shuffleArray(questionBlock, lockedIndexes, random)
   })
 
   // Flatten and reletter
-  const flattened = sectionsByQuestion.flat(2)
-  return reletterAnswers(flattened)
+  return reletterAnswers(allQuestions.flat())
 }
 
 /**
  * Main shuffle function
  * @param rows Parsed rows
  * @param mode Shuffle mode
+ * @param seed Optional seed for reproducible output
+ * @param options Shuffle options (questions step)
  * @returns Shuffled rows
  */
 export function shuffle(
   rows: ParsedRow[],
-  mode: 'sections' | 'questions' | 'answers'
+  mode: ShuffleMode,
+  seed?: string,
+  options?: ShuffleOptions
 ): ParsedRow[] {
   let result = [...rows]
 
   switch (mode) {
     case 'sections':
-      result = shuffleSections(result)
+      result = shuffleSections(result, seed)
       break
     case 'questions':
-      result = shuffleQuestions(result)
+      result = shuffleQuestions(result, seed, options)
       break
     case 'answers':
-      result = shuffleAnswers(result)
+      result = shuffleAnswers(result, seed)
       break
   }
 
   return result
 }
+
+/**
+ * Get the shuffle steps enabled in the exam configuration, in pipeline order
+ * @param config Exam configuration
+ * @returns Enabled shuffle steps (sections → questions → answers)
+ */
+export function getConfiguredShuffleModes(
+  config: Pick<
+    ExamConfig,
+    'shuffleSections' | 'shuffleQuestions' | 'shuffleAnswers'
+  >
+): ShuffleMode[] {
+  const enabled: Record<ShuffleMode, boolean> = {
+    sections: config.shuffleSections,
+    questions: config.shuffleQuestions,
+    answers: config.shuffleAnswers,
+  }
+  return SHUFFLE_PIPELINE_ORDER.filter(mode => enabled[mode])
+}
+
+/**
+ * Apply every shuffle step enabled in the exam configuration
+ * Each step gets its own seed derived from the pipeline seed
+ * @param rows Parsed rows
+ * @param config Exam configuration
+ * @param seed Optional seed for reproducible output
+ * @returns Shuffled rows
+ */
+export function runShufflePipeline(
+  rows: ParsedRow[],
+  config: ExamConfig,
+  seed?: string
+): ParsedRow[] {
+  const options: ShuffleOptions = {
+    shuffleGroupQuestions: config.shuffleGroupQuestions,
+  }
+  return getConfiguredShuffleModes(config).reduce(
+    (result, mode) =>
+      shuffle(
+        result,
+        mode,
+        seed === undefined ? undefined : `${seed}/${mode}`,
+        options
+      ),
+    rows
+  )
+}
@@ -0,0 +1,85 @@
+/**
+ * Text Diff Service
+ * Line diff for previewing rewrites of the import text
+ */
+
+/**
+ * Line of a diff
+ */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence)
+ * Common leading and trailing lines are matched first to keep the table small
+ * @param before Original text
+ * @param after Rewritten text
+ * @returns Lines in order, removed lines before the lines that replace them
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldLines = a.slice(prefix, a.length - suffix)
+  const newLines = b.slice(prefix, b.length - suffix)
+  const width = newLines.length + 1
+
+  // lengths[i * width + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths = new Uint32Array((oldLines.length + 1) * width)
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(
+              lengths[(i + 1) * width + j] ?? 0,
+              lengths[i * width + j + 1] ?? 0
+            )
+    }
+  }
+
+  const lines: DiffLine[] = a
+    .slice(0, prefix)
+    .map(text => ({ type: 'same', text }))
+  let i = 0
+  let j = 0
+  while (i < oldLines.length || j < newLines.length) {
+    const oldLine = oldLines[i]
+    const newLine = newLines[j]
+    if (oldLine !== undefined && oldLine === newLine) {
+      lines.push({ type: 'same', text: oldLine })
+      i++
+      j++
+    } else if (
+      newLine === undefined ||
+      (oldLine !== undefined &&
+        (lengths[(i + 1) * width + j] ?? 0) >=
+          (lengths[i * width + j + 1] ?? 0))
+    ) {
+      lines.push({ type: 'removed', text: oldLine ?? '' })
+      i++
+    } else {
+      lines.push({ type: 'added', text: newLine })
+      j++
+    }
+  }
+  for (const text of a.slice(a.length - suffix)) {
+    lines.push({ type: 'same', text })
+  }
+  return lines
+}
@@ -1,11 +1,18 @@
 /**
  * MCQ Validator Service
  * Validates parsed MCQ rows to ensure they follow the expected pattern
- * Pattern: ' S #ABCD #ABCD S #ABCDE #AB #ABC S #ABCD '
- * Where: S = section, # = question number, ABCDE = answers,  = empty line
+ * Pattern: ' S #ABCD #ABCD S #ABCDE P #AB #ABC S #ABCD '
+ * Where: S = section, P = passage group, # = question number, ABCDE = answers,
+ *  = empty line
+ * Answers run from A up to the configured maximum option letter
  */
 
-import type { ParsedRow } from '../types/mcq'
+import {
+  DEFAULT_FORMAT_SETTINGS,
+  type LintRuleId,
+  type ParsedRow,
+} from '../types/mcq'
+import { getAnswerLetters } from './answer-letters'
 
 /**
  * Check if a label is a number
@@ -14,6 +21,66 @@ function isNum(label: string): boolean {
   return /^\d+$/.test(label)
 }
 
+/**
+ * Get the row type a label stands for (keeps the type of non-error rows)
+ * Rows flagged by validation keep their label, so their type can be restored
+ */
+export function getRowType(row: ParsedRow): ParsedRow['type'] {
+  // Blocks the parser could not read stay errors
+  if (row.type !== 'error' || row.label === 'error') return row.type
+  if (row.label === 'S') return 'section'
+  if (row.label === 'P') return 'group'
+  if (isNum(row.label)) return 'question'
+  return row.label ? 'answer' : 'empty'
+}
+
+/**
+ * Kind of problem found by validateParsedMcq, or a content lint rule (see lintRows)
+ */
+export type DiagnosticCode =
+  | 'unparsed-block'
+  | 'section-placement'
+  | 'group-placement'
+  | 'stray-empty-line'
+  | 'question-placement'
+  | 'missing-answers'
+  | 'answer-order'
+  | 'too-many-answers'
+  | LintRuleId
+
+/**
+ * Automatic fix for a diagnostic (see applyQuickFix)
+ */
+export type QuickFixId = 'reletter-answers' | 'insert-empty-line' | 'delete-row'
+
+/**
+ * Quick-fix action offered for a diagnostic
+ */
+export interface QuickFix {
+  id: QuickFixId
+  /** Button label (e.g., "Reletter answers") */
+  label: string
+  /** Safe fixes only relabel or reformat rows (no text is lost) */
+  safe: boolean
+}
+
+/**
+ * Problem with a parsed row
+ */
+export interface Diagnostic {
+  code: DiagnosticCode
+  /** Errors block accepting the import; warnings are informational */
+  severity: 'error' | 'warning'
+  /** Human-readable message (e.g., "Question 7 has answer C after A") */
+  message: string
+  /** ID of the row the problem is on */
+  rowId: number
+  /** 1-based line in the import text (see ParsedRow.sourceLine) */
+  line?: number
+  /** Fixes that can be applied to the rows */
+  fixes?: QuickFix[]
+}
+
 /**
  * Validation result
  */
@@ -24,33 +91,38 @@ export interface ValidationResult {
   firstErrorRowId?: number
   /** Rows with error flags set */
   validatedRows: ParsedRow[]
+  /** Errors in row order (one per error row, blank lines aside) */
+  diagnostics: Diagnostic[]
 }
 
 /**
  * Validate parsed MCQ rows
  * @param rows Parsed rows to validate
- * @returns Validation result with error flags
+ * @param maxOptions Maximum answer options per question
+ * @returns Validation result with error flags and diagnostics
  */
-export function validateParsedMcq(rows: ParsedRow[]): ValidationResult {
+export function validateParsedMcq(
+  rows: ParsedRow[],
+  maxOptions = DEFAULT_FORMAT_SETTINGS.maxOptions
+): ValidationResult {
   if (rows.length === 0) {
-    return { isValid: true, validatedRows: [] }
+    return { isValid: true, validatedRows: [], diagnostics: [] }
   }
 
+  const letters: string[] = getAnswerLetters(maxOptions)
+
   const validatedRows = rows.map(row => ({ ...row }))
+  const diagnostics: Diagnostic[] = []
   let firstErrorRowId: number | undefined
+  // Label of the question the current answers belong to
+  let questionLabel = ''
 
   validatedRows.forEach((row, index) => {
-    // Reset error state
-    const wasError = row.type === 'error'
+    // Reset error state: rows flagged by an earlier run get their type back
+    // from the label (so fixed rows validate again); unreadable blocks stay errors
+    const wasError = row.type === 'error' && row.label === 'error'
     if (!wasError) {
-      row.type =
-        row.type === 'section'
-          ? 'section'
-          : row.type === 'question'
-            ? 'question'
-            : row.type === 'answer'
-              ? 'answer'
-              : 'empty'
+      row.type = getRowType(row)
     }
 
     const label = row.label
@@ -64,74 +136,177 @@ export function validateParsedMcq(rows: ParsedRow[]): ValidationResult {
         ? validatedRows[index + 2]?.label || ''
         : ''
 
-    let hasError = false
+    if (isNum(label)) questionLabel = label
+    const question = `Question ${questionLabel || '?'}`
 
-    // Section validation: ' S #' pattern
+    // First problem found on the row (the row is marked as an error)
+    let problem: Pick<Diagnostic, 'code' | 'message' | 'fixes'> | undefined
+    const fail = (
+      code: DiagnosticCode,
+      message: string,
+      fixes?: QuickFix[]
+    ) => {
+      problem ??= fixes ? { code, message, fixes } : { code, message }
+    }
+    const insertEmptyLine: QuickFix = {
+      id: 'insert-empty-line',
+      label: 'Insert empty line before',
+      safe: true,
+    }
+    const reletterAnswers: QuickFix = {
+      id: 'reletter-answers',
+      label: `Reletter answers of question ${questionLabel || '?'}`,
+      safe: true,
+    }
+
+    if (wasError) {
+      fail('unparsed-block', 'Text could not be read as a question', [
+        { id: 'delete-row', label: 'Delete text', safe: false },
+      ])
+    }
+
+    // Section validation: ' S #' or ' S P' pattern
     if (label === 'S') {
-      if (previousLabel !== '' || nextLabel !== '' || !isNum(nextNextLabel)) {
-        hasError = true
+      if (previousLabel !== '') {
+        fail('section-placement', 'Section header must follow an empty line', [
+          insertEmptyLine,
+        ])
+      } else if (
+        nextLabel !== '' ||
+        (!isNum(nextNextLabel) && nextNextLabel !== 'P')
+      ) {
+        fail(
+          'section-placement',
+          'Section header must be followed by a question'
+        )
+      }
+    }
+
+    // Passage group validation: ' P #' pattern
+    if (label === 'P' && row.type === 'group') {
+      if (previousLabel !== '') {
+        fail('group-placement', 'Passage must follow an empty line', [
+          insertEmptyLine,
+        ])
+      } else if (nextLabel !== '' || !isNum(nextNextLabel)) {
+        fail('group-placement', 'Passage must be followed by a question')
       }
     }
 
     // Empty line validation: should not be in middle of '#ABCD' pattern
+    // (the neighbouring question or answer reports the problem)
     if (label === '') {
       if (
         previousLabel === 'A' ||
         isNum(previousLabel) ||
-        ['A', 'B', 'C', 'D', 'E'].includes(nextLabel)
+        letters.includes(nextLabel)
       ) {
-        hasError = true
+        fail('stray-empty-line', 'Empty line inside a question')
       }
     }
 
     // Question validation: ' #A' pattern
     if (isNum(label)) {
-      if (previousLabel !== '' || nextLabel !== 'A') {
-        hasError = true
-      }
-    }
-
-    // Answer A validation: '#AB' pattern
-    if (label === 'A') {
-      if (!isNum(previousLabel) || nextLabel !== 'B') {
-        hasError = true
-      }
-    }
-
-    // Answer B validation: 'ABC' or 'AB ' patterns
-    if (label === 'B') {
-      if (previousLabel !== 'A' || (nextLabel !== 'C' && nextLabel !== '')) {
-        hasError = true
-      }
-    }
-
-    // Answer C validation: 'BCD' or 'BC ' patterns
-    if (label === 'C') {
-      if (previousLabel !== 'B' || (nextLabel !== 'D' && nextLabel !== '')) {
-        hasError = true
+      if (previousLabel !== '') {
+        fail('question-placement', `${question} must follow an empty line`, [
+          insertEmptyLine,
+        ])
+      } else if (nextLabel !== 'A' && letters.includes(nextLabel)) {
+        fail(
+          'missing-answers',
+          `${question} starts with answer ${nextLabel} instead of A`,
+          [reletterAnswers]
+        )
+      } else if (nextLabel !== 'A') {
+        // A number line without text is a stray line and can go
+        fail('missing-answers', `${question} has no answers`, [
+          row.text.trim()
+            ? { id: 'delete-row', label: `Delete ${question}`, safe: false }
+            : {
+                id: 'delete-row',
+                label: 'Remove stray number line',
+                safe: true,
+              },
+        ])
       }
     }
 
-    // Answer D validation: 'CDE' or 'CD ' patterns
-    if (label === 'D') {
-      if (previousLabel !== 'C' || (nextLabel !== 'E' && nextLabel !== '')) {
-        hasError = true
+    // Answer validation: '#AB' for A, then 'ABC' or 'AB ' and so on,
+    // with the last allowed letter always followed by an empty line
+    const letterIndex = letters.indexOf(label)
+    if (letterIndex === 0) {
+      if (!isNum(previousLabel)) {
+        if (letters.includes(previousLabel)) {
+          fail(
+            'answer-order',
+            `${question} has answer A after ${previousLabel}`,
+            [reletterAnswers]
+          )
+        } else {
+          fail('answer-order', 'Answer A is not attached to a question')
+        }
+      } else if (nextLabel !== letters[1]) {
+        if (letters.includes(nextLabel)) {
+          fail('answer-order', `${question} has answer ${nextLabel} after A`, [
+            reletterAnswers,
+          ])
+        } else {
+          fail('missing-answers', `${question} has only one answer`)
+        }
       }
-    }
-
-    // Answer E validation: 'DE ' pattern
-    if (label === 'E') {
-      if (previousLabel !== 'D' || nextLabel !== '') {
-        hasError = true
+    } else if (letterIndex > 0) {
+      const expectedPrevious = letters[letterIndex - 1]
+      const expectedNext = letters[letterIndex + 1]
+      if (previousLabel !== expectedPrevious) {
+        if (isNum(previousLabel)) {
+          fail(
+            'answer-order',
+            `${question} starts with answer ${label} instead of A`,
+            [reletterAnswers]
+          )
+        } else if (letters.includes(previousLabel)) {
+          fail(
+            'answer-order',
+            `${question} has answer ${label} after ${previousLabel}`,
+            [reletterAnswers]
+          )
+        } else {
+          fail('answer-order', `Answer ${label} is not attached to a question`)
+        }
+      } else if (nextLabel !== expectedNext && nextLabel !== '') {
+        if (letters.includes(nextLabel)) {
+          fail(
+            'answer-order',
+            `${question} has answer ${nextLabel} after ${label}`,
+            [reletterAnswers]
+          )
+        } else {
+          fail('answer-order', `${question} must be followed by an empty line`)
+        }
       }
+    } else if (row.type === 'answer') {
+      // Letter beyond the configured maximum
+      fail(
+        'too-many-answers',
+        `${question} has answer ${label}, but only ${letters[0]}-${letters.at(-1)} are allowed`,
+        [{ id: 'delete-row', label: `Delete answer ${label}`, safe: false }]
+      )
     }
 
     // Mark error rows
-    if (wasError || hasError) {
+    if (problem) {
       row.type = 'error'
       if (!firstErrorRowId) {
         firstErrorRowId = row.id
       }
+      if (problem.code !== 'stray-empty-line') {
+        diagnostics.push({
+          ...problem,
+          severity: 'error',
+          rowId: row.id,
+          line: row.sourceLine,
+        })
+      }
     }
   })
 
@@ -141,6 +316,7 @@ export function validateParsedMcq(rows: ParsedRow[]): ValidationResult {
     isValid,
     firstErrorRowId,
     validatedRows,
+    diagnostics,
   }
 }
 
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_EXAM_CONFIG } from '@/types/mcq'
+import { parseMcq } from './parser'
+import {
+  answerKeyMatrixToCsv,
+  buildAnswerKeyMatrix,
+  generateVersions,
+  type GenerateVersionsOptions,
+} from './versions'
+
+const SOURCE = `1. First question? A. one *B. two C. three D. four
+
+2. Second question? *A. yes B. no
+
+3. Third question? A. red B. green *C. blue`
+
+describe('generateVersions', () => {
+  const rows = parseMcq(SOURCE, DEFAULT_EXAM_CONFIG.format)
+  const config = {
+    ...DEFAULT_EXAM_CONFIG,
+    shuffleQuestions: true,
+    shuffleAnswers: true,
+  }
+
+  it('creates one labelled version per exam code', () => {
+    const versions = generateVersions(rows, config, {
+      count: 3,
+      firstCode: 101,
+      seed: 'abc',
+    })
+
+    expect(versions.map(version => version.code)).toEqual(['101', '102', '103'])
+    versions.forEach(version => {
+      expect(version.answerKey).toHaveLength(3)
+      expect(version.output).toContain('First question?')
+    })
+  })
+
+  it('keeps the correct answer text attached to the key', () => {
+    const [version] = generateVersions(rows, config, {
+      count: 1,
+      firstCode: 1,
+      seed: 'abc',
+    })
+
+    const keyed = version?.rows.filter(row => row.isKey).map(row => row.text)
+    expect(keyed?.sort()).toEqual(['blue', 'two', 'yes'])
+  })
+
+  it('reproduces identical versions from the same seed', () => {
+    const options: GenerateVersionsOptions = {
+      count: 4,
+      firstCode: 101,
+      seed: 'k3j9x2qa',
+    }
+    const first = generateVersions(rows, config, options)
+    const second = generateVersions(rows, config, options)
+
+    expect(second).toEqual(first)
+    expect(first[0]?.seed).toBe('k3j9x2qa-101')
+  })
+
+  it("regenerates a version from that version's seed", () => {
+    const [, version] = generateVersions(rows, config, {
+      count: 2,
+      firstCode: 101,
+      seed: 'k3j9x2qa',
+    })
+    const [again] = generateVersions(rows, config, {
+      count: 1,
+      firstCode: 102,
+      seed: version?.seed ?? '',
+    })
+
+    expect(again).toEqual(version)
+  })
+})
+
+describe('buildAnswerKeyMatrix', () => {
+  it('builds a question × version matrix and CSV', () => {
+    const matrix = buildAnswerKeyMatrix([
+      {
+        code: '101',
+        seed: 's-101',
+        rows: [],
+        output: '',
+        answerKey: [
+          { questionNumber: 1, correctAnswers: ['B'] },
+          { questionNumber: 2, correctAnswers: ['A', 'C'] },
+        ],
+      },
+      {
+        code: '102',
+        seed: 's-102',
+        rows: [],
+        output: '',
+        answerKey: [
+          { questionNumber: 1, correctAnswers: ['D'] },
+          { questionNumber: 2, correctAnswers: [] },
+        ],
+      },
+    ])
+
+    expect(matrix.codes).toEqual(['101', '102'])
+    expect(matrix.rows[1]?.answers).toEqual([['A', 'C'], []])
+    expect(answerKeyMatrixToCsv(matrix)).toBe('Question,101,102\n1,B,D\n2,AC,')
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Exam Versions Service
+ * Generates several shuffled versions (exam codes) of the same exam in one run
+ */
+
+import JSZip from 'jszip'
+import type {
+  AnswerKeyMatrix,
+  ExamConfig,
+  ExamVersion,
+  ParsedRow,
+} from '../types/mcq'
+import { runShufflePipeline } from './shuffle'
+import {
+  formatAnswerKey,
+  generateAnswerKeyEntries,
+  generateExamOutput,
+  renumberQuestions,
+} from './generator'
+import { buildVersionMappings, mappingsToCsv } from './mapping'
+
+/**
+ * Options for generating exam versions
+ */
+export interface GenerateVersionsOptions {
+  /** Number of versions to generate */
+  count: number
+  /** Exam code of the first version */
+  firstCode: number
+  /** Run seed; each version derives its own seed from it and its code */
+  seed: string
+}
+
+/**
+ * Derive the seed of a single version from the run seed
+ * A version seed entered as the run seed (e.g., "k3j9x2qa-101" for code 101)
+ * is used as is, so it regenerates that exact version
+ * @param runSeed Seed of the whole run
+ * @param code Exam code of the version
+ * @returns Version seed (e.g., "k3j9x2qa-101")
+ */
+export function getVersionSeed(runSeed: string, code: string): string {
+  return runSeed.endsWith(`-${code}`) ? runSeed : `${runSeed}-${code}`
+}
+
+/**
+ * Generate N labelled exam versions from the same source rows
+ * Every version runs the shuffle steps enabled in the exam configuration
+ * The same rows, config and seed always produce identical versions
+ * @param rows Parsed rows (source exam)
+ * @param config Exam configuration
+ * @param options Version generation options
+ * @returns Array of versions with output text and answer key
+ */
+export function generateVersions(
+  rows: ParsedRow[],
+  config: ExamConfig,
+  options: GenerateVersionsOptions
+): ExamVersion[] {
+  const versions: ExamVersion[] = []
+
+  for (let i = 0; i < options.count; i++) {
+    const code = String(options.firstCode + i)
+    const seed = getVersionSeed(options.seed, code)
+
+    const versionRows = renumberQuestions(
+      runShufflePipeline(rows, config, seed),
+      config.startNumber
+    )
+
+    versions.push({
+      code,
+      seed,
+      rows: versionRows,
+      output: generateExamOutput(versionRows, config),
+      answerKey: generateAnswerKeyEntries(versionRows, config.startNumber),
+    })
+  }
+
+  return versions
+}
+
+/**
+ * Build the combined answer key matrix (question × version)
+ * @param versions Generated exam versions
+ * @returns Answer key matrix
+ */
+export function buildAnswerKeyMatrix(versions: ExamVersion[]): AnswerKeyMatrix {
+  const questionNumbers = new Set<number>()
+  versions.forEach(version =>
+    version.answerKey.forEach(entry =>
+      questionNumbers.add(entry.questionNumber)
+    )
+  )
+
+  return {
+    codes: versions.map(version => version.code),
+    rows: [...questionNumbers]
+      .sort((a, b) => a - b)
+      .map(questionNumber => ({
+        questionNumber,
+        answers: versions.map(
+          version =>
+            version.answerKey.find(
+              entry => entry.questionNumber === questionNumber
+            )?.correctAnswers ?? []
+        ),
+      })),
+  }
+}
+
+/**
+ * Format the answer key matrix as CSV
+ * Multiple correct answers are joined without separator (e.g., "AC")
+ * @param matrix Answer key matrix
+ * @returns CSV text with one column per exam code
+ */
+export function answerKeyMatrixToCsv(matrix: AnswerKeyMatrix): string {
+  const header = ['Question', ...matrix.codes].join(',')
+  const lines = matrix.rows.map(row =>
+    [row.questionNumber, ...row.answers.map(answers => answers.join(''))].join(
+      ','
+    )
+  )
+  return [header, ...lines].join('\n')
+}
+
+/**
+ * Export all versions as one zip bundle
+ * Contains one exam file and one answer key file per version,
+ * the combined answer key matrix and question mapping as CSV,
+ * and the seed of each version
+ * @param versions Generated exam versions
+ * @param startNumber Starting question number
+ * @returns Zip file blob
+ */
+export async function exportVersionsBundle(
+  versions: ExamVersion[],
+  startNumber = 1
+): Promise<Blob> {
+  const zip = new JSZip()
+
+  versions.forEach(version => {
+    zip.file(`exam-${version.code}.txt`, version.output)
+    zip.file(
+      `answer-key-${version.code}.txt`,
+      formatAnswerKey(version.answerKey).join('\n')
+    )
+  })
+  zip.file(
+    'answer-key-matrix.csv',
+    answerKeyMatrixToCsv(buildAnswerKeyMatrix(versions))
+  )
+  zip.file(
+    'question-mapping.csv',
+    mappingsToCsv(buildVersionMappings(versions, startNumber))
+  )
+  zip.file(
+    'versions.json',
+    JSON.stringify(
+      versions.map(version => ({ code: version.code, seed: version.seed })),
+      null,
+      2
+    )
+  )
+
+  return zip.generateAsync({ type: 'blob' })
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DEFAULT_EXAM_CONFIG, type ParsedRow } from '@/types/mcq'
+import { applyAnswerKey, parseAnswerKey, parseMcq } from '@/services/parser'
+import { useMcqStore } from './mcq-store'
+
+const row = (id: number, text: string): ParsedRow => ({
+  id,
+  type: 'question',
+  label: id.toString(),
+  text,
+  isKey: false,
+  locked: false,
+})
+
+const ORIGINAL = [row(1, 'First'), row(2, 'Second')]
+const SHUFFLED = [row(2, 'Second'), row(1, 'First')]
+
+describe('McqStore history', () => {
+  beforeEach(() => {
+    useMcqStore.getState().resetAll()
+    useMcqStore.getState().setParsedRows(ORIGINAL, 'Parsed questions')
+  })
+
+  it('undoes and redoes labelled changes', () => {
+    const { setGeneratedRows, undo, redo } = useMcqStore.getState()
+
+    setGeneratedRows(SHUFFLED, 'Shuffled questions')
+    expect(undo()).toBe('Shuffled questions')
+    expect(useMcqStore.getState().generatedRows).toEqual(ORIGINAL)
+
+    expect(redo()).toBe('Shuffled questions')
+    expect(useMcqStore.getState().generatedRows).toEqual(SHUFFLED)
+
+    expect(undo()).toBe('Shuffled questions')
+    expect(undo()).toBe('Parsed questions')
+    expect(useMcqStore.getState().parsedRows).toEqual([])
+    expect(undo()).toBeUndefined()
+  })
+
+  it('keeps text typed since a change when undoing it', () => {
+    const { editImportInput, setGeneratedRows, undo } = useMcqStore.getState()
+
+    editImportInput('1. First')
+    editImportInput('1. First\n2. Second')
+    setGeneratedRows(SHUFFLED, 'Shuffled questions')
+    editImportInput('1. First\n2. Second\n3. Third')
+
+    expect(undo()).toBe('Edited input')
+    expect(useMcqStore.getState().importInput).toBe('1. First\n2. Second')
+    expect(useMcqStore.getState().generatedRows).toEqual(SHUFFLED)
+
+    expect(undo()).toBe('Shuffled questions')
+    expect(useMcqStore.getState().importInput).toBe('1. First\n2. Second')
+    expect(useMcqStore.getState().generatedRows).toEqual(ORIGINAL)
+
+    expect(undo()).toBe('Edited input')
+    expect(useMcqStore.getState().importInput).toBe('')
+  })
+
+  it('drops the redo stack on a new change', () => {
+    const { setGeneratedRows, undo } = useMcqStore.getState()
+
+    setGeneratedRows(SHUFFLED, 'Shuffled questions')
+    undo()
+    expect(useMcqStore.getState().future).toHaveLength(1)
+
+    setGeneratedRows(SHUFFLED, 'Shuffled answers')
+    expect(useMcqStore.getState().future).toEqual([])
+  })
+
+  it('does not record changes without a label', () => {
+    useMcqStore.getState().setGeneratedRows(SHUFFLED)
+
+    expect(useMcqStore.getState().past.map(entry => entry.label)).toEqual([
+      'Parsed questions',
+    ])
+  })
+
+  it('undoes an applied answer key', () => {
+    const { setParsedRows, undo } = useMcqStore.getState()
+    const keys = () =>
+      useMcqStore
+        .getState()
+        .parsedRows.filter(row => row.isKey)
+        .map(row => row.id)
+
+    setParsedRows(
+      parseMcq(
+        '1. First? A. one *B. two\n\n2. Second? A. yes B. no',
+        DEFAULT_EXAM_CONFIG.format
+      ),
+      'Parsed questions'
+    )
+    const parsedKeys = keys()
+
+    setParsedRows(
+      applyAnswerKey(
+        useMcqStore.getState().parsedRows,
+        parseAnswerKey('1. A\n2. B')
+      ),
+      'Applied answer key'
+    )
+    expect(keys()).not.toEqual(parsedKeys)
+
+    expect(undo()).toBe('Applied answer key')
+    expect(keys()).toEqual(parsedKeys)
+  })
+})
+
+describe('McqStore persistence', () => {
+  it('saves imported attachments apart from the persisted state', () => {
+    const { resetAll, setImportInput, setImportAttachments } =
+      useMcqStore.getState()
+    const table = { type: 'table' as const, cells: [['a', 'b']] }
+
+    resetAll()
+    setImportInput('1. Look {{attachment:0}}\nA. yes\nB. no')
+    setImportAttachments([table])
+
+    const saved = JSON.parse(localStorage.getItem('mcq-storage') ?? '{}')
+    expect(saved.state.importInput).toContain('{{attachment:0}}')
+    expect(saved.state.importAttachments).toBeUndefined()
+    expect(
+      JSON.parse(localStorage.getItem('import-attachments') ?? '[]')
+    ).toEqual([table])
+  })
+
+  it('keeps working when the attachments exceed the storage quota', () => {
+    const { resetAll, setImportInput, setImportAttachments } =
+      useMcqStore.getState()
+    const image = {
+      type: 'image' as const,
+      src: 'data:image/png;base64,AAAA',
+      width: 10,
+      height: 10,
+    }
+    const setItem = vi
+      .spyOn(Storage.prototype, 'setItem')
+      .mockImplementation(key => {
+        if (key === 'import-attachments') {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError')
+        }
+      })
+
+    resetAll()
+    expect(() => setImportAttachments([image])).not.toThrow()
+    setImportInput('1. Look {{attachment:0}}')
+    setItem.mockRestore()
+
+    expect(useMcqStore.getState().importAttachments).toEqual([image])
+    expect(localStorage.getItem('import-attachments')).toBeNull()
+  })
+})
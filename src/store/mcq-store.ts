@@ -5,12 +5,49 @@
 
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { ExamConfig, FormatSettings, ParsedRow } from '../types/mcq'
+import { generateSeed, runShufflePipeline } from '../services/shuffle'
+import {
+  loadImportAttachments,
+  saveImportAttachments,
+} from '../services/import-attachments'
+import {
+  DEFAULT_ANCHOR_PHRASES,
+  DEFAULT_LINT_SETTINGS,
+  DEFAULT_SCORING_SETTINGS,
+  type ExamConfig,
+  type ExamVersion,
+  type FormatSettings,
+  type ParsedRow,
+  type RowAttachment,
+  type StudentResponse,
+} from '../types/mcq'
+
+/** Maximum number of undo steps kept */
+const HISTORY_LIMIT = 50
+
+/** History label of typing in the import text */
+const TYPING_LABEL = 'Edited input'
+
+/** Workspace data restored by undo/redo */
+type WorkspaceSnapshot = Pick<
+  McqState,
+  'parsedRows' | 'generatedRows' | 'generatedSeed' | 'importInput'
+>
+
+/** Labelled undo/redo step (e.g., "Shuffled questions") */
+export interface HistoryEntry {
+  label: string
+  snapshot: WorkspaceSnapshot
+}
 
 interface McqState {
   // === Data ===
   /** Parsed MCQ rows (internal representation) */
   parsedRows: ParsedRow[]
+  /** Working copy of the exam in the generator (shuffled parsed rows) */
+  generatedRows: ParsedRow[]
+  /** Seed of the last configured generate run (if any) */
+  generatedSeed?: string
   /** Current format settings */
   formatSettings: FormatSettings
   /** Current exam configuration */
@@ -19,24 +56,61 @@ interface McqState {
   examOutput: string
   /** Answer key for generated exam */
   answerKey: string[]
+  /** Generated exam versions (one per exam code) */
+  examVersions: ExamVersion[]
+  /** Run seed the exam versions were generated from */
+  examVersionsSeed?: string
   /** Raw input text for questions */
   importInput: string
   /** Raw input text for answer key */
   importAnswerKeyInput: string
+  /** Images and tables referenced by tokens in importInput (DOCX import) */
+  importAttachments: RowAttachment[]
+  /** Student responses to grade (session only) */
+  studentResponses: StudentResponse[]
+  /** Undo stack, most recent last (session only) */
+  past: HistoryEntry[]
+  /** Redo stack, most recent last (session only) */
+  future: HistoryEntry[]
 
   // === UI State ===
   /** Current active view */
-  currentView: 'import' | 'generate' | 'answer-sheet' | 'settings'
+  currentView:
+    | 'import'
+    | 'generate'
+    | 'answer-sheet'
+    | 'grade'
+    | 'analysis'
+    | 'bank'
+    | 'settings'
 
   // === Actions ===
-  setParsedRows: (rows: ParsedRow[]) => void
+  /** Set parsed rows; a history label makes the change undoable */
+  setParsedRows: (rows: ParsedRow[], historyLabel?: string) => void
+  /** Set the generator's working copy; a history label makes the change undoable */
+  setGeneratedRows: (rows: ParsedRow[], historyLabel?: string) => void
+  /** Run the configured shuffle pipeline on parsed rows, returns the seed */
+  generateFromConfig: () => string
+  /** Save the current workspace to the undo stack under a label */
+  pushHistory: (label: string) => void
+  /** Restore the previous workspace, returns the undone entry's label */
+  undo: () => string | undefined
+  /** Re-apply the last undone change, returns its label */
+  redo: () => string | undefined
   setFormatSettings: (settings: Partial<FormatSettings>) => void
   setExamConfig: (config: Partial<ExamConfig>) => void
   setExamOutput: (output: string) => void
   setAnswerKey: (key: string[]) => void
+  setExamVersions: (versions: ExamVersion[], seed?: string) => void
   setImportInput: (input: string) => void
+  /** Set the import text as typed (consecutive typing is one undo step) */
+  editImportInput: (input: string) => void
   setImportAnswerKeyInput: (input: string) => void
+  setImportAttachments: (attachments: RowAttachment[]) => void
   setCurrentView: (view: McqState['currentView']) => void
+  /** Add responses to grade (IDs are assigned here) */
+  addStudentResponses: (responses: Omit<StudentResponse, 'id'>[]) => void
+  clearStudentResponses: () => void
   resetAll: () => void
 }
 
@@ -45,6 +119,8 @@ interface McqState {
  */
 const initialState = {
   parsedRows: [],
+  generatedRows: [],
+  generatedSeed: undefined,
   formatSettings: {
     questionPrefix: ['', ''],
     questionPostfix: ['. ', '). '],
@@ -52,30 +128,75 @@ const initialState = {
     answerPostfix: ['. ', '). '],
     answerLowercase: false,
     correctPrefix: ['*'],
+    maxOptions: 5,
+    sectionKeywords: [],
+    anchorPhrases: DEFAULT_ANCHOR_PHRASES,
   } as FormatSettings,
   examConfig: {
     shuffleSections: false,
     shuffleQuestions: false,
     shuffleAnswers: false,
+    shuffleGroupQuestions: false,
     startNumber: 1,
+    showPoints: false,
     questionsPerColumn: 5,
     showColumnHeaders: true,
     bubbleSize: 24,
+    studentIdDigits: 6,
+    examCodeDigits: 3,
+    versionCount: 4,
+    firstVersionCode: 101,
+    seed: '',
+    header: {
+      schoolName: '',
+      subject: '',
+      duration: '',
+      showStudentLine: true,
+    },
+    pdf: {
+      pageSize: 'a4',
+      marginMm: 15,
+      includeAnswerKey: false,
+    },
+    lint: DEFAULT_LINT_SETTINGS,
+    scoring: DEFAULT_SCORING_SETTINGS,
     format: {
       questionPrefix: ['', ''],
       questionPostfix: ['. ', '). '],
       answerPrefix: ['', ''],
       answerPostfix: ['. ', '). '],
       answerLowercase: false,
+      correctPrefix: ['*'],
+      maxOptions: 5,
+      sectionKeywords: [],
+      anchorPhrases: DEFAULT_ANCHOR_PHRASES,
     },
   } as ExamConfig,
   examOutput: '',
   answerKey: [],
+  examVersions: [],
+  examVersionsSeed: undefined,
   importInput: '',
   importAnswerKeyInput: '',
+  importAttachments: [],
+  studentResponses: [],
+  past: [],
+  future: [],
   currentView: 'import' as const,
 }
 
+/**
+ * Take a snapshot of the undoable workspace data
+ */
+function takeSnapshot(state: McqState): WorkspaceSnapshot {
+  return {
+    parsedRows: state.parsedRows,
+    generatedRows: state.generatedRows,
+    generatedSeed: state.generatedSeed,
+    importInput: state.importInput,
+  }
+}
+
 /**
  * MCQ Zustand Store
  *
@@ -96,10 +217,73 @@ const initialState = {
  */
 export const useMcqStore = create<McqState>()(
   persist(
-    set => ({
+    (set, get) => ({
       ...initialState,
 
-      setParsedRows: rows => set({ parsedRows: rows }),
+      // New parsed rows also reset the generator's working copy
+      setParsedRows: (rows, historyLabel) => {
+        if (historyLabel) get().pushHistory(historyLabel)
+        set({
+          parsedRows: rows,
+          generatedRows: rows,
+          generatedSeed: undefined,
+        })
+      },
+
+      setGeneratedRows: (rows, historyLabel) => {
+        if (historyLabel) get().pushHistory(historyLabel)
+        set({ generatedRows: rows, generatedSeed: undefined })
+      },
+
+      generateFromConfig: () => {
+        const { parsedRows, examConfig, pushHistory } = get()
+        const seed = examConfig.seed.trim() || generateSeed()
+        pushHistory('Generated exam')
+        set({
+          generatedRows: runShufflePipeline(parsedRows, examConfig, seed),
+          generatedSeed: seed,
+        })
+        return seed
+      },
+
+      // A new change starts a new branch, so the redo stack is dropped
+      pushHistory: label =>
+        set(state => ({
+          past: [...state.past, { label, snapshot: takeSnapshot(state) }].slice(
+            -HISTORY_LIMIT
+          ),
+          future: [],
+        })),
+
+      undo: () => {
+        const state = get()
+        const entry = state.past.at(-1)
+        if (!entry) return undefined
+        set({
+          ...entry.snapshot,
+          past: state.past.slice(0, -1),
+          future: [
+            ...state.future,
+            { label: entry.label, snapshot: takeSnapshot(state) },
+          ],
+        })
+        return entry.label
+      },
+
+      redo: () => {
+        const state = get()
+        const entry = state.future.at(-1)
+        if (!entry) return undefined
+        set({
+          ...entry.snapshot,
+          future: state.future.slice(0, -1),
+          past: [
+            ...state.past,
+            { label: entry.label, snapshot: takeSnapshot(state) },
+          ],
+        })
+        return entry.label
+      },
 
       setFormatSettings: settings =>
         set(state => {
@@ -123,12 +307,41 @@ export const useMcqStore = create<McqState>()(
 
       setAnswerKey: key => set({ answerKey: key }),
 
+      setExamVersions: (versions, seed) =>
+        set({ examVersions: versions, examVersionsSeed: seed }),
+
       setImportInput: input => set({ importInput: input }),
 
+      // Typing is recorded too, so undoing a later change does not restore
+      // the text it was made on over what was typed since
+      editImportInput: input => {
+        const { past, future, pushHistory } = get()
+        if (past.at(-1)?.label !== TYPING_LABEL || future.length > 0) {
+          pushHistory(TYPING_LABEL)
+        }
+        set({ importInput: input })
+      },
+
       setImportAnswerKeyInput: input => set({ importAnswerKeyInput: input }),
 
+      setImportAttachments: attachments =>
+        set({ importAttachments: attachments }),
+
       setCurrentView: view => set({ currentView: view }),
 
+      addStudentResponses: responses =>
+        set(state => {
+          let nextId = Math.max(0, ...state.studentResponses.map(r => r.id)) + 1
+          return {
+            studentResponses: [
+              ...state.studentResponses,
+              ...responses.map(response => ({ ...response, id: nextId++ })),
+            ],
+          }
+        }),
+
+      clearStudentResponses: () => set({ studentResponses: [] }),
+
       resetAll: () => set(initialState),
     }),
     {
@@ -139,6 +352,73 @@ export const useMcqStore = create<McqState>()(
         importInput: state.importInput,
         importAnswerKeyInput: state.importAnswerKeyInput,
       }),
+      // Merge nested settings so fields added after a save get their defaults
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<McqState> | undefined
+        return {
+          ...current,
+          ...saved,
+          formatSettings: {
+            ...current.formatSettings,
+            ...saved?.formatSettings,
+          },
+          examConfig: {
+            ...current.examConfig,
+            ...saved?.examConfig,
+            header: {
+              ...current.examConfig.header,
+              ...saved?.examConfig?.header,
+            },
+            pdf: {
+              ...current.examConfig.pdf,
+              ...saved?.examConfig?.pdf,
+            },
+            format: {
+              ...current.examConfig.format,
+              ...saved?.examConfig?.format,
+            },
+            lint: {
+              ...current.examConfig.lint,
+              ...saved?.examConfig?.lint,
+              rules: {
+                ...current.examConfig.lint.rules,
+                ...saved?.examConfig?.lint?.rules,
+              },
+            },
+            scoring: {
+              ...current.examConfig.scoring,
+              ...saved?.examConfig?.scoring,
+            },
+          },
+        }
+      },
     }
   )
 )
+
+/** Attachments last loaded or saved (not saved again) */
+let savedAttachments: RowAttachment[] | undefined
+
+// Import attachments are saved on their own when they change (too large for
+// the persisted slice, see saveImportAttachments)
+useMcqStore.subscribe(state => {
+  if (state.importAttachments === savedAttachments) return
+  savedAttachments = state.importAttachments
+  void saveImportAttachments(state.importAttachments)
+})
+
+/**
+ * Restore the import attachments saved in the last session
+ * An import made while they load is kept
+ */
+export async function restoreImportAttachments(): Promise<void> {
+  const attachments = await loadImportAttachments()
+  if (
+    attachments.length === 0 ||
+    useMcqStore.getState().importAttachments.length > 0
+  ) {
+    return
+  }
+  savedAttachments = attachments
+  useMcqStore.getState().setImportAttachments(attachments)
+}
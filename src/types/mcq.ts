@@ -4,11 +4,33 @@
  */
 
 /**
- * Answer option for a question (A, B, C, D, or E)
+ * Every supported answer option letter, in order
+ * How many are used is configured with FormatSettings.maxOptions
+ */
+export const ANSWER_LETTERS = [
+  'A',
+  'B',
+  'C',
+  'D',
+  'E',
+  'F',
+  'G',
+  'H',
+  'I',
+  'J',
+] as const
+
+/**
+ * Answer option letter (A-J)
+ */
+export type AnswerLetter = (typeof ANSWER_LETTERS)[number]
+
+/**
+ * Answer option for a question (A, B, C...)
  */
 export interface Answer {
-  /** Answer letter (A-E) */
-  letter: 'A' | 'B' | 'C' | 'D' | 'E'
+  /** Answer letter (A-J) */
+  letter: AnswerLetter
   /** Answer text content */
   text: string
   /** Whether this answer is correct */
@@ -27,6 +49,8 @@ export interface Question {
   text: string
   /** Array of answer options */
   answers: Answer[]
+  /** Point value (e.g., 0.25), if given */
+  points?: number
   /** Whether this question is locked from shuffling */
   locked: boolean
   /** Original question number (for tracking after shuffle) */
@@ -59,6 +83,96 @@ export interface FormatSettings {
   answerLowercase: boolean
   /** Prefix indicating a correct answer (e.g., ["*"]) */
   correctPrefix: string[]
+  /** Maximum answer options per question (2-10, i.e. up to A-J) */
+  maxOptions: number
+  /**
+   * Keywords that start a section heading when followed by a Roman numeral,
+   * letter or number (e.g., ["Phần"] for "Phần I", "PHẦN A")
+   */
+  sectionKeywords: string[]
+  /**
+   * Answers starting with one of these phrases are locked in place when
+   * parsing (e.g., "All of the above"); standalone letters match any letter
+   */
+  anchorPhrases: string[]
+}
+
+/**
+ * Built-in question/section label presets
+ */
+export type LabelPresetId = 'standard' | 'vietnamese' | 'english'
+
+/**
+ * Header block printed at the top of exported exams
+ */
+export interface ExamHeaderSettings {
+  /** School or institution name */
+  schoolName: string
+  /** Subject / course name */
+  subject: string
+  /** Exam duration text (e.g., "45 minutes") */
+  duration: string
+  /** Whether to print the student name / ID line */
+  showStudentLine: boolean
+}
+
+/**
+ * Paper size for PDF export
+ */
+export type PdfPageSize = 'a4' | 'letter'
+
+/**
+ * Page setup for PDF export
+ */
+export interface PdfSettings {
+  /** Paper size */
+  pageSize: PdfPageSize
+  /** Page margin on every side, in millimetres */
+  marginMm: number
+  /** Whether to append an answer key page to exported exams */
+  includeAnswerKey: boolean
+}
+
+/**
+ * Content lint rules (see services/lint.ts)
+ */
+export type LintRuleId =
+  | 'missing-key'
+  | 'key-count'
+  | 'single-option'
+  | 'duplicate-option'
+  | 'duplicate-question'
+  | 'letter-reference'
+
+/**
+ * Lint rule severity ('error' blocks accepting the import, 'off' disables the rule)
+ */
+export type LintSeverity = 'off' | 'warning' | 'error'
+
+/**
+ * Content lint configuration
+ */
+export interface LintSettings {
+  /** Severity of each rule */
+  rules: Record<LintRuleId, LintSeverity>
+  /** Number of keys a question may have (checked by 'key-count') */
+  keyPolicy: 'single' | 'multiple'
+  /** Similarity (0-1) from which two questions count as duplicates */
+  duplicateThreshold: number
+}
+
+/**
+ * Scoring rules for student responses
+ */
+export interface ScoringSettings {
+  /** Credit for multi-answer questions answered partly right */
+  partialCredit: 'none' | 'proportional'
+  /** Share of a question's points deducted for a wrong answer (0 = none) */
+  wrongPenalty: number
+  /** Whether blank questions are penalized like wrong ones */
+  penalizeBlanks: boolean
+  /** Whether a total below zero is raised to zero */
+  floorAtZero: boolean
 }
 
 /**
@@ -71,8 +185,12 @@ export interface ExamConfig {
   shuffleQuestions: boolean
   /** Whether to shuffle answer options */
   shuffleAnswers: boolean
+  /** Whether to shuffle questions inside a passage group (the group itself always moves as a unit) */
+  shuffleGroupQuestions: boolean
   /** Starting number for question renumbering */
   startNumber: number
+  /** Whether to print question point values in generated exams */
+  showPoints: boolean
   /** Format settings for output */
   format: FormatSettings
   /** Number of questions per column in answer sheet */
@@ -81,6 +199,24 @@ export interface ExamConfig {
   showColumnHeaders: boolean
   /** Size of answer bubbles in pixels */
   bubbleSize: number
+  /** Digits of the student ID grid on student answer sheets */
+  studentIdDigits: number
+  /** Digits of the exam code grid on student answer sheets */
+  examCodeDigits: number
+  /** Number of exam versions to generate in one run */
+  versionCount: number
+  /** Exam code of the first version (following versions count up) */
+  firstVersionCode: number
+  /** Shuffle seed for reproducible versions (empty = new random seed per run) */
+  seed: string
+  /** Header block for exported exams */
+  header: ExamHeaderSettings
+  /** Page setup for PDF export */
+  pdf: PdfSettings
+  /** Content lint rules checked on import */
+  lint: LintSettings
+  /** Rules for scoring student responses */
+  scoring: ScoringSettings
 }
 
 /**
@@ -88,11 +224,31 @@ export interface ExamConfig {
  */
 export type ParsedRowType =
   | 'section'
+  | 'group'
   | 'question'
   | 'answer'
   | 'empty'
   | 'error'
 
+/**
+ * Image or table attached to a row (e.g., imported from a Word document)
+ */
+export type RowAttachment =
+  | {
+      type: 'image'
+      /** Image as data URL */
+      src: string
+      /** Display width in pixels */
+      width: number
+      /** Display height in pixels */
+      height: number
+    }
+  | {
+      type: 'table'
+      /** Cell text, row by row */
+      cells: string[][]
+    }
+
 /**
  * Parsed MCQ row (internal representation during parsing)
  */
@@ -101,9 +257,9 @@ export interface ParsedRow {
   id: number
   /** Row type */
   type: ParsedRowType
-  /** Label (S for section, number for question, letter for answer) */
+  /** Label (S for section, P for passage group, number for question, letter for answer) */
   label: string
-  /** Text content */
+  /** Text content (may span several lines, separated by "\n") */
   text: string
   /** Whether marked as correct (for answers) */
   isKey?: boolean
@@ -111,6 +267,16 @@ export interface ParsedRow {
   locked: boolean
   /** Original number (for questions, tracking after shuffle) */
   originalNumber?: number
+  /** Original letter (for answers, tracking after shuffle) */
+  originalLabel?: string
+  /** Point value (for questions, e.g. from "(0.2 Point)") */
+  points?: number
+  /** ID of the passage group row this question belongs to (see ParsedRowType 'group') */
+  groupId?: number
+  /** Inline images and tables belonging to this row */
+  attachments?: RowAttachment[]
+  /** 1-based line in the import text where the row starts (not set for empty rows) */
+  sourceLine?: number
 }
 
 /**
@@ -134,8 +300,99 @@ export interface AnswerKeyEntry {
   questionNumber: number
   /** Correct answer letters (e.g., ["A"], ["A", "C", "D"] for multiple correct) */
   correctAnswers: string[]
+  /** Point value of the question (see getQuestionPoints) */
+  points?: number
+}
+
+/**
+ * Generated exam version (one exam code handed out to students)
+ */
+export interface ExamVersion {
+  /** Exam code printed on the paper (e.g., "101") */
+  code: string
+  /** Seed this version was shuffled with */
+  seed: string
+  /** Shuffled rows for this version */
+  rows: ParsedRow[]
+  /** Formatted exam text */
+  output: string
+  /** Answer key entries for this version */
+  answerKey: AnswerKeyEntry[]
+}
+
+/**
+ * Letters a student marked for one question
+ */
+export interface ResponseAnswer {
+  questionNumber: number
+  marked: string[]
+  /** Letters with an unclear mark (scanned sheets); held for manual review */
+  unclear?: string[]
 }
 
+/**
+ * Responses of one student (scanned sheet or imported CSV row)
+ */
+export interface StudentResponse {
+  id: number
+  /** Where the response came from (e.g., "scans.pdf (page 2)") */
+  source: string
+  studentId: string
+  examCode: string
+  answers: ResponseAnswer[]
+  /** Problems to check by hand */
+  flags: string[]
+  /** Why the response could not be read (it is not graded) */
+  error?: string
+}
+
+/**
+ * Combined answer key matrix (question × version)
+ */
+export interface AnswerKeyMatrix {
+  /** Exam codes, one per column */
+  codes: string[]
+  /** One row per question number */
+  rows: {
+    /** Question number */
+    questionNumber: number
+    /** Correct answer letters per version (same order as codes) */
+    answers: string[][]
+  }[]
+}
+
+/**
+ * Point value of a question without an explicit value
+ */
+export const DEFAULT_QUESTION_POINTS = 1
+
+/**
+ * Default scoring rules: all-or-nothing, no negative marking
+ */
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  partialCredit: 'none',
+  wrongPenalty: 0,
+  penalizeBlanks: false,
+  floorAtZero: true,
+}
+
+/**
+ * Default anchor phrases (English and Vietnamese)
+ */
+export const DEFAULT_ANCHOR_PHRASES: string[] = [
+  'All of the above',
+  'None of the above',
+  'All of these',
+  'None of these',
+  'Both A and B',
+  'Tất cả đều đúng',
+  'Tất cả đều sai',
+  'Tất cả các đáp án trên',
+  'Không có đáp án nào đúng',
+  'Cả A và B',
+  'Cả A, B và C',
+]
+
 /**
  * Default format settings
  */
@@ -146,6 +403,25 @@ export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
   answerPostfix: [')', '). '],
   answerLowercase: false,
   correctPrefix: ['*'],
+  maxOptions: 5,
+  sectionKeywords: [],
+  anchorPhrases: DEFAULT_ANCHOR_PHRASES,
+}
+
+/**
+ * Default content lint configuration
+ */
+export const DEFAULT_LINT_SETTINGS: LintSettings = {
+  rules: {
+    'missing-key': 'warning',
+    'key-count': 'warning',
+    'single-option': 'error',
+    'duplicate-option': 'error',
+    'duplicate-question': 'warning',
+    'letter-reference': 'warning',
+  },
+  keyPolicy: 'single',
+  duplicateThreshold: 0.9,
 }
 
 /**
@@ -155,9 +431,29 @@ export const DEFAULT_EXAM_CONFIG: ExamConfig = {
   shuffleSections: false,
   shuffleQuestions: false,
   shuffleAnswers: false,
+  shuffleGroupQuestions: false,
   startNumber: 1,
+  showPoints: false,
   format: DEFAULT_FORMAT_SETTINGS,
   questionsPerColumn: 5,
   showColumnHeaders: true,
   bubbleSize: 24,
+  studentIdDigits: 6,
+  examCodeDigits: 3,
+  versionCount: 4,
+  firstVersionCode: 101,
+  seed: '',
+  header: {
+    schoolName: '',
+    subject: '',
+    duration: '',
+    showStudentLine: true,
+  },
+  pdf: {
+    pageSize: 'a4',
+    marginMm: 15,
+    includeAnswerKey: false,
+  },
+  lint: DEFAULT_LINT_SETTINGS,
+  scoring: DEFAULT_SCORING_SETTINGS,
 }
@@ -0,0 +1,70 @@
+import type { RowAttachment } from './mcq'
+
+/**
+ * Question bank types
+ * The bank is stored as question-bank.json in the app data directory
+ * (localStorage in the browser), separate from the single exam in the store
+ */
+
+/**
+ * Difficulty a question is tagged with
+ */
+export type BankDifficulty = 'easy' | 'medium' | 'hard'
+
+/**
+ * One use of a bank question in an exam
+ */
+export interface BankUsage {
+  /** When the exam was built (ISO date) */
+  usedAt: string
+  /** Exam name (subject in the exam header) */
+  exam: string
+  /** Question number in that exam */
+  questionNumber: number
+}
+
+/**
+ * Answer option of a bank question
+ */
+export interface BankAnswer {
+  text: string
+  isKey: boolean
+  /** Kept in place when shuffling (e.g., locked in the import table) */
+  locked?: boolean
+  attachments?: RowAttachment[]
+}
+
+/**
+ * Question stored in the bank
+ */
+export interface BankQuestion {
+  id: number
+  text: string
+  answers: BankAnswer[]
+  /** Point value (from "(0.5 points)" in the source) */
+  points?: number
+  /** Passage the question belongs to (questions of one passage stay together) */
+  passage?: string
+  attachments?: RowAttachment[]
+  subject: string
+  chapter: string
+  difficulty?: BankDifficulty
+  tags: string[]
+  /** When the question was added (ISO date) */
+  addedAt: string
+  /** Exams the question was used in, oldest first */
+  usage: BankUsage[]
+}
+
+/**
+ * Contents of the question bank file
+ */
+export interface QuestionBank {
+  version: 1
+  questions: BankQuestion[]
+}
+
+export const EMPTY_QUESTION_BANK: QuestionBank = {
+  version: 1,
+  questions: [],
+}